@@ -1,9 +1,46 @@
-import { Slot } from 'expo-router';
+import { Tabs } from 'expo-router';
+import React from 'react';
 
-// This layout now simply renders the currently matched child screen 
-// within this directory (index.tsx) using Slot.
-// This avoids adding the Stack navigator layer when only one screen is present
-// and might resolve issues with component re-renders.
+import { HapticTab } from '@/components/HapticTab';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+
+/**
+ * Map, Browse and Walks tabs. They share the zone data, favourites and walks of the root layout's providers.
+ */
 export default function TabLayout() {
-  return <Slot />;
+  const colorScheme = useColorScheme();
+
+  return (
+    <Tabs
+      // The default opaque tab bar keeps the map overlays anchored to the bottom visible
+      screenOptions={{
+        tabBarActiveTintColor: Colors[colorScheme ?? 'light'].tint,
+        headerShown: false,
+        tabBarButton: HapticTab,
+      }}>
+      <Tabs.Screen
+        name="index"
+        options={{
+          title: 'Map',
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="map.fill" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="browse"
+        options={{
+          title: 'Browse',
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="list.bullet" color={color} />,
+        }}
+      />
+      <Tabs.Screen
+        name="walks"
+        options={{
+          title: 'Walks',
+          tabBarIcon: ({ color }) => <IconSymbol size={28} name="figure.walk" color={color} />,
+        }}
+      />
+    </Tabs>
+  );
 }
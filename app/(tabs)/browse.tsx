@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Collapsible } from '@/components/Collapsible';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { getZoneStyle } from '@/constants/ZoneStyles';
+import { useZoneData } from '@/hooks/useZoneData';
+import { ProcessedZone } from '@/types';
+import { formatArea } from '@/utils/zoneFormat';
+import { getZoneNeighbourhoods } from '@/utils/zoneFilter';
+import { groupZonesByNeighbourhood } from '@/utils/zoneGroups';
+
+const countLabel = (count: number) => `${count} ${count === 1 ? 'zone' : 'zones'}`;
+const offLeashLabel = (area: number) => (area > 0 ? `, ${formatArea(area)} off-leash` : '');
+
+function ZoneRow({ zone, onPress }: { zone: ProcessedZone; onPress: () => void }) {
+  // Merged zones may reach into other neighbourhoods; name them so they can be found
+  const otherNeighbourhoods = getZoneNeighbourhoods(zone).filter(name => name !== zone.properties.WIJKNAAM);
+  return (
+    <TouchableOpacity style={styles.zoneRow} onPress={onPress}>
+      <View style={[styles.swatch, { backgroundColor: getZoneStyle(zone).fillColor }]} />
+      <ThemedText style={styles.zoneText} numberOfLines={1}>
+        {zone.properties.CODE}
+        {zone.area != null ? ` - ${formatArea(zone.area)}` : ' - point'}
+        {zone.memberIds ? ` (${zone.memberIds.length} areas)` : ''}
+        {otherNeighbourhoods.length > 0 ? `, also ${otherNeighbourhoods.join(', ')}` : ''}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Every zone where dogs are allowed, grouped by neighbourhood and area team.
+ * Tapping a zone selects it on the map.
+ */
+export default function BrowseScreen() {
+  const { zones, loading } = useZoneData();
+  const groups = useMemo(() => groupZonesByNeighbourhood(zones), [zones]);
+  const totalOffLeashArea = useMemo(() => groups.reduce((sum, group) => sum + group.offLeashArea, 0), [groups]);
+
+  const focusOnMap = (zone: ProcessedZone) => {
+    console.log(`[Browse] Focusing zone ${zone.id} on the map.`);
+    router.navigate({ pathname: '/', params: { focus: zone.sourceId } });
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <ThemedView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <ThemedText type="title">Browse zones</ThemedText>
+          {loading ? (
+            <ActivityIndicator style={styles.loading} size="large" />
+          ) : (
+            <>
+              <ThemedText style={styles.summary}>
+                {countLabel(zones.length)} in {groups.length} neighbourhoods{offLeashLabel(totalOffLeashArea)}
+              </ThemedText>
+              {groups.map(group => (
+                <Collapsible
+                  key={group.neighbourhood}
+                  title={`${group.neighbourhood} (${countLabel(group.zoneCount)}${offLeashLabel(group.offLeashArea)})`}
+                >
+                  {group.teams.map(teamGroup => (
+                    <View key={teamGroup.team} style={styles.team}>
+                      <ThemedText type="defaultSemiBold">
+                        {teamGroup.team} ({countLabel(teamGroup.zones.length)}{offLeashLabel(teamGroup.offLeashArea)})
+                      </ThemedText>
+                      {teamGroup.zones.map(zone => (
+                        <ZoneRow key={zone.id} zone={zone} onPress={() => focusOnMap(zone)} />
+                      ))}
+                    </View>
+                  ))}
+                </Collapsible>
+              ))}
+            </>
+          )}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 10,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  summary: {
+    marginBottom: 4,
+  },
+  team: {
+    marginBottom: 8,
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 4,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#555',
+  },
+  zoneText: {
+    flex: 1,
+  },
+});
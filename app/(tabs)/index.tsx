@@ -1,129 +1,180 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { StyleSheet, View, ActivityIndicator, Text, Alert, Linking, TouchableOpacity, Button, Platform } from 'react-native';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { StyleSheet, View, ActivityIndicator, Text, Alert, Linking, TouchableOpacity, Button, Platform, Switch } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
 import * as Location from 'expo-location';
-// Import turf functions
-import * as turf from '@turf/turf'; 
+import { router, useLocalSearchParams } from 'expo-router';
 // Use original type imports, rely on casting/wrapping for turf
-import { GeoJsonData, Geometry, ZoneStyles, ZoneStyle, ProcessedZone, FeatureProperties } from '@/types'; // Ensure FeatureProperties is imported if needed
+import { ProcessedZone, FeatureProperties } from '@/types'; // Ensure FeatureProperties is imported if needed
 import MapDisplay from '@/components/MapDisplay';
-// Use the filtered data file (smaller, only GROEN and ORANJE features)
-import localDogZonesData from '@/assets/data/amersfoort-hondenkaart-filtered.json';
+import ZoneFilterPanel from '@/components/ZoneFilterPanel';
+import { getZoneStyle, zoneStyles } from '@/constants/ZoneStyles';
+import { useFavourites } from '@/hooks/useFavourites';
+import { useLocationWatch } from '@/hooks/useLocationWatch';
+import { useNearestZones } from '@/hooks/useNearestZones';
+import { useOverlays } from '@/hooks/useOverlays';
+import { useWalks } from '@/hooks/useWalks';
+import { useZoneData } from '@/hooks/useZoneData';
+import { EXPORT_MIME_TYPES, getExportFileName, toExportedZone, toGeoJson, toKml } from '@/utils/exportFormats';
+import { getFavouriteZones } from '@/utils/favourites';
+import { shouldResumeRecording, toMapTrack } from '@/utils/walks';
+import { GeofenceEvent, getGeofenceMessage, updateGeofences } from '@/utils/geofence';
+import { createDistanceService } from '@/utils/distanceService';
+import { getDistanceToZone } from '@/utils/geometry';
+import { getNavigationProviders, getNavigationRequest, NavigationProvider } from '@/utils/navigation';
+import { shareFile } from '@/utils/shareFile';
+import { createZoneIndex } from '@/utils/spatialIndex';
+import { formatBoundaryDistance } from '@/utils/zoneFormat';
+import { getZoneRuleDescription, getZoneStatusAt, isForbiddenZone, ZONE_STATUS_BY_CODE, ZONE_STATUS_LABELS, ZoneStatus } from '@/utils/zoneStatus';
+import {
+  EMPTY_ZONE_FILTER,
+  filterZones,
+  getZoneFilterOptions,
+  isZoneFilterActive,
+  matchesZoneFilter,
+  sortZones,
+  ZoneFilter,
+  ZoneSortOrder,
+} from '@/utils/zoneFilter';
+import { findZoneBySourceId } from '@/utils/zones';
 
 // --- Constants ---
-const MERGE_DISTANCE_METERS = 100; // Max distance for merging areas
 const MAX_NEAREST = 5;
-const DEFAULT_ZONE_ID_PREFIX = "zone_"; // Prefix for original zone IDs
-const MERGED_ZONE_ID_PREFIX = "merged_"; // Prefix for merged zone IDs
+
+// Apps offered for walking routes on this platform
+const NAVIGATION_PROVIDERS = getNavigationProviders(Platform.OS);
+
+// Distances from the user to zones, kept outside React state so reading them never re-renders
+const zoneDistances = createDistanceService();
 
 // Read API key from environment variables (outside the component)
 const GOOGLE_MAPS_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY;
 
-// --- Helper Functions ---
-/**
- * Calculates the distance between two lat/lng coordinates in kilometers using Haversine formula.
- */
-function getDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Radius of the Earth in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a =
-        0.5 - Math.cos(dLat) / 2 +
-        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-        (1 - Math.cos(dLon)) / 2;
-    return R * 2 * Math.asin(Math.sqrt(a));
-}
-
-/**
- * Gets a representative coordinate {lat, lng} for distance calculation.
- */
-function getCentroid(geometry: Geometry): { lat: number; lng: number } | null {
-    if (!geometry || !geometry.coordinates) return null;
-    const coords = geometry.coordinates;
-    const geomType = geometry.type;
-    try {
-        if (geomType === "Polygon" && coords && coords[0] && coords[0][0]) {
-            return { lat: coords[0][0][1], lng: coords[0][0][0] };
-        } else if (geomType === "MultiPolygon" && coords && coords[0] && coords[0][0] && coords[0][0][0]) {
-            return { lat: coords[0][0][0][1], lng: coords[0][0][0][0] };
-        }
-    } catch (error) {
-        console.error("Error calculating centroid:", error);
-        return null; 
-    }
-    return null;
-}
+// Banner colours for the "Am I allowed here?" status
+const statusBannerColors: { [status in ZoneStatus]: string } = {
+  'off-leash': '#d0f0d0',
+  leash: '#ffe4b5',
+  forbidden: '#f8d0d0',
+  none: '#e8e8e8',
+};
 
-// Styles - keep both Green/Orange, names can be generic
-const zoneStyles: ZoneStyles = {
-  GROEN: { 
-    fillColor: 'rgba(0, 255, 0, 0.3)', // Polygon fill
-    strokeColor: 'rgba(0, 255, 0, 0.8)',
-    strokeWidth: 1,
-    name: 'Off-leash Zone (Green)' // Generic name
-  },
-  ORANJE: { 
-    fillColor: 'rgba(255, 165, 0, 0.3)', // Polygon fill
-    strokeColor: 'rgba(255, 165, 0, 0.8)',
-    strokeWidth: 1,
-    name: 'Off-leash Zone (Orange)' // Generic name
-  },
-  DEFAULT: { // Minimal fallback
-    fillColor: 'transparent',
-    strokeColor: 'transparent',
-    strokeWidth: 0,
-    name: ''
-  },
-  // Remove or keep dummy entries based on strictness of ZoneStyles type
-  ROOD: { fillColor: '', strokeColor: '', strokeWidth: 0, name: '' }, 
-  WIT: { fillColor: '', strokeColor: '', strokeWidth: 0, name: '' },
+const GEOFENCE_BANNER_MS = 6000;
+
+/** Haptic feedback for a zone border crossed in walk mode: strongest when entering a no-dogs zone. */
+const playGeofenceHaptic = (event: GeofenceEvent) => {
+  if (Platform.OS === 'web') return;
+  const status = ZONE_STATUS_BY_CODE[event.zone.properties.CODE];
+  const feedback = event.type === 'leave'
+    ? Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
+    : Haptics.notificationAsync(
+        status === 'forbidden' ? Haptics.NotificationFeedbackType.Error
+          : status === 'off-leash' ? Haptics.NotificationFeedbackType.Success
+          : Haptics.NotificationFeedbackType.Warning
+      );
+  feedback.catch(error => console.warn('[Geofence] Haptics failed:', error));
 };
 
+/** Date of a dataset version for display, e.g. "16 May 2023". */
+const formatDataDate = (isoDate: string): string =>
+  new Date(isoDate).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
 export default function HomeScreen() {
-  // State uses ProcessedZone
-  const [processedZones, setProcessedZones] = useState<ProcessedZone[]>([]); 
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Processed zones; dogs-forbidden (ROOD, WATERSPEELPLEK) zones are kept apart: they are never merged or listed as nearest
+  const {
+    dataset,
+    datasetChoice,
+    locateDataset,
+    zones: datasetZones,
+    forbiddenZones: datasetForbiddenZones,
+    version: zoneDataVersion,
+    loading,
+    error: zoneDataError,
+    retry: retryZoneData,
+    updating: updatingZoneData,
+    update: refreshZoneData,
+  } = useZoneData();
+  const { layers: overlayLayers, zones: overlayZones, forbiddenZones: overlayForbiddenZones, setLayerVisible } = useOverlays();
+  // Zones of the visible overlay layers are treated like those of the dataset from here on
+  const processedZones = useMemo(() => [...datasetZones, ...overlayZones], [datasetZones, overlayZones]);
+  const forbiddenZones = useMemo(() => [...datasetForbiddenZones, ...overlayForbiddenZones], [datasetForbiddenZones, overlayForbiddenZones]);
+  const { favouriteIds, isFavourite, toggleFavourite } = useFavourites();
+  const { walks, recording, startRecording, recordLocation, stopRecording } = useWalks();
+  const [shownWalkId, setShownWalkId] = useState<string | null>(null);
+  const [showForbiddenZones, setShowForbiddenZones] = useState(true);
   const [locationStatus, setLocationStatus] = useState<string>('Initializing...');
   const [userLocation, setUserLocation] = useState<Location.LocationObject | null>(null);
-  const [nearestZones, setNearestZones] = useState<ProcessedZone[]>([]);
   const [selectedZone, setSelectedZone] = useState<ProcessedZone | null>(null);
   const [centerTargetCoords, setCenterTargetCoords] = useState<{ lat: number, lng: number } | null>(null);
+  const [choosingRoute, setChoosingRoute] = useState(false); // The prompt lists the navigation apps
+  const [walkMode, setWalkMode] = useState(false);
+  const [geofenceEvent, setGeofenceEvent] = useState<GeofenceEvent | null>(null);
+  // Zones the user was inside at the last fix in walk mode; null until the first fix
+  const geofenceInsideIdsRef = useRef<string[] | null>(null);
+  const [showFilterPanel, setShowFilterPanel] = useState(false);
+  const [zoneFilter, setZoneFilter] = useState<ZoneFilter>(EMPTY_ZONE_FILTER);
+  const [zoneSortOrder, setZoneSortOrder] = useState<ZoneSortOrder>('distance');
 
-  // Cache for zone distances to avoid redundant calculations
-  const [distanceCache, setDistanceCache] = useState<Map<string, number>>(new Map());
-  
-  // Function to get or calculate distance - use cached value if available
-  const getOrCalculateDistance = useCallback((zoneId: string, lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const cacheKey = `${zoneId}_${lat1.toFixed(6)}_${lon1.toFixed(6)}`;
-    
-    if (distanceCache.has(cacheKey)) {
-      return distanceCache.get(cacheKey)!;
-    }
-    
-    // Calculate new distance
-    const distance = getDistance(lat1, lon1, lat2, lon2);
-    
-    // Update cache
-    setDistanceCache(prevCache => {
-      const newCache = new Map(prevCache);
-      newCache.set(cacheKey, distance);
-      return newCache;
+  // --- Memo Hooks ---
+  // The maps open on the first dataset shown; later ones are centred on below
+  const [initialRegion] = useState(dataset.region);
+
+  // The location as the maps take it
+  const mapUserLocation = useMemo(
+    () => userLocation ? { lat: userLocation.coords.latitude, lng: userLocation.coords.longitude, accuracy: userLocation.coords.accuracy } : null,
+    [userLocation]
+  );
+
+  // Zones matching the filter panel - the maps and the nearest list only show these
+  const filteredZones = useMemo(() => filterZones(processedZones, zoneFilter), [processedZones, zoneFilter]);
+  const filteredForbiddenZones = useMemo(() => filterZones(forbiddenZones, zoneFilter), [forbiddenZones, zoneFilter]);
+  const filteredZoneIds = useMemo(() => new Set(filteredZones.map(zone => zone.id)), [filteredZones]);
+  const zoneFilterOptions = useMemo(
+    () => getZoneFilterOptions([...processedZones, ...forbiddenZones]),
+    [processedZones, forbiddenZones]
+  );
+
+  // Forbidden layer passed to the map - an empty list hides it
+  const visibleForbiddenZones = useMemo(
+    () => (showForbiddenZones ? filteredForbiddenZones : []),
+    [showForbiddenZones, filteredForbiddenZones]
+  );
+
+  // Favourite zones with the live walk to their edge; listed even when the filter hides them
+  const favouriteZones = useMemo(() => {
+    const zones = getFavouriteZones(processedZones, favouriteIds);
+    if (!userLocation) return zones;
+    const { latitude, longitude } = userLocation.coords;
+    return zones.map(zone => ({
+      ...zone,
+      boundaryDistance: getDistanceToZone(latitude, longitude, zone.geometry) ?? undefined,
+    }));
+  }, [processedZones, favouriteIds, userLocation]);
+  const favouriteZoneIds = useMemo(() => new Set(favouriteZones.map(zone => zone.id)), [favouriteZones]);
+
+  // Filter panel results with the distance to their edge, only worked out while the panel is open
+  const zoneFilterResults = useMemo(() => {
+    if (!showFilterPanel) return [];
+    const zones = [...filteredZones, ...visibleForbiddenZones].map(zone => {
+      if (!userLocation) return zone;
+      const boundaryDistance = getDistanceToZone(userLocation.coords.latitude, userLocation.coords.longitude, zone.geometry);
+      return { ...zone, boundaryDistance: boundaryDistance ?? undefined };
     });
-    
-    return distance;
-  }, [distanceCache]);
+    return sortZones(zones, zoneSortOrder, zone => zone.boundaryDistance);
+  }, [showFilterPanel, filteredZones, visibleForbiddenZones, userLocation, zoneSortOrder]);
 
-  // --- Memo Hooks ---
-  const amersfoortRegion = useMemo(() => ({
-    latitude: 52.1561,
-    longitude: 5.3878,
-    latitudeDelta: 0.0922, // Zoom level for Amersfoort
-    longitudeDelta: 0.0421,
-  }), []);
+  // Spatial index of every zone, built when the zones load, for the location queries below
+  const zoneIndex = useMemo(() => createZoneIndex([...processedZones, ...forbiddenZones]), [processedZones, forbiddenZones]);
 
-  const initialWebCenter = useMemo(() => ({ lat: amersfoortRegion.latitude, lng: amersfoortRegion.longitude }), [amersfoortRegion]);
-  const initialWebZoom = 13;
+  // "Am I allowed here?" - tested against every zone containing the location, even while the forbidden layer is hidden
+  const currentZoneStatus = useMemo(() => {
+    if (!userLocation) return null;
+    const { latitude, longitude } = userLocation.coords;
+    return getZoneStatusAt(latitude, longitude, zoneIndex.containing(latitude, longitude));
+  }, [userLocation, zoneIndex]);
+
+  // Nearest zones matching the filter; forbidden zones are never listed
+  const includeInNearest = useCallback((zone: ProcessedZone) => filteredZoneIds.has(zone.id), [filteredZoneIds]);
+  const nearestZones = useNearestZones(mapUserLocation, zoneIndex, zoneDistances, MAX_NEAREST, includeInNearest);
 
   // --- Location Fetching Function ---
   const refreshUserLocation = async (isInitialLoad = false) => {
@@ -136,7 +187,6 @@ export default function HomeScreen() {
     } else {
         setLocationStatus('Requesting...');
     }
-    setError(null); // Clear location-related errors
 
     try {
       let { status } = await Location.requestForegroundPermissionsAsync();
@@ -162,248 +212,180 @@ export default function HomeScreen() {
     }
   };
 
-  // --- Effect Hooks ---
-  // Effect for initialization and processing data
+  // --- Walk Mode - Follows the location continuously and reports zone borders crossed ---
+  useLocationWatch(
+    walkMode,
+    location => {
+      setUserLocation(location);
+      setLocationStatus('Granted');
+      recordLocation(location);
+    },
+    message => {
+      setLocationStatus(message);
+      setWalkMode(false);
+      stopRecording(zoneIndex);
+    }
+  );
+
   useEffect(() => {
-    let isMounted = true;
-    const initializeApp = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        setLocationStatus('Requesting...');
+    if (!walkMode) {
+      geofenceInsideIdsRef.current = null;
+      return;
+    }
+    if (!userLocation) return;
+    const { insideIds, events } = updateGeofences(
+      geofenceInsideIdsRef.current,
+      userLocation.coords.latitude,
+      userLocation.coords.longitude,
+      zoneIndex
+    );
+    geofenceInsideIdsRef.current = insideIds;
+    if (events.length === 0) return;
 
-        // 1. Initial Processing into Raw Zones (Areas & Points)
-        const initialAreaZones: ProcessedZone[] = [];
-        const initialPointZones: ProcessedZone[] = [];
-        
-        if (localDogZonesData?.features) {
-          const features = (localDogZonesData as GeoJsonData).features;
-
-          for (let i = 0; i < features.length; i++) {
-            const feature = features[i];
-            const properties = feature.properties;
-            const code = properties?.CODE;
-
-            if ((code === "GROEN" || code === "ORANJE") && feature.geometry) {
-              const tempId = `${DEFAULT_ZONE_ID_PREFIX}${i}`;
-              let area: number | undefined = undefined;
-              
-              if (properties.OPPERVLAKTE) {
-                try {
-                  const parsedArea = parseFloat(properties.OPPERVLAKTE);
-                  if (!isNaN(parsedArea) && parsedArea > 0) {
-                    area = parsedArea;
-                  }
-                } catch { /* ignore parse error */ }
-              }
-              
-              const centroid = getCentroid(feature.geometry);
-              if (!centroid) continue; // Skip if no valid centroid
-
-              const baseZoneData: Partial<ProcessedZone> = {
-                type: 'Feature',
-                id: tempId,
-                properties: properties,
-                geometry: feature.geometry,
-                geometry_name: feature.geometry_name,
-                centroid: centroid
-              };
-
-              if (area !== undefined) {
-                initialAreaZones.push({...baseZoneData, zoneType: 'area', area: area} as ProcessedZone);
-              } else {
-                initialPointZones.push({...baseZoneData, zoneType: 'point'} as ProcessedZone);
-              }
-            }
-          }
-        }
-
-        console.log(`[Init] Initial processing: ${initialAreaZones.length} area zones, ${initialPointZones.length} point zones.`);
-
-        // 2. Merge Nearby Areas (separately for GROEN and ORANJE)
-        const mergeAreas = (areas: ProcessedZone[], codeToMerge: 'GROEN' | 'ORANJE'): ProcessedZone[] => {
-          const areasToMerge = areas.filter(z => z.properties.CODE === codeToMerge);
-          console.log(`[Merge] Starting merge for ${codeToMerge} areas. Count: ${areasToMerge.length}`);
-          
-          if (areasToMerge.length < 2) {
-            return areasToMerge; // Not enough to merge
-          }
-
-          const mergedResult: ProcessedZone[] = [];
-          const processedIndices = new Set<number>();
-
-          // For each unprocessed area
-          for (let i = 0; i < areasToMerge.length; i++) {
-            if (processedIndices.has(i)) continue; // Skip if already processed
-
-            // Start a new group with this area
-            const currentAreaIndices = [i];
-            let currentMergedArea = {...areasToMerge[i]};
-            let currentMergedGeometry = currentMergedArea.geometry;
-            
-            // Mark as processed
-            processedIndices.add(i);
-
-            // Look for nearby areas to merge
-            for (let j = i + 1; j < areasToMerge.length; j++) {
-              if (processedIndices.has(j)) continue; // Skip if already processed
-
-              try {
-                // Create feature objects with explicit type assertions
-                const geometry1 = {
-                  type: currentMergedGeometry.type === 'Polygon' ? 'Polygon' as const : 'MultiPolygon' as const,
-                  coordinates: currentMergedGeometry.coordinates
-                };
-                
-                const geometry2 = {
-                  type: areasToMerge[j].geometry.type === 'Polygon' ? 'Polygon' as const : 'MultiPolygon' as const,
-                  coordinates: areasToMerge[j].geometry.coordinates
-                };
-                
-                // Wrap in features
-                const feature1 = turf.feature(geometry1);
-                const feature2 = turf.feature(geometry2);
-
-                // Create buffers around the features
-                const buffer1 = turf.buffer(feature1, MERGE_DISTANCE_METERS / 2000); // meters to km
-                const buffer2 = turf.buffer(feature2, MERGE_DISTANCE_METERS / 2000); // meters to km
-
-                // Check for proximity
-                if (buffer1 && buffer2 && turf.booleanIntersects(buffer1, buffer2)) {
-                  // Areas are close enough to merge
-                  currentAreaIndices.push(j);
-                  processedIndices.add(j);
-                  
-                  // Sum the areas
-                  currentMergedArea.area = (currentMergedArea.area || 0) + (areasToMerge[j].area || 0);
-                  
-                  // For now, skip the union and just keep the original geometry
-                  // Union is causing type issues and needs more complex handling
-                }
-              } catch (error) {
-                console.warn("Error processing geometries:", error);
-                // Skip this comparison
-              }
-            }
-            
-            // After checking all other areas against the current one
-            if (currentAreaIndices.length > 1) {
-              // This area was merged with at least one other area
-              console.log(`[Merge] Merged ${currentAreaIndices.length} areas of type ${codeToMerge}`);
-              
-              // Calculate centroid for the merged geometry
-              const centroid = getCentroid(currentMergedGeometry);
-              if (centroid) {
-                // Create a new ProcessedZone for the merged area
-                mergedResult.push({
-                  ...currentMergedArea,
-                  id: `${MERGED_ZONE_ID_PREFIX}${codeToMerge}_${i}`,
-                  geometry: currentMergedGeometry,
-                  centroid: centroid
-                });
-              } else {
-                // Fallback: just use the centroid of the first area
-                mergedResult.push({
-                  ...currentMergedArea,
-                  id: `${MERGED_ZONE_ID_PREFIX}${codeToMerge}_${i}`
-                });
-              }
-            } else {
-              // This area wasn't merged with any other, add it as is
-              mergedResult.push(currentMergedArea);
-            }
-          }
-
-          return mergedResult;
-        };
-
-        // Merge areas by type
-        const mergedGreenAreas = mergeAreas([...initialAreaZones], 'GROEN');
-        const mergedOrangeAreas = mergeAreas([...initialAreaZones], 'ORANJE');
-        
-        // Combine the results
-        const allProcessedZones = [
-          ...mergedGreenAreas,
-          ...mergedOrangeAreas,
-          ...initialPointZones
-        ];
-        
-        if (isMounted) {
-          setProcessedZones(allProcessedZones);
-          console.log(`[Init] Final zones count: ${allProcessedZones.length}`);
-        }
-
-        // Initial Location Fetch
-        await refreshUserLocation(true);
-
-      } catch (e) {
-        console.error("Failed to initialize app:", e);
-        if (isMounted) {
-          setError(e instanceof Error ? e.message : "Unknown error occurred");
-        }
-      } finally {
-        if (isMounted) setLoading(false);
-      }
-    };
+    console.log(`[Geofence] ${events.map(event => `${event.type} ${event.zone.id}`).join(', ')}`);
+    playGeofenceHaptic(events[0]);
+    setGeofenceEvent(events[0]);
+  }, [walkMode, userLocation, zoneIndex]);
 
-    initializeApp();
-    return () => { isMounted = false; };
+  // The event banner covers the status banner for a few seconds
+  useEffect(() => {
+    if (!geofenceEvent) return;
+    const timeout = setTimeout(() => setGeofenceEvent(null), GEOFENCE_BANNER_MS);
+    return () => clearTimeout(timeout);
+  }, [geofenceEvent]);
+
+  // Walk mode records the walk; stopping it saves the track
+  const toggleWalkMode = () => {
+    console.log(`[Location] Walk mode ${walkMode ? 'off' : 'on'}.`);
+    if (walkMode) {
+      stopRecording(zoneIndex);
+    } else {
+      startRecording();
+    }
+    setWalkMode(!walkMode);
+    setGeofenceEvent(null);
+  };
+
+  // A recording without walk mode was restored after the app was closed mid-walk:
+  // recent ones go on, older ones are saved as they were once the zones have loaded
+  useEffect(() => {
+    if (!recording || walkMode || loading) return;
+    if (shouldResumeRecording(recording, Date.now())) {
+      console.log('[Walks] Resuming the restored recording.');
+      setWalkMode(true);
+    } else {
+      stopRecording(zoneIndex);
+    }
+  }, [recording, walkMode, loading, zoneIndex, stopRecording]);
+
+  // --- Walk Tracks - The walk being recorded and one picked on the Walks tab (?walk=<id>) ---
+  const { walk: walkParam } = useLocalSearchParams<{ walk?: string }>();
+  useEffect(() => {
+    if (!walkParam) return;
+    const walk = walks.find(candidate => candidate.id === walkParam);
+    console.log(`[Walks] Showing walk ${walkParam}: ${walk ? `${walk.points.length} points` : 'not found'}.`);
+    if (walk) {
+      setShownWalkId(walk.id);
+      setCenterTargetCoords({ lat: walk.points[0].lat, lng: walk.points[0].lng });
+    }
+    router.setParams({ walk: undefined });
+  }, [walkParam, walks]);
+
+  const tracks = useMemo(() => {
+    const shownWalk = walks.find(walk => walk.id === shownWalkId);
+    return [recording, shownWalk]
+      .filter((walk): walk is NonNullable<typeof walk> => !!walk)
+      .map(toMapTrack);
+  }, [recording, walks, shownWalkId]);
+
+  // Opens the detail screen; the source ID keeps the link valid across data updates
+  const showZoneDetails = (zone: ProcessedZone) => {
+    router.push({ pathname: '/zone/[id]', params: { id: zone.sourceId } });
+  };
+
+  // --- Zone Data Update Function - Downloads the latest dataset on demand ---
+  const updateZoneData = async () => {
+    console.log("[ZoneData] Update triggered.");
+    try {
+      await refreshZoneData();
+      // Zone shapes may have changed, so drop the selection and the distances computed for them
+      setSelectedZone(null);
+      zoneDistances.clear();
+    } catch (updateError) {
+      console.error("[ZoneData] Update failed:", updateError);
+      Alert.alert(
+        "Update Failed",
+        `Could not update the zone data, the current data is kept. ${updateError instanceof Error ? updateError.message : ''}`
+      );
+    }
+  };
+
+  // --- Effect Hooks ---
+  // Initial location fetch; the zone data loads in useZoneData
+  useEffect(() => {
+    refreshUserLocation(true);
   }, []);
 
-  // Effect to calculate ONLY nearest zones when user location changes
+  // Shows the dataset covering the user's location, unless one was picked from the dataset list
   useEffect(() => {
-    if (!userLocation || processedZones.length === 0) return;
-    
-    console.log("[Nearest] Calculating distances for nearest zones only...");
-    
-    // First pass: calculate approximate distances for all zones to find nearest candidates
-    const candidatesWithDistance = processedZones.map(zone => ({
-      ...zone,
-      approxDistance: getOrCalculateDistance(
-        zone.id,
-        userLocation.coords.latitude,
-        userLocation.coords.longitude,
-        zone.centroid.lat,
-        zone.centroid.lng
-      )
-    }));
-    
-    // Sort by approximate distance
-    candidatesWithDistance.sort((a, b) => a.approxDistance! - b.approxDistance!);
-    
-    // Take top candidates and create proper zone objects with distance
-    const nearestCandidates = candidatesWithDistance.slice(0, MAX_NEAREST).map(zone => ({
-      ...zone,
-      distance: zone.approxDistance
-    }));
-    
-    setNearestZones(nearestCandidates);
-  }, [userLocation, distanceCache, getOrCalculateDistance, processedZones]); // Include dependencies used inside
+    if (userLocation) locateDataset(userLocation.coords.latitude, userLocation.coords.longitude);
+  }, [userLocation, locateDataset]);
+
+  // Another dataset is another city: drop the selection and, when picked by hand, move the map there
+  const shownDatasetIdRef = useRef(dataset.id);
+  useEffect(() => {
+    if (shownDatasetIdRef.current === dataset.id) return;
+    shownDatasetIdRef.current = dataset.id;
+    setSelectedZone(null);
+    zoneDistances.clear();
+    if (datasetChoice !== null) {
+      setCenterTargetCoords({ lat: dataset.region.latitude, lng: dataset.region.longitude });
+    }
+  }, [dataset, datasetChoice]);
 
-  // Effect to update selected zone distance ONLY when necessary
+  // Effect to update selected zone distance ONLY when it changed
   useEffect(() => {
     if (!selectedZone || !userLocation) return;
+    const { distance, boundaryDistance } = zoneDistances.measure(selectedZone, userLocation.coords.latitude, userLocation.coords.longitude);
+    if (selectedZone.distance !== distance || selectedZone.boundaryDistance !== boundaryDistance) {
+      setSelectedZone(prevZone => prevZone ? ({ ...prevZone, distance, boundaryDistance }) : null);
+    }
+  }, [selectedZone, userLocation]);
+
+  // --- Log selection & Set Center Target ---
+  const handleZoneSelection = (zone: ProcessedZone | null, fromList: boolean = false) => {
+    console.log(`[Selection] Zone selected via ${zone ? (fromList ? 'list' : 'map') : 'cleared'}. ID: ${zone?.id}`);
     
-    // If selected zone is already in nearest zones, it already has a distance
-    const isInNearest = nearestZones.some(zone => zone.id === selectedZone.id);
+    // If zone is selected and user location exists, ensure it has a distance
+    if (zone && userLocation && (zone.distance === undefined || zone.boundaryDistance === undefined)) {
+      zone = { ...zone, ...zoneDistances.measure(zone, userLocation.coords.latitude, userLocation.coords.longitude) };
+    }
     
-    // Only recalculate if not in nearest (lazy calculation)
-    if (!isInNearest || selectedZone.distance === undefined) {
-      console.log("[Selected] Lazy distance calculation for selected zone...");
-      const distance = getOrCalculateDistance(
-        selectedZone.id,
-        userLocation.coords.latitude,
-        userLocation.coords.longitude,
-        selectedZone.centroid.lat,
-        selectedZone.centroid.lng
-      );
-      
-      // Update only if distance changed or wasn't defined
-      if (selectedZone.distance === undefined || selectedZone.distance !== distance) {
-        setSelectedZone(prevZone => prevZone ? ({ ...prevZone, distance }) : null);
-      }
+    setSelectedZone(zone);
+    setChoosingRoute(false);
+    
+    // Set center target ONLY if selected from the list
+    if (zone && fromList && zone.centroid) {
+      console.log("[Center] Setting center target from list selection:", zone.centroid);
+      setCenterTargetCoords(zone.centroid);
     }
-  }, [selectedZone, userLocation, nearestZones, getOrCalculateDistance]); // Include all dependencies
+  };
+
+  // --- Focus Request - Selects and centers a zone picked on the Browse tab (?focus=<source ID>) ---
+  const { focus } = useLocalSearchParams<{ focus?: string }>();
+  useEffect(() => {
+    if (!focus || loading) return;
+    const zone = findZoneBySourceId(processedZones, focus);
+    console.log(`[Selection] Focus requested for ${focus}: ${zone ? zone.id : 'not found'}.`);
+    if (zone) focusZone(zone);
+    router.setParams({ focus: undefined }); // So picking the same zone again focuses it again
+  }, [focus, loading, processedZones]);
+
+  // Selects and centers a zone, clearing the filter if it hides the zone
+  const focusZone = (zone: ProcessedZone) => {
+    if (!matchesZoneFilter(zone, zoneFilter)) setZoneFilter(EMPTY_ZONE_FILTER);
+    handleZoneSelection(zone, true);
+  };
 
   // --- Early Returns (AFTER all hooks) ---
   if (loading) {
@@ -414,145 +396,53 @@ export default function HomeScreen() {
       </View>
     );
   }
-  if (error) {
-    return (
-      <View style={styles.centeredView}>
-        <Text>Error: {error}</Text>
-      </View>
-    );
-  }
 
   // --- Component Logic & Render (AFTER hooks and early returns) ---
-  const getFeatureStyle = (feature: ProcessedZone): ZoneStyle => {
-     const code = feature.properties?.CODE;
-     if (code === 'GROEN') return zoneStyles.GROEN;
-     if (code === 'ORANJE') return zoneStyles.ORANJE;
-     return zoneStyles.DEFAULT; // Fallback
-  };
 
-  /**
-   * Formats geometry coordinates for map display.
-   * More robust handling of Polygon and MultiPolygon types.
-   */
-  const formatCoordinates = (geometry: Geometry): { latitude: number; longitude: number }[] => {
-    if (!geometry?.coordinates) return [];
-    const coords: any = geometry.coordinates;
-
-    if (geometry.type === 'Polygon') {
-      // Handle Polygon - use the outer ring (first array of coordinates)
-      // Check if coords[0] exists and has elements
-      if (Array.isArray(coords[0])) {
-        return coords[0]
-          .map((coord: number[]) => {
-            if (Array.isArray(coord) && coord.length >= 2) {
-              return { latitude: coord[1], longitude: coord[0] };
-            }
-            return null;
-          })
-          .filter((coord): coord is { latitude: number; longitude: number } => coord !== null); // Type guard
-      }
-    } else if (geometry.type === 'MultiPolygon') {
-      // Handle MultiPolygon - flatten all polygon outer rings into one array
-      const flattenedCoords: { latitude: number; longitude: number }[] = [];
-      
-      // Iterate through all polygons in the MultiPolygon
-      if (Array.isArray(coords)) {
-        coords.forEach((polygon: any) => {
-          // Get the outer ring of each polygon (first array of coordinates)
-          if (Array.isArray(polygon) && Array.isArray(polygon[0])) {
-            polygon[0].forEach((coord: number[]) => {
-              if (Array.isArray(coord) && coord.length >= 2) {
-                flattenedCoords.push({ latitude: coord[1], longitude: coord[0] });
-              }
-            });
-          }
-        });
-      }
-      
-      return flattenedCoords;
+  // --- Forbidden Layer Toggle - Clears a ROOD selection when the layer is hidden ---
+  const toggleForbiddenZones = (visible: boolean) => {
+    console.log(`[Layers] Forbidden zones layer ${visible ? 'shown' : 'hidden'}.`);
+    setShowForbiddenZones(visible);
+    if (!visible && selectedZone && isForbiddenZone(selectedZone)) {
+      setSelectedZone(null);
     }
-    
-    return [];
   };
 
-  // --- Log selection & Set Center Target ---
-  const handleZoneSelection = (zone: ProcessedZone | null, fromList: boolean = false) => {
-    console.log(`[Selection] Zone selected via ${zone ? (fromList ? 'list' : 'map') : 'cleared'}. ID: ${zone?.id}`);
-    
-    // If zone is selected and user location exists, ensure it has a distance
-    if (zone && userLocation) {
-      // Check if distance is already calculated
-      if (zone.distance === undefined) {
-        // Lazy calculate distance only when needed
-        const distance = getOrCalculateDistance(
-          zone.id,
-          userLocation.coords.latitude,
-          userLocation.coords.longitude,
-          zone.centroid.lat,
-          zone.centroid.lng
-        );
-        zone = { ...zone, distance };
-      }
+  // --- Filter Change - Clears a selection the new filter hides ---
+  const changeZoneFilter = (filter: ZoneFilter) => {
+    setZoneFilter(filter);
+    if (selectedZone && !matchesZoneFilter(selectedZone, filter)) {
+      setSelectedZone(null);
     }
-    
-    setSelectedZone(zone);
-    
-    // Set center target ONLY if selected from the list
-    if (zone && fromList && zone.centroid) {
-      console.log("[Center] Setting center target from list selection:", zone.centroid);
-      setCenterTargetCoords(zone.centroid);
+  };
+
+  // --- Zone Export - The zones on the map (filtered, ROOD included when shown) for other GPS apps ---
+  const exportZones = async (format: 'geojson' | 'kml') => {
+    const zones = [...filteredZones, ...visibleForbiddenZones].map(toExportedZone);
+    console.log(`[Export] Exporting ${zones.length} zones as ${format}.`);
+    try {
+      await shareFile(
+        getExportFileName('dog-zones', format, new Date()),
+        format === 'kml' ? toKml(zones) : toGeoJson(zones),
+        EXPORT_MIME_TYPES[format]
+      );
+    } catch (exportError) {
+      console.error("[Export] Failed:", exportError);
+      Alert.alert("Export Failed", exportError instanceof Error ? exportError.message : String(exportError));
     }
   };
 
-  // --- Navigation Handler (keep simplified onPress for now) ---
-  const handleNavigationRequest = async (zone: ProcessedZone) => {
-      if (!zone.centroid) return;
-      const { lat, lng } = zone.centroid;
-      const url = `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`;
-      console.log("[Navigation] Generated URL:", url);
-
-      // --- Platform Specific Navigation Handling ---
-      if (Platform.OS === 'web') {
-         // On web, skip the Alert and open directly
-         console.log("[Navigation] Web platform detected. Attempting direct Linking.openURL...");
-         try {
-            // On web, canOpenURL might not be reliable for external links, try opening directly
-            await Linking.openURL(url);
-            console.log("[Navigation] Linking.openURL finished for web.");
-         } catch (error) {
-            console.error("[Navigation] Error during Linking on web:", error);
-            Alert.alert("Navigation Error", "Could not open the map link in a new tab.");
-         }
-      } else {
-         // On native (iOS/Android), use the confirmation Alert
-         Alert.alert(
-             "Start Navigation?",
-             `Do you want to navigate to the selected area?`, 
-             [
-                 { text: "Cancel", style: "cancel" },
-                 { 
-                     text: "OK", 
-                     onPress: async () => { 
-                         console.log("[Navigation] Native OK pressed. Checking URL support..."); 
-                         try {
-                             const supported = await Linking.canOpenURL(url);
-                             console.log("[Navigation] Linking.canOpenURL result:", supported); 
-                             if (supported) {
-                                 console.log("[Navigation] Attempting Linking.openURL...");
-                                 await Linking.openURL(url);
-                                 console.log("[Navigation] Linking.openURL finished."); 
-                             } else {
-                                 console.error(`[Navigation] Cannot open URL: ${url}`);
-                                 Alert.alert(`Cannot Open URL`, `Your device cannot open the required map link.`);
-                             }
-                         } catch (error) {
-                              console.error("[Navigation] Error during Linking:", error);
-                              Alert.alert("Navigation Error", "An error occurred while trying to open the map link.");
-                         }
-                     }
-                 }
-             ]
-         );
+  // --- Navigation - A walking route to the nearest point of the zone's outline, in the app the user picks ---
+  const openRoute = async (zone: ProcessedZone, provider: NavigationProvider) => {
+      const from = userLocation ? { lat: userLocation.coords.latitude, lng: userLocation.coords.longitude } : null;
+      const url = provider.buildUrl(getNavigationRequest(zone, from));
+      console.log(`[Navigation] Opening ${provider.name}:`, url);
+      setChoosingRoute(false);
+      try {
+         await Linking.openURL(url);
+      } catch (error) {
+         console.error("[Navigation] Could not open the route:", error);
+         Alert.alert("Navigation Error", `Could not open ${provider.name}. Is it installed?`);
       }
   };
 
@@ -567,34 +457,93 @@ export default function HomeScreen() {
   };
 
   return (
-    <SafeAreaView style={styles.container} edges={['bottom', 'left', 'right']}>
+    <SafeAreaView style={styles.container} edges={['left', 'right']}>
       <MapDisplay 
-        initialRegion={amersfoortRegion}
-        showsUserLocation={locationStatus === 'Granted'}
-        getFeatureStyle={getFeatureStyle}
-        formatCoordinates={formatCoordinates}
+        initialRegion={initialRegion}
+        getFeatureStyle={getZoneStyle}
         apiKey={GOOGLE_MAPS_API_KEY}
-        initialCenter={initialWebCenter}
-        initialZoom={initialWebZoom}
-        processedZones={processedZones}
-        zoneStyles={zoneStyles as ZoneStyles} 
-        userLocation={userLocation ? { lat: userLocation.coords.latitude, lng: userLocation.coords.longitude } : undefined}
+        processedZones={filteredZones}
+        forbiddenZones={visibleForbiddenZones}
+        userLocation={mapUserLocation}
         onZoneSelect={(zone: ProcessedZone) => handleZoneSelection(zone, false)}
-        selectedZoneId={selectedZone?.id}
+        selectedZoneId={selectedZone?.id ?? null}
+        favouriteZoneIds={favouriteZoneIds}
+        tracks={tracks}
         centerTargetCoords={centerTargetCoords}
       />
 
       {/* Controls Overlay (Refresh & Center) */}
       <View style={styles.controlsContainer}>
-         <Button title="Refresh Location" onPress={() => refreshUserLocation(false)} disabled={locationStatus === 'Fetching...' || locationStatus === 'Refreshing...'} />
+         <Button title="Refresh Location" onPress={() => refreshUserLocation(false)} disabled={walkMode || locationStatus === 'Fetching...' || locationStatus === 'Refreshing...'} />
+         <Button title={walkMode ? 'Stop Walk' : 'Walk'} onPress={toggleWalkMode} color={walkMode ? '#c00' : undefined} />
+         {shownWalkId && (
+             <Button title="Hide Track" onPress={() => setShownWalkId(null)} />
+         )}
          {userLocation && (
              <Button title="Center on Me" onPress={centerOnUser} />
          )}
+         <Button
+            title={showFilterPanel ? 'Hide Filter' : isZoneFilterActive(zoneFilter) ? 'Filter (on)' : 'Filter'}
+            onPress={() => setShowFilterPanel(visible => !visible)}
+         />
          {/* Display location status for debugging */}
          {/* <Text style={{fontSize: 10, textAlign: 'center'}}>Status: {locationStatus}</Text> */} 
       </View>
 
+      {/* Geofence Banner - A zone border was just crossed in walk mode; tap to dismiss */}
+      {geofenceEvent && (
+          <TouchableOpacity
+              style={[styles.statusBanner, styles.geofenceBanner, { backgroundColor: statusBannerColors[ZONE_STATUS_BY_CODE[geofenceEvent.zone.properties.CODE] ?? 'none'] }]}
+              onPress={() => setGeofenceEvent(null)}
+          >
+              <Text style={styles.statusText}>
+                  {getGeofenceMessage(geofenceEvent)}
+                  {geofenceEvent.zone.properties.WIJKNAAM ? ` (${geofenceEvent.zone.properties.WIJKNAAM})` : ''}
+              </Text>
+          </TouchableOpacity>
+      )}
+
+      {/* Zone Data Error Banner - The wanted dataset failed to load; the map keeps the one it had */}
+      {zoneDataError && !geofenceEvent && (
+          <View style={[styles.statusBanner, styles.errorBanner]}>
+              <Text style={styles.errorText}>{zoneDataError}</Text>
+              <View style={styles.errorActions}>
+                  <Button title="Retry" onPress={retryZoneData} />
+                  <Button title="Change Dataset" onPress={() => router.push('/datasets')} />
+              </View>
+          </View>
+      )}
+
+      {/* Zone Status Banner - What applies where the user is standing */}
+      {currentZoneStatus && !geofenceEvent && !zoneDataError && (
+          <View style={[styles.statusBanner, { backgroundColor: statusBannerColors[currentZoneStatus.status] }]}>
+              <Text style={styles.statusText}>
+                  {ZONE_STATUS_LABELS[currentZoneStatus.status]}
+                  {currentZoneStatus.zone?.properties.WIJKNAAM ? ` (${currentZoneStatus.zone.properties.WIJKNAAM})` : ''}
+              </Text>
+          </View>
+      )}
+
+      {/* Zone Search & Filter Panel - Takes the place of the legend while open */}
+      {showFilterPanel && (
+          <ZoneFilterPanel
+              filter={zoneFilter}
+              onFilterChange={changeZoneFilter}
+              sortOrder={zoneSortOrder}
+              onSortOrderChange={setZoneSortOrder}
+              options={zoneFilterOptions}
+              results={zoneFilterResults}
+              zoneStyles={zoneStyles}
+              formatDistance={formatBoundaryDistance}
+              selectedZoneId={selectedZone?.id}
+              onZoneSelect={zone => handleZoneSelection(zone, true)}
+              onExport={exportZones}
+              onClose={() => setShowFilterPanel(false)}
+          />
+      )}
+
       {/* Updated Legend - Might need Point legend items re-added if removed */} 
+      {!showFilterPanel && (
        <View style={styles.legendContainer}>
           <View style={styles.legendItem}>
              <View style={[styles.legendColorBox, { backgroundColor: zoneStyles.GROEN.fillColor }]} />
@@ -612,16 +561,73 @@ export default function HomeScreen() {
              <View style={[styles.legendColorBox, { backgroundColor: zoneStyles.ORANJE.strokeColor, borderRadius: 10 }]} /> 
              <Text style={styles.legendText}>{zoneStyles.ORANJE.name} (Point)</Text>
           </View>
+          <View style={styles.legendItem}>
+             <View style={[styles.legendColorBox, { backgroundColor: zoneStyles.ROOD.fillColor }]} /> 
+             <Text style={styles.legendText}>{zoneStyles.ROOD.name}</Text>
+             <Switch
+                style={styles.legendSwitch}
+                value={showForbiddenZones}
+                onValueChange={toggleForbiddenZones}
+             />
+          </View>
+          <View style={styles.legendItem}>
+             <View style={[styles.legendColorBox, { backgroundColor: zoneStyles.WATERSPEELPLEK.fillColor }]} /> 
+             <Text style={styles.legendText}>{zoneStyles.WATERSPEELPLEK.name}</Text>
+          </View>
+          {overlayLayers.map(layer => (
+             <View key={layer.id} style={styles.legendItem}>
+                <View style={[styles.legendColorBox, styles.overlayColorBox]} />
+                <Text style={[styles.legendText, styles.overlayName]} numberOfLines={1}>{layer.name}</Text>
+                <Switch
+                   style={styles.legendSwitch}
+                   value={layer.visible}
+                   onValueChange={visible => setLayerVisible(layer.id, visible)}
+                />
+             </View>
+          ))}
+          <TouchableOpacity onPress={() => router.push('/overlays')}>
+             <Text style={styles.dataVersionText}>
+                {overlayLayers.length > 0 ? 'Manage overlays' : 'Import overlay...'}
+             </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => router.push('/datasets')}>
+             <Text style={styles.dataVersionText}>
+                {dataset.name}{datasetChoice === null ? ' (by location)' : ''} · Change
+             </Text>
+          </TouchableOpacity>
+          {zoneDataVersion && (
+             <TouchableOpacity onPress={updateZoneData} disabled={updatingZoneData}>
+                <Text style={styles.dataVersionText}>
+                   Data as of {formatDataDate(zoneDataVersion)}
+                   {updatingZoneData ? ' · Updating...' : ' · Update'}
+                </Text>
+             </TouchableOpacity>
+          )}
        </View>
+      )}
 
-      {/* Nearest Zones Overlay - Update Text Rendering (Check non-null assertions) */}
-      {nearestZones.length > 0 && (
+      {/* Favourites and Nearest Zones Overlay - Update Text Rendering (Check non-null assertions) */}
+      {(favouriteZones.length > 0 || nearestZones.length > 0) && !showFilterPanel && (
           <View style={styles.nearestContainer}>
-              <Text style={styles.nearestTitle}>Nearest Off-Leash Zones:</Text>
+              {favouriteZones.length > 0 && (
+                  <>
+                      <Text style={styles.nearestTitle}>★ Favourites:</Text>
+                      {favouriteZones.map(zone => (
+                          <TouchableOpacity key={zone.id} onPress={() => focusZone(zone)}>
+                             <Text style={[styles.nearestItem, selectedZone?.id === zone.id && styles.selectedItem]} numberOfLines={1}>
+                                 {zone.properties.WIJKNAAM ?? 'Unknown neighbourhood'}
+                                 {userLocation ? ` (${formatBoundaryDistance(zone)})` : ''}
+                                 {` (${zone.properties.CODE})`}
+                             </Text>
+                          </TouchableOpacity>
+                      ))}
+                  </>
+              )}
+              {nearestZones.length > 0 && <Text style={styles.nearestTitle}>Nearest Dog Zones:</Text>}
               {nearestZones.map(zone => (
                   <TouchableOpacity key={zone.id} onPress={() => handleZoneSelection(zone, true)}> 
                      <Text style={[styles.nearestItem, selectedZone?.id === zone.id && styles.selectedItem]}>
-                         {zone.distance != null ? `(~${(zone.distance * 1000).toFixed(0)}m)` : '(Dist. N/A)'}
+                         {`(${formatBoundaryDistance(zone)})`}
                          {zone.zoneType === 'area' && zone.area != null &&
                             ` - Area: ${zone.area.toFixed(0)} m²`
                          }
@@ -632,16 +638,47 @@ export default function HomeScreen() {
           </View>
       )}
       
+      {/* Forbidden Zone Detail - Shown instead of the navigation prompt for forbidden zones */}
+      {selectedZone && isForbiddenZone(selectedZone) && (
+          <View style={[styles.navigationPrompt, styles.forbiddenPrompt]}>
+              <Text style={styles.forbiddenTitle}>Dogs not allowed</Text>
+              <Text style={styles.promptText}>
+                  {getZoneRuleDescription(selectedZone)}
+                  {selectedZone.properties.WIJKNAAM ? ` (${selectedZone.properties.WIJKNAAM})` : ''}
+                  {selectedZone.boundaryDistance != null ? ` (${formatBoundaryDistance(selectedZone)})` : ''}
+              </Text>
+              <View style={styles.promptButtons}>
+                  <Button title="Details" onPress={() => showZoneDetails(selectedZone)} />
+                  <Button title="Close" onPress={() => handleZoneSelection(null)} color="#888"/>
+              </View>
+          </View>
+      )}
+
       {/* Navigation Prompt - Update Text Rendering (Check non-null assertions) */}
-      {selectedZone && (
+      {selectedZone && !isForbiddenZone(selectedZone) && choosingRoute && (
+          <View style={styles.navigationPrompt}>
+              <Text style={styles.promptText}>
+                  Walking route to the nearest edge of the zone with:
+              </Text>
+             <View style={styles.promptButtons}>
+                 {NAVIGATION_PROVIDERS.map(provider => (
+                     <Button key={provider.id} title={provider.name} onPress={() => openRoute(selectedZone, provider)} />
+                 ))}
+                 <Button title="Back" onPress={() => setChoosingRoute(false)} color="#888"/>
+             </View>
+          </View>
+      )}
+      {selectedZone && !isForbiddenZone(selectedZone) && !choosingRoute && (
           <View style={styles.navigationPrompt}>
               <Text style={styles.promptText}>
                   Navigate to selected zone?
-                  {selectedZone.distance != null ? ` (${(selectedZone.distance * 1000).toFixed(0)}m away)` : ''}
+                  {selectedZone.boundaryDistance != null ? ` (${formatBoundaryDistance(selectedZone)})` : ''}
                   {selectedZone.area != null ? ` (Area: ${selectedZone.area.toFixed(0)} m²)` : ''}
               </Text>
              <View style={styles.promptButtons}>
-                 <Button title="Go" onPress={() => handleNavigationRequest(selectedZone)} />
+                 <Button title="Go" onPress={() => setChoosingRoute(true)} />
+                 <Button title={isFavourite(selectedZone) ? '★' : '☆'} onPress={() => toggleFavourite(selectedZone)} color="#c79100" />
+                 <Button title="Details" onPress={() => showZoneDetails(selectedZone)} />
                  <Button title="Cancel" onPress={() => handleZoneSelection(null)} color="#888"/>
              </View>
           </View>
@@ -698,6 +735,15 @@ const styles = StyleSheet.create({
        elevation: 4,
        alignItems: 'center',
   },
+  forbiddenPrompt: {
+       backgroundColor: '#f8d0d0',
+  },
+  forbiddenTitle: {
+      fontWeight: 'bold',
+      fontSize: 16,
+      color: '#b00000',
+      marginBottom: 4,
+  },
   promptText: {
       marginBottom: 8,
       fontSize: 14,
@@ -705,6 +751,7 @@ const styles = StyleSheet.create({
   },
   promptButtons: {
       flexDirection: 'row',
+      flexWrap: 'wrap', // Up to four navigation apps on iOS
       justifyContent: 'space-around',
       width: '80%',
   },
@@ -722,10 +769,46 @@ const styles = StyleSheet.create({
       borderRadius: 5,
       elevation: 2,
   },
+  // Status banner, directly below the controls
+  statusBanner: {
+      position: 'absolute',
+      top: 55,
+      left: 10,
+      right: 10,
+      paddingVertical: 6,
+      paddingHorizontal: 10,
+      borderRadius: 5,
+      elevation: 2,
+  },
+  geofenceBanner: {
+      borderWidth: 2,
+      borderColor: '#333',
+  },
+  statusText: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      textAlign: 'center',
+  },
+  errorBanner: {
+      backgroundColor: '#ffebee',
+      borderWidth: 1,
+      borderColor: '#c62828',
+  },
+  errorText: {
+      fontSize: 13,
+      color: '#c62828',
+      textAlign: 'center',
+  },
+  errorActions: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      gap: 12,
+      marginTop: 4,
+  },
   // Re-add Legend styles
   legendContainer: {
       position: 'absolute',
-      top: 60, // Below controls
+      top: 100, // Below controls and status banner
       left: 10,
       backgroundColor: 'rgba(255, 255, 255, 0.85)',
       padding: 8,
@@ -747,4 +830,20 @@ const styles = StyleSheet.create({
   legendText: {
     fontSize: 12,
   },
+  dataVersionText: {
+    fontSize: 11,
+    color: '#555',
+    marginTop: 2,
+  },
+  legendSwitch: {
+    marginLeft: 8,
+    transform: [{ scale: 0.7 }],
+  },
+  overlayColorBox: {
+    backgroundColor: 'transparent',
+    borderStyle: 'dashed',
+  },
+  overlayName: {
+    maxWidth: 140,
+  },
 });
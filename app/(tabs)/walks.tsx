@@ -0,0 +1,121 @@
+import React from 'react';
+import { Alert, Button, ScrollView, StyleSheet, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { useWalks } from '@/hooks/useWalks';
+import { EXPORT_MIME_TYPES, getExportFileName, toGpx } from '@/utils/exportFormats';
+import { shareFile } from '@/utils/shareFile';
+import { formatWalkSummary, SavedWalk, WalkTotals } from '@/utils/walks';
+import { ZONE_STATUS_LABELS, ZoneStatus } from '@/utils/zoneStatus';
+
+// Zone types listed per walk; time outside any zone is left out
+const LISTED_STATUSES: ZoneStatus[] = ['off-leash', 'leash', 'forbidden'];
+
+/** Date and time a walk started, e.g. "3 Jun 2025, 08:15". */
+const formatStart = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatDistance = (distanceM: number): string =>
+  distanceM < 1000 ? `${distanceM.toFixed(0)} m` : `${(distanceM / 1000).toFixed(1)} km`;
+
+const formatTotals = ({ durationMs, distanceM }: WalkTotals): string =>
+  `${Math.round(durationMs / 60000)} min, ${formatDistance(distanceM)}`;
+
+/** Shares the walks as a GPX file (a download on web). */
+const exportWalks = async (walks: SavedWalk[], name: string) => {
+  try {
+    await shareFile(getExportFileName(name, 'gpx', new Date(walks[0].startedAt)), toGpx(walks), EXPORT_MIME_TYPES.gpx);
+  } catch (error) {
+    console.error('[Export] Failed:', error);
+    Alert.alert('Export Failed', error instanceof Error ? error.message : String(error));
+  }
+};
+
+function WalkItem({ walk, onShow, onDelete }: { walk: SavedWalk; onShow: () => void; onDelete: () => void }) {
+  const { summary } = walk;
+  return (
+    <View style={styles.walk}>
+      <ThemedText type="defaultSemiBold">{formatStart(walk.startedAt)}</ThemedText>
+      <ThemedText>{formatWalkSummary(summary)} ({formatDistance(summary.distanceM)})</ThemedText>
+      {LISTED_STATUSES.filter(status => summary.byStatus[status].durationMs > 0).map(status => (
+        <ThemedText key={status} style={styles.breakdown}>
+          {ZONE_STATUS_LABELS[status]}: {formatTotals(summary.byStatus[status])}
+        </ThemedText>
+      ))}
+      <View style={styles.actions}>
+        <Button title="Show on map" onPress={onShow} />
+        <Button title="GPX" onPress={() => exportWalks([walk], 'walk')} />
+        <Button title="Delete" onPress={onDelete} color="#888" />
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Recorded walks, newest first, with the time spent in each zone type.
+ */
+export default function WalksScreen() {
+  const { walks, recording, deleteWalk } = useWalks();
+
+  const showOnMap = (walk: SavedWalk) => {
+    router.navigate({ pathname: '/', params: { walk: walk.id } });
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'left', 'right']}>
+      <ThemedView style={styles.container}>
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.header}>
+            <ThemedText type="title">Walks</ThemedText>
+            {walks.length > 0 && <Button title="Export all (GPX)" onPress={() => exportWalks(walks, 'walks')} />}
+          </View>
+          {recording && (
+            <ThemedText style={styles.recording}>
+              Recording a walk: {recording.points.length} points so far. Stop walk mode on the map to save it.
+            </ThemedText>
+          )}
+          {walks.length === 0 && !recording && (
+            <ThemedText>No walks yet. Turn on walk mode on the map to record one.</ThemedText>
+          )}
+          {walks.map(walk => (
+            <WalkItem key={walk.id} walk={walk} onShow={() => showOnMap(walk)} onDelete={() => deleteWalk(walk.id)} />
+          ))}
+        </ScrollView>
+      </ThemedView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  recording: {
+    fontStyle: 'italic',
+  },
+  walk: {
+    gap: 2,
+    paddingBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#999',
+  },
+  breakdown: {
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+});
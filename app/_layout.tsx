@@ -7,6 +7,10 @@ import { useEffect } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { FavouritesProvider } from '@/hooks/useFavourites';
+import { OverlaysProvider } from '@/hooks/useOverlays';
+import { WalksProvider } from '@/hooks/useWalks';
+import { ZoneDataProvider } from '@/hooks/useZoneData';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -29,10 +33,21 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
+      <ZoneDataProvider>
+        <OverlaysProvider>
+          <FavouritesProvider>
+            <WalksProvider>
+              <Stack>
+                <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                <Stack.Screen name="zone/[id]" options={{ title: 'Zone' }} />
+                <Stack.Screen name="overlays" options={{ title: 'Overlays' }} />
+                <Stack.Screen name="datasets" options={{ title: 'Dog map' }} />
+                <Stack.Screen name="+not-found" />
+              </Stack>
+            </WalksProvider>
+          </FavouritesProvider>
+        </OverlaysProvider>
+      </ZoneDataProvider>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
@@ -0,0 +1,90 @@
+import React from 'react';
+import { ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { router } from 'expo-router';
+import { ExternalLink } from '@/components/ExternalLink';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { DATASETS } from '@/constants/Datasets';
+import { useZoneData } from '@/hooks/useZoneData';
+
+function DatasetOption({ title, description, selected, onPress }: {
+  title: string;
+  description: React.ReactNode;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity style={styles.option} onPress={onPress}>
+      <ThemedText style={styles.check}>{selected ? '✓' : ''}</ThemedText>
+      <View style={styles.optionText}>
+        <ThemedText type="defaultSemiBold">{title}</ThemedText>
+        {description}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Picks the municipality whose dog map is shown, or leaves it to the user's location.
+ */
+export default function DatasetsScreen() {
+  const { dataset, datasetChoice, selectDataset } = useZoneData();
+
+  const select = (datasetId: string | null) => {
+    selectDataset(datasetId);
+    router.back();
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <DatasetOption
+          title="By location"
+          description={<ThemedText style={styles.description}>The dog map of where you are, now {dataset.name}.</ThemedText>}
+          selected={datasetChoice === null}
+          onPress={() => select(null)}
+        />
+        {DATASETS.map(descriptor => (
+          <DatasetOption
+            key={descriptor.id}
+            title={descriptor.name}
+            description={descriptor.sourcePage && (
+              <ExternalLink href={descriptor.sourcePage}>
+                <ThemedText type="link" style={styles.description}>About this data</ThemedText>
+              </ExternalLink>
+            )}
+            selected={datasetChoice === descriptor.id}
+            onPress={() => select(descriptor.id)}
+          />
+        ))}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    paddingBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#999',
+  },
+  check: {
+    width: 20,
+  },
+  optionText: {
+    flex: 1,
+  },
+  description: {
+    fontSize: 14,
+  },
+});
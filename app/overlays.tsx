@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { Button, ScrollView, StyleSheet, Switch, TextInput, View } from 'react-native';
+import { Chip } from '@/components/Chip';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { zoneStyles } from '@/constants/ZoneStyles';
+import { useOverlays } from '@/hooks/useOverlays';
+import { useThemeColor } from '@/hooks/useThemeColor';
+import { ImportedFeature } from '@/utils/exportFormats';
+import {
+  countOverlayCodes,
+  createOverlayLayer,
+  getMappableProperties,
+  guessOverlayCode,
+  guessOverlayMapping,
+  OVERLAY_CODES,
+  OverlayCode,
+  OverlayMapping,
+  parseOverlayFile,
+} from '@/utils/overlays';
+import { pickTextFile } from '@/utils/pickTextFile';
+
+// A picked file being mapped, before it becomes a layer
+interface OverlayDraft {
+  fileName: string;
+  features: ImportedFeature[];
+  name: string;
+  mapping: OverlayMapping;
+}
+
+/** Chips to pick the code of a value, or to skip it when `onSkip` is given. */
+function CodeChips({ code, onChange, onSkip }: { code: OverlayCode | null; onChange: (code: OverlayCode) => void; onSkip?: () => void }) {
+  const textColor = useThemeColor({}, 'text');
+  return (
+    <View style={styles.chipRow}>
+      {OVERLAY_CODES.map(option => (
+        <Chip
+          key={option}
+          label={option}
+          active={code === option}
+          color={zoneStyles[option].fillColor}
+          textColor={textColor}
+          onPress={() => onChange(option)}
+        />
+      ))}
+      {onSkip && <Chip label="Skip" active={code === null} textColor={textColor} onPress={onSkip} />}
+    </View>
+  );
+}
+
+/**
+ * Imports GeoJSON and KML files, e.g. the dog map of a neighbouring municipality, as overlay layers:
+ * the user picks the property that holds the zone type and maps its values to GROEN, ORANJE or ROOD.
+ */
+export default function OverlaysScreen() {
+  const { layers, addLayer, setLayerVisible, removeLayer } = useOverlays();
+  const [draft, setDraft] = useState<OverlayDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const textColor = useThemeColor({}, 'text');
+
+  const properties = useMemo(() => (draft ? getMappableProperties(draft.features) : {}), [draft?.features]);
+  const counts = useMemo(() => (draft ? countOverlayCodes(draft.features, draft.mapping) : null), [draft]);
+
+  const pickFile = async () => {
+    setError(null);
+    try {
+      const file = await pickTextFile();
+      if (!file) return;
+      const features = parseOverlayFile(file.text);
+      console.log(`[Overlays] Read ${features.length} polygons from ${file.name}.`);
+      setDraft({
+        fileName: file.name,
+        features,
+        name: file.name.replace(/\.[^.]+$/, ''),
+        mapping: guessOverlayMapping(features),
+      });
+    } catch (pickError) {
+      console.warn('[Overlays] Could not read file:', pickError);
+      setError(pickError instanceof Error ? pickError.message : String(pickError));
+    }
+  };
+
+  const updateMapping = (changes: Partial<OverlayMapping>) => {
+    setDraft(current => (current ? { ...current, mapping: { ...current.mapping, ...changes } } : current));
+  };
+
+  const selectProperty = (property: string | null) => {
+    const values = property !== null
+      ? Object.fromEntries(properties[property].map(value => [value, guessOverlayCode(value)]))
+      : {};
+    updateMapping({ property, values });
+  };
+
+  const setValueCode = (value: string, code: OverlayCode | null) => {
+    if (!draft) return;
+    updateMapping({ values: { ...draft.mapping.values, [value]: code } });
+  };
+
+  const importDraft = () => {
+    if (!draft) return;
+    try {
+      addLayer(createOverlayLayer(draft.name, draft.features, draft.mapping, Date.now()));
+      setDraft(null);
+      setError(null);
+    } catch (importError) {
+      console.warn('[Overlays] Import failed:', importError);
+      setError(importError instanceof Error ? importError.message : String(importError));
+    }
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText>
+          Add another dog map, such as that of a neighbouring municipality or your own spots, as a layer on the map.
+          GeoJSON and KML files with polygons are supported.
+        </ThemedText>
+
+        {!draft && <Button title="Import GeoJSON or KML..." onPress={pickFile} />}
+        {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+        {draft && counts && (
+          <View style={styles.section}>
+            <ThemedText type="defaultSemiBold">
+              {draft.fileName}: {draft.features.length} polygons
+            </ThemedText>
+            <TextInput
+              style={[styles.nameInput, { color: textColor }]}
+              placeholder="Layer name, e.g. Leusden"
+              placeholderTextColor="#888"
+              value={draft.name}
+              onChangeText={name => setDraft({ ...draft, name })}
+            />
+
+            <ThemedText style={styles.label}>Zone type from</ThemedText>
+            <View style={styles.chipRow}>
+              <Chip
+                label="Same for all"
+                active={draft.mapping.property === null}
+                textColor={textColor}
+                onPress={() => selectProperty(null)}
+              />
+              {Object.keys(properties).map(property => (
+                <Chip
+                  key={property}
+                  label={property}
+                  active={draft.mapping.property === property}
+                  textColor={textColor}
+                  onPress={() => selectProperty(property)}
+                />
+              ))}
+            </View>
+
+            {draft.mapping.property === null ? (
+              <CodeChips code={draft.mapping.defaultCode} onChange={defaultCode => updateMapping({ defaultCode })} />
+            ) : (
+              properties[draft.mapping.property].map(value => (
+                <View key={value} style={styles.valueRow}>
+                  <ThemedText style={styles.value} numberOfLines={1}>{value}</ThemedText>
+                  <CodeChips
+                    code={draft.mapping.values[value] ?? null}
+                    onChange={code => setValueCode(value, code)}
+                    onSkip={() => setValueCode(value, null)}
+                  />
+                </View>
+              ))
+            )}
+
+            <ThemedText style={styles.label}>
+              {OVERLAY_CODES.map(code => `${counts[code]} ${code}`).join(', ')}
+              {counts.skipped > 0 ? `; ${counts.skipped} skipped` : ''}
+            </ThemedText>
+            <View style={styles.actions}>
+              <Button title="Import" onPress={importDraft} />
+              <Button title="Cancel" onPress={() => { setDraft(null); setError(null); }} color="#888" />
+            </View>
+          </View>
+        )}
+
+        {layers.length > 0 && <ThemedText type="subtitle">Layers</ThemedText>}
+        {layers.map(layer => (
+          <View key={layer.id} style={styles.layer}>
+            <View style={styles.layerText}>
+              <ThemedText type="defaultSemiBold">{layer.name}</ThemedText>
+              <ThemedText style={styles.label}>
+                {layer.data.features.length} zones, imported {new Date(layer.importedAt).toLocaleDateString()}
+              </ThemedText>
+            </View>
+            <Switch value={layer.visible} onValueChange={visible => setLayerVisible(layer.id, visible)} />
+            <Button title="Remove" onPress={() => removeLayer(layer.id)} color="#888" />
+          </View>
+        ))}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  section: {
+    gap: 6,
+    paddingBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#999',
+  },
+  error: {
+    color: '#c62828',
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderColor: '#bbb',
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  label: {
+    fontSize: 14,
+    color: '#888',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 4,
+  },
+  valueRow: {
+    gap: 2,
+  },
+  value: {
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  layer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  layerText: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Button, ScrollView, Share, StyleSheet, View } from 'react-native';
+import { Link, Stack, useLocalSearchParams } from 'expo-router';
+import * as Linking from 'expo-linking';
+import * as Location from 'expo-location';
+import MapDisplay from '@/components/MapDisplay';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { DATASETS } from '@/constants/Datasets';
+import { getZoneStyle } from '@/constants/ZoneStyles';
+import { useFavourites } from '@/hooks/useFavourites';
+import { useOverlays } from '@/hooks/useOverlays';
+import { useZoneData } from '@/hooks/useZoneData';
+import { ProcessedZone } from '@/types';
+import { getDistanceToZone } from '@/utils/geometry';
+import { parseZoneAsset } from '@/utils/zoneAsset';
+import { formatBoundaryDistance } from '@/utils/zoneFormat';
+import { getZoneNeighbourhoods } from '@/utils/zoneFilter';
+import { findZoneBySourceId, getZoneDetailPath } from '@/utils/zones';
+import { getZoneRuleDescription, isForbiddenZone, ZONE_STATUS_BY_CODE, ZONE_STATUS_LABELS } from '@/utils/zoneStatus';
+
+const GOOGLE_MAPS_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY;
+
+/**
+ * Pre-renders a page for every source feature of the bundled datasets on web,
+ * including the members of merged zones, so shared links resolve.
+ */
+export async function generateStaticParams(): Promise<{ id: string }[]> {
+  return DATASETS.flatMap(dataset => {
+    if (dataset.bundledAsset === null) return [];
+    const { zones, forbiddenZones } = parseZoneAsset(dataset.bundledAsset);
+    return [...zones, ...forbiddenZones].flatMap(zone =>
+      (zone.memberIds?.map(member => member.id) ?? [zone.sourceId]).map(id => ({ id }))
+    );
+  });
+}
+
+function DetailRow({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.row}>
+      <ThemedText type="defaultSemiBold" style={styles.rowLabel}>{label}</ThemedText>
+      <ThemedText style={styles.rowValue}>{value}</ThemedText>
+    </View>
+  );
+}
+
+/**
+ * Details of one zone, addressed by a source feature ID (e.g. "Hondenkaart.188996")
+ * so links keep working after the data is updated: dogzones://zone/<id> or /zone/<id> on web,
+ * with the ID URL-encoded.
+ */
+export default function ZoneDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>(); // Already decoded by the router
+  const { zones, forbiddenZones, loading } = useZoneData();
+  const overlays = useOverlays();
+  const { isFavourite, toggleFavourite } = useFavourites();
+  const [location, setLocation] = useState<Location.LocationObject | null>(null);
+
+  const zone = useMemo(
+    () => (id ? findZoneBySourceId([...zones, ...forbiddenZones, ...overlays.zones, ...overlays.forbiddenZones], id) : null),
+    [id, zones, forbiddenZones, overlays.zones, overlays.forbiddenZones]
+  );
+
+  // Uses the location only when already allowed; the map screen asks for it
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const { status } = await Location.getForegroundPermissionsAsync();
+        if (status !== 'granted') return;
+        const position = await Location.getLastKnownPositionAsync() ?? await Location.getCurrentPositionAsync({});
+        if (!cancelled) setLocation(position);
+      } catch (error) {
+        console.warn('[ZoneDetail] Could not get location:', error);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  const zoneWithDistance = useMemo((): ProcessedZone | null => {
+    if (!zone || !location) return zone;
+    const boundaryDistance = getDistanceToZone(location.coords.latitude, location.coords.longitude, zone.geometry);
+    return { ...zone, boundaryDistance: boundaryDistance ?? undefined };
+  }, [zone, location]);
+
+  const shareZone = async () => {
+    if (!id) return;
+    try {
+      const url = Linking.createURL(getZoneDetailPath(id));
+      await Share.share({ message: url, url });
+    } catch (error) {
+      console.warn('[ZoneDetail] Share failed:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator size="large" />
+      </ThemedView>
+    );
+  }
+
+  if (!zoneWithDistance) {
+    return (
+      <ThemedView style={styles.centered}>
+        <Stack.Screen options={{ title: 'Zone not found' }} />
+        <ThemedText type="subtitle">No zone with ID {id ?? '(none)'}.</ThemedText>
+        <ThemedText style={styles.notFoundHint}>It may have been removed in a newer version of the data.</ThemedText>
+        <Link href="/" style={styles.link}>
+          <ThemedText type="link">Back to the map</ThemedText>
+        </Link>
+      </ThemedView>
+    );
+  }
+
+  const { properties } = zoneWithDistance;
+  const status = ZONE_STATUS_BY_CODE[properties.CODE] ?? 'none';
+  const neighbourhoods = getZoneNeighbourhoods(zoneWithDistance);
+  const distance = location
+    ? formatBoundaryDistance(zoneWithDistance)
+    : 'Location unavailable';
+
+  return (
+    <ThemedView style={styles.container}>
+      <Stack.Screen options={{ title: neighbourhoods[0] ?? properties.CODE }} />
+      <View style={styles.map}>
+        <MapDisplay
+          apiKey={GOOGLE_MAPS_API_KEY}
+          processedZones={[zoneWithDistance]}
+          forbiddenZones={[]}
+          getFeatureStyle={getZoneStyle}
+          userLocation={null} // Keeps the map on the zone
+          selectedZoneId={zoneWithDistance.id}
+          centerTargetCoords={zoneWithDistance.centroid}
+          onZoneSelect={() => {}}
+        />
+      </View>
+      <ScrollView contentContainerStyle={styles.details}>
+        <View style={styles.codeRow}>
+          <View style={[styles.swatch, { backgroundColor: getZoneStyle(zoneWithDistance).fillColor }]} />
+          <ThemedText type="subtitle">{properties.CODE}</ThemedText>
+        </View>
+        <ThemedText type="defaultSemiBold">{ZONE_STATUS_LABELS[status]}</ThemedText>
+        <ThemedText style={styles.rule}>{getZoneRuleDescription(zoneWithDistance)}</ThemedText>
+
+        <DetailRow label="Neighbourhood" value={neighbourhoods.join(', ') || 'Unknown'} />
+        <DetailRow label="Area team" value={properties.GEBIEDSTEAM ?? 'Unknown'} />
+        <DetailRow label="Area" value={zoneWithDistance.area != null ? `${zoneWithDistance.area.toFixed(0)} m²` : 'Unknown'} />
+        {zoneWithDistance.memberIds && (
+          <DetailRow label="Merged from" value={`${zoneWithDistance.memberIds.length} areas`} />
+        )}
+        <DetailRow label="Distance" value={distance} />
+        <DetailRow label="ID" value={id} />
+
+        <View style={styles.actions}>
+          {!isForbiddenZone(zoneWithDistance) && (
+            <Button
+              title={isFavourite(zoneWithDistance) ? '★ Favourite' : '☆ Add to favourites'}
+              onPress={() => toggleFavourite(zoneWithDistance)}
+              color="#c79100"
+            />
+          )}
+          <Button title="Share link" onPress={shareZone} />
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  notFoundHint: {
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  link: {
+    marginTop: 15,
+    paddingVertical: 15,
+  },
+  map: {
+    height: 240,
+  },
+  details: {
+    padding: 16,
+    gap: 4,
+  },
+  codeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  swatch: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#555',
+  },
+  rule: {
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowLabel: {
+    width: 120,
+  },
+  rowValue: {
+    flex: 1,
+  },
+  actions: {
+    marginTop: 12,
+    flexDirection: 'row',
+    gap: 12,
+  },
+});
@@ -0,0 +1,55 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface ChipProps {
+  label: string;
+  active: boolean;
+  color?: string; // Swatch before the label, e.g. a zone fill colour
+  textColor?: string; // For chips on a themed background; dark by default
+  onPress: () => void;
+}
+
+/**
+ * Small rounded toggle for picking options, such as filters or zone codes.
+ */
+export function Chip({ label, active, color, textColor, onPress }: ChipProps) {
+  return (
+    <TouchableOpacity style={[styles.chip, active && styles.chipActive]} onPress={onPress}>
+      {color && <View style={[styles.chipColor, { backgroundColor: color }]} />}
+      <Text style={[styles.chipText, textColor !== undefined && { color: textColor }, active && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#bbb',
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  chipActive: {
+    backgroundColor: 'rgba(102, 102, 255, 0.2)', // Shows on light and dark backgrounds
+    borderColor: '#66f',
+  },
+  chipColor: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 4,
+    borderWidth: 1,
+    borderColor: '#555',
+  },
+  chipText: {
+    fontSize: 12,
+    lineHeight: 18,
+  },
+  chipTextActive: {
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,388 @@
+import React, { useEffect, useState, useRef, useMemo, memo, useCallback } from 'react';
+import { APIProvider, Map, AdvancedMarker, Pin, InfoWindow, useMap } from '@vis.gl/react-google-maps';
+import { MapDisplayProps, ProcessedZone, MapTrack } from '../types';
+import { clusterZones, getClusterSize, ZoneCluster } from '../utils/clusters';
+import { getWebPolygonStyle, rgbaToHex } from '../utils/mapBackend';
+import { toWebPaths } from '../utils/mapPaths';
+import { createPolygonRegistry, PolygonRegistry } from '../utils/polygonRegistry';
+import { FAVOURITE_STROKE_COLOR, getClusterStyle, getFavouriteZoneStyle, trackStyle } from '../constants/ZoneStyles';
+
+const DEFAULT_ZOOM = 13;
+
+// Separate marker component to reduce rerenders
+const PointMarker = memo(({ 
+    point, 
+    isSelected, 
+    isFavourite,
+    getFeatureStyle, 
+    onZoneSelect 
+}: { 
+    point: ProcessedZone, 
+    isSelected: boolean, 
+    isFavourite: boolean,
+    getFeatureStyle: (feature: ProcessedZone, isSelected: boolean) => any,
+    onZoneSelect: (zone: ProcessedZone) => void 
+}) => {
+    const style = getFeatureStyle(point, isSelected);
+    if (!point.centroid) return null;
+    const props = point.properties as any;
+    const title = `${isFavourite ? '★ ' : ''}Zone ${props?.OBJECTID ?? point.id}`;
+
+    // Define styles for the marker
+    const markerStyle: React.CSSProperties = useMemo(() => ({
+        width: isSelected ? '16px' : '12px',
+        height: isSelected ? '16px' : '12px',
+        backgroundColor: style.fillColor,
+        borderRadius: '50%',
+        border: isSelected ? '2px solid #0000FF' : isFavourite ? `3px solid ${FAVOURITE_STROKE_COLOR}` : '1px solid #333',
+        cursor: 'pointer',
+        transition: 'all 0.1s ease-in-out',
+    }), [isSelected, isFavourite, style.fillColor]);
+
+    // Memoize the click handler
+    const handleClick = useCallback(() => {
+        onZoneSelect(point);
+    }, [onZoneSelect, point]);
+
+    return (
+        <AdvancedMarker
+            key={point.id}
+            position={point.centroid}
+            title={title}
+            clickable={true}
+            onClick={handleClick}
+            zIndex={isSelected ? 10 : 5}
+        >
+            <div style={markerStyle}></div>
+        </AdvancedMarker>
+    );
+});
+
+// A cluster of zones showing their number, in the colours of their most common code; clicking it zooms in on them
+const ClusterMarker = memo(({
+    cluster,
+    onExpand
+}: {
+    cluster: ZoneCluster,
+    onExpand: (cluster: ZoneCluster) => void
+}) => {
+    const { fillColor, strokeColor } = getClusterStyle(cluster.dominantCode);
+    const size = getClusterSize(cluster.zones.length);
+
+    const markerStyle: React.CSSProperties = useMemo(() => ({
+        width: `${size}px`,
+        height: `${size}px`,
+        lineHeight: `${size - 4}px`,
+        backgroundColor: fillColor,
+        border: `2px solid ${strokeColor}`,
+        borderRadius: '50%',
+        color: '#000',
+        fontSize: '12px',
+        fontWeight: 'bold',
+        textAlign: 'center',
+        cursor: 'pointer',
+    }), [size, fillColor, strokeColor]);
+
+    const handleClick = useCallback(() => {
+        onExpand(cluster);
+    }, [onExpand, cluster]);
+
+    return (
+        <AdvancedMarker
+            position={{ lat: cluster.lat, lng: cluster.lng }}
+            title={`${cluster.zones.length} zones`}
+            clickable={true}
+            onClick={handleClick}
+            zIndex={4}
+        >
+            <div style={markerStyle}>{cluster.zones.length}</div>
+        </AdvancedMarker>
+    );
+});
+
+// Internal component to handle map interactions after API is loaded
+const WebMap = memo(({ 
+    userLocation, 
+    processedZones,
+    forbiddenZones,
+    onZoneSelect, 
+    selectedZoneId, 
+    favouriteZoneIds,
+    tracks,
+    centerTargetCoords, 
+    getFeatureStyle 
+}: Omit<MapDisplayProps, 'apiKey' | 'initialRegion'>) => {
+    const map = useMap();
+    // Polygons drawn on the map, kept across renders (a ref, to avoid re-renders)
+    const polygonRegistryRef = useRef<PolygonRegistry<google.maps.PolygonOptions> | null>(null);
+    const initialCenterSet = useRef(false);
+    // Whole zoom level, which decides what is clustered
+    const [zoom, setZoom] = useState(() => Math.floor(map?.getZoom() ?? DEFAULT_ZOOM));
+
+    // Function to convert style for Google Maps Polygon - memoize to prevent re-renders
+    const getWebPolygonStyleOptions = useCallback((feature: ProcessedZone, isSelected: boolean, isFavourite: boolean): google.maps.PolygonOptions => {
+        const featureStyle = getFeatureStyle(feature, isSelected);
+        const baseStyle = isFavourite && !isSelected ? getFavouriteZoneStyle(featureStyle) : featureStyle;
+        return { ...getWebPolygonStyle(baseStyle, isSelected), clickable: true };
+    }, [getFeatureStyle]);
+    
+    // Latest zone click handler, so polygons don't need new listeners when it changes
+    const onZoneSelectRef = useRef(onZoneSelect);
+    onZoneSelectRef.current = onZoneSelect;
+    
+    // --- Effects --- //
+    
+    // Effect to center map based on centerTargetCoords prop
+    useEffect(() => {
+        if (!map || !centerTargetCoords) return;
+        
+        console.log("[Web Map] Panning to target coords:", centerTargetCoords);
+        map.panTo(centerTargetCoords);
+        map.setZoom(17); // Zoom in when centering on a specific zone
+    }, [centerTargetCoords, map]); // Re-run when coords or map instance changes
+    
+    // Effect for initial centering on user location
+    useEffect(() => {
+        if (!map || !userLocation || initialCenterSet.current) return;
+        
+        console.log("[Web Map] Panning to initial user location.");
+        map.panTo({ lat: userLocation.lat, lng: userLocation.lng });
+        map.setZoom(14); // Initial zoom level
+        initialCenterSet.current = true;
+    }, [map, userLocation]); // Only depends on map and userLocation for initial centering
+
+    // Effect following the zoom level; state only changes when a whole level is crossed
+    useEffect(() => {
+        if (!map) return;
+        const listener = map.addListener('zoom_changed', () => setZoom(Math.floor(map.getZoom() ?? DEFAULT_ZOOM)));
+        return () => listener.remove();
+    }, [map]);
+
+    // Clicking a cluster zooms the map to its zones
+    const expandCluster = useCallback((cluster: ZoneCluster) => {
+        console.log(`[WebMap Click] Cluster of ${cluster.zones.length} zones clicked.`);
+        map?.fitBounds(cluster.bounds, 60);
+    }, [map]);
+
+    // Memoize the processed zones to prevent unnecessary rerenders
+    const memoizedZones = useMemo(() => processedZones, [processedZones]);
+    const memoizedSelectedId = useMemo(() => selectedZoneId, [selectedZoneId]);
+    // Zoomed out, the dense forbidden polygons are clustered; the selection and favourites never are
+    const keepSingle = useCallback(
+        (zone: ProcessedZone) => zone.id === memoizedSelectedId || (favouriteZoneIds?.has(zone.id) ?? false),
+        [memoizedSelectedId, favouriteZoneIds]
+    );
+    const forbiddenGroups = useMemo(() => clusterZones(forbiddenZones, zoom, keepSingle), [forbiddenZones, zoom, keepSingle]);
+    // Forbidden zones go first so the off-leash polygons are drawn on top of them
+    const zonesToDraw = useMemo(() => [...forbiddenGroups.singles, ...processedZones], [forbiddenGroups, processedZones]);
+
+    // Effect creating the polygon registry for the map; its polygons go when the map does
+    useEffect(() => {
+        if (!map) return;
+        const registry: PolygonRegistry<google.maps.PolygonOptions> = createPolygonRegistry<google.maps.Polygon, google.maps.PolygonOptions>({
+            // One Polygon per part: the outer path plus its holes
+            create: (feature, options) => toWebPaths(feature.geometry).map(paths => {
+                const polygon = new google.maps.Polygon({ ...options, paths, map });
+                polygon.addListener('click', () => {
+                    console.log(`[WebMap Click] Polygon ${feature.id} clicked.`);
+                    onZoneSelectRef.current(registry.getZone(feature.id) ?? feature);
+                });
+                return polygon;
+            }),
+            update: (polygons, options) => polygons.forEach(polygon => polygon.setOptions(options)),
+            remove: polygons => polygons.forEach(polygon => {
+                google.maps.event.clearInstanceListeners(polygon);
+                polygon.setMap(null);
+            }),
+        });
+        polygonRegistryRef.current = registry;
+        return () => {
+            registry.clear();
+            polygonRegistryRef.current = null;
+        };
+    }, [map]);
+
+    // Effect syncing the polygons: a selection restyles two of them, new zones add or remove only the difference
+    useEffect(() => {
+        const registry = polygonRegistryRef.current;
+        if (!registry) return;
+        const areas = zonesToDraw.filter(feature =>
+            feature.zoneType === 'area' && (feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon')
+        );
+        const { created, updated, removed } = registry.sync(areas, feature =>
+            getWebPolygonStyleOptions(feature, feature.id === memoizedSelectedId, favouriteZoneIds?.has(feature.id) ?? false)
+        );
+        console.log(`[Web Map Effect] ${registry.size} zones drawn: ${created} created, ${updated} restyled, ${removed} removed.`);
+    }, [map, zonesToDraw, memoizedSelectedId, favouriteZoneIds, getWebPolygonStyleOptions]);
+
+    // Calculate points separately for Marker rendering, clustered when zoomed out
+    const pointsToRender = useMemo(() => {
+        return memoizedZones.filter(zone => zone.zoneType === 'point' && zone.centroid);
+    }, [memoizedZones]);
+    const pointGroups = useMemo(() => clusterZones(pointsToRender, zoom, keepSingle), [pointsToRender, zoom, keepSingle]);
+
+    // --- Render --- //
+    return (
+        <>
+            {/* User Location Marker */}
+            {userLocation && (
+                 <AdvancedMarker position={userLocation} title={"Your Location"}>
+                     <Pin background={'#007bff'} borderColor={'#0056b3'} glyphColor={'#ffffff'} />
+                 </AdvancedMarker>
+             )}
+
+            {/* Accuracy Circle */}
+            {userLocation && userLocation.accuracy && map && (
+                <CircleComponent 
+                    center={userLocation}
+                    radius={userLocation.accuracy}
+                    strokeColor="#007bff"
+                    strokeOpacity={0.6}
+                    strokeWeight={1}
+                    fillColor="#007bff"
+                    fillOpacity={0.1}
+                />
+            )}
+
+            {/* Walk Tracks */}
+            {tracks?.map(track => (
+                <TrackPolyline key={track.id} track={track} />
+            ))}
+
+            {/* Zone Clusters */}
+            {forbiddenGroups.clusters.map(cluster => (
+                <ClusterMarker key={`forbidden-${cluster.id}`} cluster={cluster} onExpand={expandCluster} />
+            ))}
+            {pointGroups.clusters.map(cluster => (
+                <ClusterMarker key={`point-${cluster.id}`} cluster={cluster} onExpand={expandCluster} />
+            ))}
+
+            {/* Zone Point Markers */}
+            {pointGroups.singles.map(point => (
+                <PointMarker
+                    key={point.id}
+                    point={point}
+                    isSelected={point.id === memoizedSelectedId}
+                    isFavourite={favouriteZoneIds?.has(point.id) ?? false}
+                    getFeatureStyle={getFeatureStyle}
+                    onZoneSelect={onZoneSelect}
+                />
+            ))}
+        </>
+    );
+});
+
+// The Google Maps renderer of the web map; MapDisplay.web.tsx only uses it with a key
+const GoogleMapDisplay: React.FC<MapDisplayProps & { apiKey: string }> = ({ apiKey, initialRegion, ...props }) => {
+  return (
+    <APIProvider apiKey={apiKey}>
+        <Map
+            mapId={'amersfoortDogZonesMap'} 
+            style={{ width: '100%', height: '100%' }}
+            defaultCenter={initialRegion ? { lat: initialRegion.latitude, lng: initialRegion.longitude } : { lat: 52.1561, lng: 5.3878 }}
+            defaultZoom={DEFAULT_ZOOM}
+            gestureHandling={'greedy'}
+            disableDefaultUI={true}
+        >
+            <WebMap {...props} /> 
+        </Map>
+    </APIProvider>
+  );
+};
+
+// --- Circle Component --- //
+interface CircleComponentProps {
+    center: { lat: number; lng: number };
+    radius: number;
+    strokeColor?: string;
+    strokeOpacity?: number;
+    strokeWeight?: number;
+    fillColor?: string;
+    fillOpacity?: number;
+}
+
+const CircleComponent: React.FC<CircleComponentProps> = ({ center, radius, ...options }) => {
+    const map = useMap();
+    const circleRef = useRef<google.maps.Circle | null>(null);
+    const optionsRef = useRef(options);
+    
+    // Update options ref when props change (without triggering rerenders)
+    useEffect(() => {
+        optionsRef.current = options;
+    }, [options]);
+    
+    // Only recreate circle when critical dependencies change
+    useEffect(() => {
+        if (!map) return;
+
+        // Cleanup existing circle
+        if (circleRef.current) {
+            circleRef.current.setMap(null);
+            circleRef.current = null;
+        }
+        
+        // Create new circle
+        circleRef.current = new google.maps.Circle({
+            map,
+            center,
+            radius,
+            ...optionsRef.current
+        });
+
+        // Cleanup on unmount
+        return () => {
+            if (circleRef.current) {
+                circleRef.current.setMap(null);
+                circleRef.current = null;
+            }
+        };
+    }, [map, center, radius]); // Only depend on the critical props
+    
+    // Update circle properties when they change
+    useEffect(() => {
+        if (!circleRef.current) return;
+        
+        circleRef.current.setOptions(optionsRef.current);
+    }, [
+        options.strokeColor, 
+        options.strokeOpacity, 
+        options.strokeWeight, 
+        options.fillColor, 
+        options.fillOpacity
+    ]);
+
+    return null; // Circle is drawn directly on the map, no React element needed
+};
+
+// --- Track Polyline Component --- //
+const TrackPolyline: React.FC<{ track: MapTrack }> = ({ track }) => {
+    const map = useMap();
+    const polylineRef = useRef<google.maps.Polyline | null>(null);
+
+    // Create the line once per map
+    useEffect(() => {
+        if (!map) return;
+        const { color, opacity } = rgbaToHex(trackStyle.strokeColor);
+        polylineRef.current = new google.maps.Polyline({
+            map,
+            strokeColor: color,
+            strokeOpacity: opacity,
+            strokeWeight: trackStyle.strokeWidth,
+            zIndex: 20,
+            clickable: false,
+        });
+        return () => {
+            polylineRef.current?.setMap(null);
+            polylineRef.current = null;
+        };
+    }, [map]);
+
+    // Extend the path as the walk is recorded, without recreating the line
+    useEffect(() => {
+        polylineRef.current?.setPath(track.coordinates);
+    }, [map, track.coordinates]);
+
+    return null; // Drawn directly on the map
+};
+
+export default GoogleMapDisplay; 
\ No newline at end of file
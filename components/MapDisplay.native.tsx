@@ -1,34 +1,55 @@
-import React, { useRef, useEffect, memo } from 'react';
-import { StyleSheet, View, Platform } from 'react-native';
-import MapView, { Polygon, Marker, Circle, LatLng, Region } from 'react-native-maps';
-import { ProcessedZone, FeatureProperties } from '@/types';
-import { Feature, Point, Polygon as GeoJsonPolygon, MultiPolygon as GeoJsonMultiPolygon, Position } from 'geojson';
-
-// --- Interfaces ---
-interface MapDisplayProps {
-  userLocation: { coords: { latitude: number; longitude: number; accuracy: number | null } } | null;
-  processedZones: ProcessedZone[];
-  onZoneSelect: (zone: ProcessedZone) => void;
-  selectedZoneId: string | null;
-  // Replace centerMapTrigger with centerTargetCoords
-  // centerMapTrigger: number;
-  centerTargetCoords: { lat: number, lng: number } | null;
-  getFeatureStyle: (feature: ProcessedZone, isSelected: boolean) => { fillColor: string; strokeColor: string; strokeWidth: number; zIndex?: number; opacity?: number };
-}
+import React, { useRef, useEffect, useState, useMemo, useCallback, memo } from 'react';
+import { StyleSheet, View, Text, Platform, useWindowDimensions } from 'react-native';
+import MapView, { Polygon, Polyline, Marker, Circle, Region, UrlTile } from 'react-native-maps';
+import { ProcessedZone, MapDisplayProps } from '@/types';
+import { clusterZones, getClusterSize, getRegionZoom, ZoneCluster } from '@/utils/clusters';
+import { getMapBackend, OSM_MAX_ZOOM, OSM_TILE_URL } from '@/utils/mapBackend';
+import { toMapPolygons } from '@/utils/mapPaths';
+import { getClusterStyle, getFavouriteZoneStyle, trackStyle } from '@/constants/ZoneStyles';
+
+// Used until the user's location is known, when the parent gives no region
+const DEFAULT_REGION: Region = {
+    latitude: 52.1561,
+    longitude: 5.3878,
+    latitudeDelta: 0.15,
+    longitudeDelta: 0.15,
+};
 
 // --- Component ---
 const MapDisplay: React.FC<MapDisplayProps> = memo(
   ({
+    apiKey,
+    initialRegion = DEFAULT_REGION,
     userLocation,
     processedZones,
+    forbiddenZones,
     onZoneSelect,
     selectedZoneId,
+    favouriteZoneIds,
+    tracks,
     // centerMapTrigger, // remove
     centerTargetCoords, // add
     getFeatureStyle,
   }) => {
     const mapRef = useRef<MapView>(null);
     const initialRegionSet = useRef(false);
+    // Without a key, OpenStreetMap tiles replace the platform's base map
+    const useOsmTiles = getMapBackend(apiKey) === 'osm';
+    // Whole zoom level of the full-width map, which decides what is clustered
+    const { width } = useWindowDimensions();
+    const [zoom, setZoom] = useState(() => Math.floor(getRegionZoom(initialRegion.longitudeDelta, width)));
+
+    // Zoomed out, point zones and the dense forbidden polygons are clustered; the selection and favourites never are
+    const keepSingle = useCallback(
+        (zone: ProcessedZone) => zone.id === selectedZoneId || (favouriteZoneIds?.has(zone.id) ?? false),
+        [selectedZoneId, favouriteZoneIds]
+    );
+    const forbiddenGroups = useMemo(() => clusterZones(forbiddenZones, zoom, keepSingle), [forbiddenZones, zoom, keepSingle]);
+    const areaZones = useMemo(() => processedZones.filter(zone => zone.zoneType !== 'point'), [processedZones]);
+    const pointGroups = useMemo(
+        () => clusterZones(processedZones.filter(zone => zone.zoneType === 'point' && zone.centroid), zoom, keepSingle),
+        [processedZones, zoom, keepSingle]
+    );
 
     // --- Effects ---
 
@@ -50,10 +71,9 @@ const MapDisplay: React.FC<MapDisplayProps> = memo(
     useEffect(() => {
       if (userLocation && mapRef.current && !initialRegionSet.current) {
         console.log("[Native Map] Setting initial region based on user location.");
-        const { latitude, longitude } = userLocation.coords;
         const region: Region = {
-          latitude,
-          longitude,
+          latitude: userLocation.lat,
+          longitude: userLocation.lng,
           latitudeDelta: 0.04, // Slightly wider initial view
           longitudeDelta: 0.04,
         };
@@ -63,80 +83,141 @@ const MapDisplay: React.FC<MapDisplayProps> = memo(
       // Not dependent on centerTargetCoords
     }, [userLocation]);
 
+    // Tapping a cluster zooms the map to its zones
+    const expandCluster = (cluster: ZoneCluster) => {
+        console.log(`[Native Map] Cluster of ${cluster.zones.length} zones tapped.`);
+        mapRef.current?.fitToCoordinates(
+            cluster.zones.map(zone => ({ latitude: zone.centroid.lat, longitude: zone.centroid.lng })),
+            { edgePadding: { top: 60, right: 60, bottom: 60, left: 60 }, animated: true }
+        );
+    };
+
+    // Renders a cluster as its number of zones, in the colours of their most common code
+    const renderCluster = (cluster: ZoneCluster, layer: string) => {
+        const { fillColor, strokeColor } = getClusterStyle(cluster.dominantCode);
+        const size = getClusterSize(cluster.zones.length);
+        return (
+            <Marker
+                key={`${layer}-${cluster.id}`}
+                coordinate={{ latitude: cluster.lat, longitude: cluster.lng }}
+                anchor={{ x: 0.5, y: 0.5 }}
+                onPress={() => expandCluster(cluster)}
+                zIndex={4}
+            >
+                <View style={[styles.cluster, { width: size, height: size, borderRadius: size / 2, backgroundColor: fillColor, borderColor: strokeColor }]}>
+                    <Text style={styles.clusterText}>{cluster.zones.length}</Text>
+                </View>
+            </Marker>
+        );
+    };
+
+    // Renders a single zone as polygon(s) or a marker
+    const renderZone = (feature: ProcessedZone) => {
+        const isSelected = feature.id === selectedZoneId;
+        const isFavourite = favouriteZoneIds?.has(feature.id) ?? false;
+        const baseStyle = getFeatureStyle(feature, isSelected);
+        const style = isFavourite && !isSelected ? getFavouriteZoneStyle(baseStyle) : baseStyle;
+
+        if (feature.zoneType === 'area' && feature.geometry && (feature.geometry.type === 'Polygon' || feature.geometry.type === 'MultiPolygon')) {
+            // Ensure coordinates are in the correct LatLng format for react-native-maps, keeping holes
+            return toMapPolygons(feature.geometry).map((polygon, index) => (
+                 <Polygon
+                    key={`${feature.id}-poly-${index}`}
+                    coordinates={polygon.coordinates}
+                    holes={polygon.holes}
+                    fillColor={style.fillColor}
+                    strokeColor={style.strokeColor}
+                    strokeWidth={style.strokeWidth}
+                    tappable={true}
+                    onPress={() => onZoneSelect(feature)}
+                    zIndex={style.zIndex ?? 1} // Ensure selected is on top
+                />
+            ));
+        } else if (feature.zoneType === 'point' && feature.centroid) {
+            // The pin takes the outline colour of the zone's style, which follows its code and status; favourites get a gold pin
+            const markerColor = isFavourite ? 'gold' : baseStyle.strokeColor;
+            
+            // Cast properties to 'any' to access specific fields
+            const props = feature.properties as any; 
+            const title = `${isFavourite ? '★ ' : ''}Zone ${props?.OBJECTID ?? feature.id}`;
+            const description = props?.NAAM ?? 'Dog Zone';
+            
+            return (
+                <Marker
+                    key={`${feature.id}-marker`}
+                    coordinate={{ latitude: feature.centroid.lat, longitude: feature.centroid.lng }}
+                    title={title}
+                    description={description}
+                    pinColor={markerColor}
+                    onPress={() => onZoneSelect(feature)}
+                     zIndex={style.zIndex ?? 1}
+                />
+            );
+        }
+        return null;
+    };
+
     // --- Render --- //
     return (
-        <MapView
-            ref={mapRef}
-            style={styles.map}
-            // provider={PROVIDER_GOOGLE} // Optional: Use Google Maps on iOS
-            showsUserLocation={true}
-            showsMyLocationButton={false} // We have a custom button
-            initialRegion={{
-                latitude: 52.1561,
-                longitude: 5.3878,
-                latitudeDelta: 0.15,
-                longitudeDelta: 0.15,
-            }}
-        >
-            {/* Render Zones (Polygons or Markers) */}
-            {processedZones.map((feature) => {
-                const isSelected = feature.id === selectedZoneId;
-                const style = getFeatureStyle(feature, isSelected);
-
-                if (feature.zoneType === 'area' && feature.geometry && (feature.geometry.type === 'Polygon' || feature.geometry.type === 'MultiPolygon')) {
-                    // Ensure coordinates are in the correct LatLng format for react-native-maps
-                    const coordinatesArray = feature.geometry.type === 'Polygon'
-                        ? [feature.geometry.coordinates[0].map((coord: Position) => ({ latitude: coord[1], longitude: coord[0] }))]
-                        : feature.geometry.coordinates.map((poly: Position[][]) => poly[0].map((coord: Position) => ({ latitude: coord[1], longitude: coord[0] })));
-
-                    return coordinatesArray.map((coordinates: LatLng[], index: number) => (
-                         <Polygon
-                            key={`${feature.id}-poly-${index}`}
-                            coordinates={coordinates}
-                            fillColor={style.fillColor}
-                            strokeColor={style.strokeColor}
-                            strokeWidth={style.strokeWidth}
-                            tappable={true}
-                            onPress={() => onZoneSelect(feature)}
-                            zIndex={style.zIndex ?? 1} // Ensure selected is on top
-                        />
-                    ));
-                } else if (feature.zoneType === 'point' && feature.centroid) {
-                    const markerColor = style.fillColor === 'rgba(255, 165, 0, 0.5)' ? 'orange' : 'green'; // Determine marker color
-                    
-                    // Cast properties to 'any' to access specific fields
-                    const props = feature.properties as any; 
-                    const title = `Zone ${props?.OBJECTID ?? feature.id}`;
-                    const description = props?.NAAM ?? 'Dog Zone';
-                    
-                    return (
-                        <Marker
-                            key={`${feature.id}-marker`}
-                            coordinate={{ latitude: feature.centroid.lat, longitude: feature.centroid.lng }}
-                            title={title}
-                            description={description}
-                            pinColor={markerColor}
-                            onPress={() => onZoneSelect(feature)}
-                             zIndex={style.zIndex ?? 1}
-                        />
-                    );
-                }
-                return null;
-            })}
-
-            {/* Optional: User Accuracy Circle */}
-            {userLocation?.coords.accuracy && (
-                <Circle
-                    center={{
-                        latitude: userLocation.coords.latitude,
-                        longitude: userLocation.coords.longitude,
-                    }}
-                    radius={userLocation.coords.accuracy}
-                    strokeColor="rgba(0, 150, 255, 0.5)"
-                    fillColor="rgba(0, 150, 255, 0.2)"
-                />
-            )}
-        </MapView>
+        <View style={styles.map}>
+            <MapView
+                ref={mapRef}
+                style={styles.map}
+                // provider={PROVIDER_GOOGLE} // Optional: Use Google Maps on iOS
+                // Android has no base map to replace, so it is hidden beneath the tiles
+                mapType={useOsmTiles && Platform.OS === 'android' ? 'none' : 'standard'}
+                showsUserLocation={true}
+                showsMyLocationButton={false} // We have a custom button
+                initialRegion={initialRegion}
+                onRegionChangeComplete={region => setZoom(Math.floor(getRegionZoom(region.longitudeDelta, width)))}
+            >
+                {/* OpenStreetMap base map */}
+                {useOsmTiles && (
+                    <UrlTile
+                        urlTemplate={OSM_TILE_URL}
+                        maximumZ={OSM_MAX_ZOOM}
+                        shouldReplaceMapContent={true}
+                        zIndex={-1}
+                    />
+                )}
+
+                {/* Render Forbidden Zones (ROOD layer) underneath */}
+                {forbiddenGroups.singles.map(renderZone)}
+
+                {/* Render Zones (Polygons or Markers) */}
+                {areaZones.map(renderZone)}
+                {pointGroups.singles.map(renderZone)}
+
+                {/* Render Zone Clusters */}
+                {forbiddenGroups.clusters.map(cluster => renderCluster(cluster, 'forbidden'))}
+                {pointGroups.clusters.map(cluster => renderCluster(cluster, 'point'))}
+
+                {/* Walk Tracks */}
+                {tracks?.filter(track => track.coordinates.length > 1).map(track => (
+                    <Polyline
+                        key={track.id}
+                        coordinates={track.coordinates.map(({ lat, lng }) => ({ latitude: lat, longitude: lng }))}
+                        strokeColor={trackStyle.strokeColor}
+                        strokeWidth={trackStyle.strokeWidth}
+                        zIndex={20}
+                    />
+                ))}
+
+                {/* Optional: User Accuracy Circle */}
+                {userLocation?.accuracy && (
+                    <Circle
+                        center={{
+                            latitude: userLocation.lat,
+                            longitude: userLocation.lng,
+                        }}
+                        radius={userLocation.accuracy}
+                        strokeColor="rgba(0, 150, 255, 0.5)"
+                        fillColor="rgba(0, 150, 255, 0.2)"
+                    />
+                )}
+            </MapView>
+            {useOsmTiles && <Text style={styles.attribution}>© OpenStreetMap contributors</Text>}
+        </View>
     );
   }
 );
@@ -145,6 +226,26 @@ const styles = StyleSheet.create({
   map: {
     flex: 1,
   },
+  cluster: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+  },
+  clusterText: {
+    color: '#000',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  // OpenStreetMap's licence asks for attribution on the map
+  attribution: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 4,
+    fontSize: 10,
+    color: '#333',
+    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+  },
 });
 
 export default MapDisplay; 
\ No newline at end of file
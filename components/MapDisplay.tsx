@@ -1,16 +1,19 @@
 // This file acts as the entry point for the MapDisplay component.
 // It allows proper module resolution for '@/components/MapDisplay'.
 
-// Note: The underlying platform-specific components (MapDisplay.native.tsx and 
-// MapDisplay.web.tsx) both require a Google Maps API key.
-// This key should be provided via the EXPO_PUBLIC_GOOGLE_MAPS_API_KEY 
-// environment variable, which is read in the parent component 
-// and passed down as the 'apiKey' prop.
+// Note: The platform-specific components (MapDisplay.native.tsx and
+// MapDisplay.web.tsx) draw with Google Maps when the EXPO_PUBLIC_GOOGLE_MAPS_API_KEY
+// environment variable, passed down as the 'apiKey' prop, holds a key, and with
+// OpenStreetMap tiles when it doesn't (see utils/mapBackend.ts).
 
 // Use dynamic exports based on platform
+import React from 'react';
 import { Platform } from 'react-native';
+import { MapDisplayProps } from '@/types';
 
 // Export the appropriate version based on platform
-export default Platform.OS === 'web' 
+const MapDisplay: React.ComponentType<MapDisplayProps> = Platform.OS === 'web'
   ? require('./MapDisplay.web').default
-  : require('./MapDisplay.native').default; 
\ No newline at end of file
+  : require('./MapDisplay.native').default;
+
+export default MapDisplay;
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState, memo } from 'react';
+import 'leaflet/dist/leaflet.css';
+import type * as Leaflet from 'leaflet';
+import { MapDisplayProps, ProcessedZone } from '../types';
+import { clusterZones, getClusterSize, ZoneCluster } from '../utils/clusters';
+import { getWebPolygonStyle, OSM_ATTRIBUTION, OSM_MAX_ZOOM, OSM_TILE_URL, rgbaToHex, WebPolygonStyle } from '../utils/mapBackend';
+import { toWebPaths } from '../utils/mapPaths';
+import { createPolygonRegistry, PolygonRegistry } from '../utils/polygonRegistry';
+import { FAVOURITE_STROKE_COLOR, getClusterStyle, getFavouriteZoneStyle, trackStyle } from '../constants/ZoneStyles';
+
+// Leaflet reads `window` as it loads, so it is required once a map mounts rather than during static rendering
+const loadLeaflet = (): typeof Leaflet => require('leaflet');
+
+const DEFAULT_CENTER = { lat: 52.1561, lng: 5.3878 };
+const DEFAULT_ZOOM = 13;
+
+// Leaflet's names for the polygon style shared with the Google Maps renderer
+const toPathOptions = (style: WebPolygonStyle): Leaflet.PathOptions => ({
+    color: style.strokeColor,
+    opacity: style.strokeOpacity,
+    weight: style.strokeWeight,
+    fillColor: style.fillColor,
+    fillOpacity: style.fillOpacity,
+});
+
+// Leaflet has no z-index for paths; raised zones (selected, favourites) go on top
+const bringRaisedToFront = (polygon: Leaflet.Polygon, style: WebPolygonStyle) => {
+    if (style.zIndex > 1) polygon.bringToFront();
+};
+
+// A cluster's marker: its number of zones, in the colours of its most common code
+const toClusterIcon = (L: typeof Leaflet, cluster: ZoneCluster): Leaflet.DivIcon => {
+    const { fillColor, strokeColor } = getClusterStyle(cluster.dominantCode);
+    const size = getClusterSize(cluster.zones.length);
+    return L.divIcon({
+        className: '',
+        iconSize: [size, size],
+        html: `<div style="width:${size}px;height:${size}px;line-height:${size - 4}px;box-sizing:border-box;background-color:${fillColor};`
+            + `border:2px solid ${strokeColor};border-radius:50%;color:#000;font-size:12px;font-weight:bold;text-align:center;">`
+            + `${cluster.zones.length}</div>`,
+    });
+};
+
+/**
+ * The OpenStreetMap renderer of the web map, drawn with Leaflet; needs no API key.
+ */
+const OpenMapDisplay: React.FC<Omit<MapDisplayProps, 'apiKey'>> = memo(({
+    initialRegion,
+    userLocation,
+    processedZones,
+    forbiddenZones,
+    onZoneSelect,
+    selectedZoneId,
+    favouriteZoneIds,
+    tracks,
+    centerTargetCoords,
+    getFeatureStyle,
+}) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [map, setMap] = useState<Leaflet.Map | null>(null);
+    const initialCenterSet = useRef(false);
+    const initialCenter = useRef(initialRegion ? { lat: initialRegion.latitude, lng: initialRegion.longitude } : DEFAULT_CENTER);
+    const polygonRegistryRef = useRef<PolygonRegistry<WebPolygonStyle> | null>(null);
+    // Whole zoom level, which decides what is clustered
+    const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+    // Latest zone click handler, so polygons don't need new listeners when it changes
+    const onZoneSelectRef = useRef(onZoneSelect);
+    onZoneSelectRef.current = onZoneSelect;
+
+    // --- Effects --- //
+
+    // Create the map and its tile layer once
+    useEffect(() => {
+        if (!containerRef.current) return;
+        const L = loadLeaflet();
+        const created = L.map(containerRef.current, { zoomControl: false }).setView(initialCenter.current, DEFAULT_ZOOM);
+        L.tileLayer(OSM_TILE_URL, { maxZoom: OSM_MAX_ZOOM, attribution: OSM_ATTRIBUTION }).addTo(created);
+        // State only changes when a whole level is crossed
+        created.on('zoomend', () => setZoom(Math.floor(created.getZoom())));
+        setMap(created);
+        return () => {
+            created.remove();
+        };
+    }, []);
+
+    // Effect to center map based on centerTargetCoords prop
+    useEffect(() => {
+        if (!map || !centerTargetCoords) return;
+        console.log("[Open Map] Panning to target coords:", centerTargetCoords);
+        map.setView(centerTargetCoords, 17); // Zoom in when centering on a specific zone
+    }, [centerTargetCoords, map]);
+
+    // Effect for initial centering on user location
+    useEffect(() => {
+        if (!map || !userLocation || initialCenterSet.current) return;
+        console.log("[Open Map] Panning to initial user location.");
+        map.setView({ lat: userLocation.lat, lng: userLocation.lng }, 14);
+        initialCenterSet.current = true;
+    }, [map, userLocation]);
+
+    // Polygon registry for the map; its polygons go when the map does
+    useEffect(() => {
+        if (!map) return;
+        const L = loadLeaflet();
+        const registry: PolygonRegistry<WebPolygonStyle> = createPolygonRegistry<Leaflet.Polygon, WebPolygonStyle>({
+            // One polygon per part: the outer path plus its holes
+            create: (feature, style) => toWebPaths(feature.geometry).map(paths => {
+                const polygon = L.polygon(paths, toPathOptions(style))
+                    .on('click', () => onZoneSelectRef.current(registry.getZone(feature.id) ?? feature))
+                    .addTo(map);
+                bringRaisedToFront(polygon, style);
+                return polygon;
+            }),
+            update: (polygons, style) => polygons.forEach(polygon => {
+                polygon.setStyle(toPathOptions(style));
+                bringRaisedToFront(polygon, style);
+            }),
+            remove: polygons => polygons.forEach(polygon => polygon.remove()),
+        });
+        polygonRegistryRef.current = registry;
+        return () => {
+            registry.clear();
+            polygonRegistryRef.current = null;
+        };
+    }, [map]);
+
+    // Zoomed out, point zones and the dense forbidden polygons are clustered; the selection and favourites never are
+    const keepSingle = useCallback(
+        (zone: ProcessedZone) => zone.id === selectedZoneId || (favouriteZoneIds?.has(zone.id) ?? false),
+        [selectedZoneId, favouriteZoneIds]
+    );
+    const forbiddenGroups = useMemo(() => clusterZones(forbiddenZones, zoom, keepSingle), [forbiddenZones, zoom, keepSingle]);
+    const pointGroups = useMemo(
+        () => clusterZones(processedZones.filter(zone => zone.zoneType === 'point' && zone.centroid), zoom, keepSingle),
+        [processedZones, zoom, keepSingle]
+    );
+
+    // Forbidden zones go first so the off-leash polygons are drawn on top of them
+    const zonesToDraw = useMemo(() => [...forbiddenGroups.singles, ...processedZones], [forbiddenGroups, processedZones]);
+
+    // Zone polygons: a selection restyles two of them, new zones add or remove only the difference
+    useEffect(() => {
+        const registry = polygonRegistryRef.current;
+        if (!registry) return;
+        const areas = zonesToDraw.filter(feature =>
+            feature.zoneType === 'area' && (feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon')
+        );
+        registry.sync(areas, feature => {
+            const isSelected = feature.id === selectedZoneId;
+            const featureStyle = getFeatureStyle(feature, isSelected);
+            const baseStyle = favouriteZoneIds?.has(feature.id) && !isSelected ? getFavouriteZoneStyle(featureStyle) : featureStyle;
+            return getWebPolygonStyle(baseStyle, isSelected);
+        });
+    }, [map, zonesToDraw, selectedZoneId, favouriteZoneIds, getFeatureStyle]);
+
+    // Point markers above the polygons and tracks (their own pane), like the markers of the Google map; few, so redrawn on changes
+    useEffect(() => {
+        if (!map) return;
+        const L = loadLeaflet();
+        const layer = L.layerGroup();
+        pointGroups.singles.forEach(point => {
+            const isSelected = point.id === selectedZoneId;
+            const isFavourite = favouriteZoneIds?.has(point.id) ?? false;
+            const fill = rgbaToHex(getFeatureStyle(point, isSelected).fillColor);
+            L.circleMarker(point.centroid, {
+                radius: isSelected ? 8 : 6,
+                color: isSelected ? '#0000FF' : isFavourite ? FAVOURITE_STROKE_COLOR : '#333',
+                weight: isSelected ? 2 : isFavourite ? 3 : 1,
+                fillColor: fill.color,
+                fillOpacity: fill.opacity,
+                pane: 'markerPane',
+            })
+                .bindTooltip(`${isFavourite ? '★ ' : ''}Zone ${point.id}`)
+                .on('click', () => onZoneSelectRef.current(point))
+                .addTo(layer);
+        });
+        layer.addTo(map);
+        return () => {
+            layer.remove();
+        };
+    }, [map, pointGroups, selectedZoneId, favouriteZoneIds, getFeatureStyle]);
+
+    // Cluster markers; clicking one zooms the map to its zones
+    useEffect(() => {
+        if (!map) return;
+        const L = loadLeaflet();
+        const layer = L.layerGroup();
+        [...forbiddenGroups.clusters, ...pointGroups.clusters].forEach(cluster => {
+            L.marker([cluster.lat, cluster.lng], { icon: toClusterIcon(L, cluster), title: `${cluster.zones.length} zones` })
+                .on('click', () => {
+                    console.log(`[Open Map] Cluster of ${cluster.zones.length} zones clicked.`);
+                    map.fitBounds([[cluster.bounds.south, cluster.bounds.west], [cluster.bounds.north, cluster.bounds.east]], { padding: [60, 60] });
+                })
+                .addTo(layer);
+        });
+        layer.addTo(map);
+        return () => {
+            layer.remove();
+        };
+    }, [map, forbiddenGroups, pointGroups]);
+
+    // Walk tracks above the zones, in the pane between theirs and the markers'
+    useEffect(() => {
+        if (!map || !tracks?.length) return;
+        const L = loadLeaflet();
+        const { color, opacity } = rgbaToHex(trackStyle.strokeColor);
+        const layer = L.layerGroup(tracks.map(track =>
+            L.polyline(track.coordinates, { color, opacity, weight: trackStyle.strokeWidth, interactive: false, pane: 'shadowPane' })
+        )).addTo(map);
+        return () => {
+            layer.remove();
+        };
+    }, [map, tracks]);
+
+    // User location with its accuracy circle, above everything else
+    const userLat = userLocation?.lat;
+    const userLng = userLocation?.lng;
+    const userAccuracy = userLocation?.accuracy;
+    useEffect(() => {
+        if (!map || userLat === undefined || userLng === undefined) return;
+        const L = loadLeaflet();
+        const layer = L.layerGroup().addTo(map);
+        if (userAccuracy) {
+            L.circle([userLat, userLng], { radius: userAccuracy, color: '#007bff', opacity: 0.6, weight: 1, fillOpacity: 0.1, interactive: false, pane: 'markerPane' }).addTo(layer);
+        }
+        L.circleMarker([userLat, userLng], { radius: 7, color: '#0056b3', weight: 2, fillColor: '#007bff', fillOpacity: 1, pane: 'markerPane' })
+            .bindTooltip('Your Location')
+            .addTo(layer);
+        return () => {
+            layer.remove();
+        };
+    }, [map, userLat, userLng, userAccuracy]);
+
+    // --- Render --- //
+    return <div ref={containerRef} style={{ width: '100%', height: '100%' }} />;
+});
+
+export default OpenMapDisplay;
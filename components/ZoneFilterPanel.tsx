@@ -0,0 +1,235 @@
+import React, { useMemo } from 'react';
+import { ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Chip } from '@/components/Chip';
+import { ProcessedZone, ZoneStyles } from '@/types';
+import {
+  EMPTY_ZONE_FILTER,
+  getZoneNeighbourhoods,
+  isZoneFilterActive,
+  ZoneFilter,
+  ZoneFilterOptions,
+  ZoneSortOrder,
+} from '@/utils/zoneFilter';
+
+const MIN_AREA_OPTIONS = [null, 500, 1000, 5000, 10000]; // m²
+const MAX_SUGGESTIONS = 6;
+const MAX_RESULTS = 50;
+
+interface ZoneFilterPanelProps {
+  filter: ZoneFilter;
+  onFilterChange: (filter: ZoneFilter) => void;
+  sortOrder: ZoneSortOrder;
+  onSortOrderChange: (order: ZoneSortOrder) => void;
+  options: ZoneFilterOptions;
+  results: ProcessedZone[]; // Filtered and sorted
+  zoneStyles: ZoneStyles;
+  formatDistance: (zone: ProcessedZone) => string;
+  selectedZoneId?: string | null;
+  onZoneSelect: (zone: ProcessedZone) => void;
+  onExport: (format: 'geojson' | 'kml') => void; // Exports every result
+  onClose: () => void;
+}
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+/**
+ * Search and filter panel: narrows the zones on the map by neighbourhood, code,
+ * area team and minimum area, and lists the matches by distance or size.
+ */
+export default function ZoneFilterPanel({
+  filter,
+  onFilterChange,
+  sortOrder,
+  onSortOrderChange,
+  options,
+  results,
+  zoneStyles,
+  formatDistance,
+  selectedZoneId,
+  onZoneSelect,
+  onExport,
+  onClose,
+}: ZoneFilterPanelProps) {
+  const update = (changes: Partial<ZoneFilter>) => onFilterChange({ ...filter, ...changes });
+
+  // Neighbourhood names completing the typed text; hidden once the text is a full name
+  const suggestions = useMemo(() => {
+    const query = filter.query.trim().toLowerCase();
+    if (!query || options.neighbourhoods.some(name => name.toLowerCase() === query)) return [];
+    return options.neighbourhoods.filter(name => name.toLowerCase().includes(query)).slice(0, MAX_SUGGESTIONS);
+  }, [filter.query, options.neighbourhoods]);
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Find zones</Text>
+        {isZoneFilterActive(filter) && (
+          <TouchableOpacity onPress={() => onFilterChange(EMPTY_ZONE_FILTER)}>
+            <Text style={styles.link}>Clear</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.link}>Close</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TextInput
+        style={styles.searchInput}
+        placeholder="Neighbourhood, e.g. Schothorst"
+        value={filter.query}
+        onChangeText={query => update({ query })}
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+      />
+      {suggestions.length > 0 && (
+        <View style={styles.chipRow}>
+          {suggestions.map(name => (
+            <Chip key={name} label={name} active={false} onPress={() => update({ query: name })} />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.chipRow}>
+        {options.codes.map(code => (
+          <Chip
+            key={code}
+            label={code}
+            color={zoneStyles[code]?.fillColor}
+            active={filter.codes.includes(code)}
+            onPress={() => update({ codes: toggle(filter.codes, code) })}
+          />
+        ))}
+      </View>
+      <View style={styles.chipRow}>
+        {options.teams.map(team => (
+          <Chip
+            key={team}
+            label={team}
+            active={filter.teams.includes(team)}
+            onPress={() => update({ teams: toggle(filter.teams, team) })}
+          />
+        ))}
+      </View>
+      <View style={styles.chipRow}>
+        <Text style={styles.rowLabel}>Min. area</Text>
+        {MIN_AREA_OPTIONS.map(minArea => (
+          <Chip
+            key={minArea ?? 'any'}
+            label={minArea === null ? 'Any' : `${minArea} m²`}
+            active={filter.minArea === minArea}
+            onPress={() => update({ minArea })}
+          />
+        ))}
+      </View>
+      <View style={styles.chipRow}>
+        <Text style={styles.rowLabel}>Sort by</Text>
+        <Chip label="Distance" active={sortOrder === 'distance'} onPress={() => onSortOrderChange('distance')} />
+        <Chip label="Size" active={sortOrder === 'size'} onPress={() => onSortOrderChange('size')} />
+      </View>
+
+      <View style={styles.resultHeader}>
+        <Text style={styles.resultCount}>
+          {results.length} {results.length === 1 ? 'zone' : 'zones'}
+          {results.length > MAX_RESULTS ? `, showing the first ${MAX_RESULTS}` : ''}
+        </Text>
+        {results.length > 0 && (
+          <>
+            <Text style={styles.rowLabel}>Export</Text>
+            <TouchableOpacity onPress={() => onExport('geojson')}>
+              <Text style={styles.link}>GeoJSON</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onExport('kml')}>
+              <Text style={styles.link}>KML</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+      <ScrollView style={styles.results} keyboardShouldPersistTaps="handled">
+        {results.slice(0, MAX_RESULTS).map(zone => (
+          <TouchableOpacity key={zone.id} onPress={() => onZoneSelect(zone)}>
+            <Text style={[styles.resultItem, selectedZoneId === zone.id && styles.selectedItem]} numberOfLines={1}>
+              {getZoneNeighbourhoods(zone).join(', ') || 'Unknown neighbourhood'}
+              {` (${zone.properties.CODE})`}
+              {zone.area != null ? ` - ${zone.area.toFixed(0)} m²` : ''}
+              {` - ${formatDistance(zone)}`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    top: 100, // Below controls and status banner, in place of the legend
+    left: 10,
+    right: 10,
+    maxHeight: '60%',
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    padding: 10,
+    borderRadius: 5,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 6,
+  },
+  title: {
+    flex: 1,
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  link: {
+    color: '#0a7ea4',
+    fontSize: 13,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 4,
+  },
+  rowLabel: {
+    fontSize: 12,
+    color: '#555',
+    marginRight: 2,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  resultCount: {
+    flex: 1,
+    fontSize: 12,
+    color: '#555',
+    marginTop: 2,
+    marginBottom: 2,
+  },
+  results: {
+    flexGrow: 0,
+  },
+  resultItem: {
+    fontSize: 13,
+    paddingVertical: 3,
+  },
+  selectedItem: {
+    backgroundColor: '#e0e0ff',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,131 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { DEFAULT_DATASET } from '@/constants/Datasets';
+import { router } from 'expo-router';
+import { Walk } from '@/types';
+import { parseZoneAsset } from '@/utils/zoneAsset';
+import HomeScreen from '../../app/(tabs)/index';
+
+const mockAsset = parseZoneAsset(bundledZoneAsset);
+const mockDataset = DEFAULT_DATASET;
+
+// The zone data as useZoneData gives it; `loading` is flipped by the tests
+let mockZoneData: { loading: boolean; error: string | null } = { loading: true, error: null };
+// The recording as useWalks gives it, e.g. one restored on launch
+let mockRecording: Walk | null = null;
+const mockStopRecording = jest.fn();
+const mockRetry = jest.fn();
+
+jest.mock('@/hooks/useZoneData', () => ({
+  useZoneData: () => ({
+    dataset: mockDataset,
+    datasetChoice: null,
+    selectDataset: () => {},
+    locateDataset: () => {},
+    zones: mockZoneData.loading ? [] : mockAsset.zones,
+    forbiddenZones: mockZoneData.loading ? [] : mockAsset.forbiddenZones,
+    origin: 'bundled',
+    version: '2023-05-16T00:00:00Z',
+    updating: false,
+    update: async () => {},
+    retry: mockRetry,
+    ...mockZoneData,
+  }),
+}));
+jest.mock('@/hooks/useOverlays', () => ({
+  useOverlays: () => ({ layers: [], zones: [], forbiddenZones: [], setLayerVisible: () => {} }),
+}));
+jest.mock('@/hooks/useFavourites', () => ({
+  useFavourites: () => ({ favouriteIds: [], isFavourite: () => false, toggleFavourite: () => {} }),
+}));
+jest.mock('@/hooks/useWalks', () => ({
+  useWalks: () => ({ walks: [], recording: mockRecording, startRecording: () => {}, recordLocation: () => {}, stopRecording: mockStopRecording }),
+}));
+jest.mock('@/hooks/useLocationWatch', () => ({ useLocationWatch: () => {} }));
+jest.mock('@/components/MapDisplay', () => () => null);
+jest.mock('expo-location', () => ({
+  requestForegroundPermissionsAsync: async () => ({ status: 'denied' }),
+}));
+jest.mock('expo-router', () => ({
+  router: { push: jest.fn(), setParams: jest.fn() },
+  useLocalSearchParams: () => ({}),
+}));
+
+describe('HomeScreen', () => {
+  let root: renderer.ReactTestRenderer;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockZoneData = { loading: true, error: null };
+    mockRecording = null;
+    mockStopRecording.mockClear();
+    mockRetry.mockClear();
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    jest.restoreAllMocks();
+  });
+
+  const render = async () => {
+    await act(async () => {
+      root = renderer.create(<HomeScreen />);
+    });
+  };
+  const rerender = async () => {
+    await act(async () => {
+      root.update(<HomeScreen />);
+    });
+  };
+
+  it('renders the map once the zones have loaded, and the spinner again on a dataset switch', async () => {
+    await render();
+    expect(root.root.findByProps({ children: 'Initializing...' })).toBeTruthy();
+
+    mockZoneData = { loading: false, error: null };
+    await rerender();
+    expect(root.root.findAllByProps({ children: 'Initializing...' })).toHaveLength(0);
+
+    mockZoneData = { loading: true, error: null };
+    await rerender();
+    expect(root.root.findByProps({ children: 'Initializing...' })).toBeTruthy();
+  });
+
+  it('keeps the map when a dataset fails to load, with the error, a retry and the dataset picker', async () => {
+    await render();
+
+    mockZoneData = { loading: false, error: 'Could not load the dog map: No data' };
+    await rerender();
+
+    expect(JSON.stringify(root.toJSON())).toContain('Could not load the dog map: No data');
+    expect(root.root.findByProps({ title: 'Walk' })).toBeTruthy();
+    act(() => root.root.findByProps({ title: 'Retry' }).props.onPress());
+    expect(mockRetry).toHaveBeenCalledTimes(1);
+    act(() => root.root.findByProps({ title: 'Change Dataset' }).props.onPress());
+    expect(router.push).toHaveBeenCalledWith('/datasets');
+  });
+
+  it('finishes a recording restored long after the app was closed, once the zones have loaded', async () => {
+    const hourAgo = Date.now() - 60 * 60 * 1000;
+    mockRecording = { id: 'walk_1', startedAt: hourAgo, endedAt: hourAgo, points: [] };
+    await render();
+    expect(mockStopRecording).not.toHaveBeenCalled();
+
+    mockZoneData = { loading: false, error: null };
+    await rerender();
+
+    expect(mockStopRecording).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes walk mode for a recording restored soon after the app was closed', async () => {
+    const minuteAgo = Date.now() - 60 * 1000;
+    mockRecording = { id: 'walk_1', startedAt: minuteAgo, endedAt: minuteAgo, points: [] };
+    mockZoneData = { loading: false, error: null };
+    await render();
+
+    expect(mockStopRecording).not.toHaveBeenCalled();
+    expect(root.root.findByProps({ title: 'Stop Walk' })).toBeTruthy();
+  });
+});
@@ -9,9 +9,9 @@ import { OpaqueColorValue, StyleProp, ViewStyle } from 'react-native';
 const MAPPING = {
   // See MaterialIcons here: https://icons.expo.fyi
   // See SF Symbols in the SF Symbols app on Mac.
-  'house.fill': 'home',
-  'paperplane.fill': 'send',
-  'chevron.left.forwardslash.chevron.right': 'code',
+  'map.fill': 'map',
+  'list.bullet': 'list',
+  'figure.walk': 'directions-walk',
   'chevron.right': 'chevron-right',
 } as Partial<
   Record<
@@ -0,0 +1,28 @@
+import { DatasetDescriptor } from '@/utils/datasets';
+// Zones precomputed at build time (`npm run zones -- build`), used until newer data has been downloaded
+import amersfoortZoneAsset from '@/assets/data/amersfoort-zones.json';
+
+// Hondenkaart Amersfoort on the CKAN dataplatform (see README > Data Source); already in the app's schema
+export const AMERSFOORT_DATASET: DatasetDescriptor = {
+  id: 'amersfoort',
+  name: 'Amersfoort',
+  sourceUrl: 'https://ckan.dataplatform.nl/dataset/85e28410-c1b0-41c2-bba4-15767093c477/resource/e467231b-e0c8-4c59-8ad2-c8681004f191/download/amersfoort-hondenkaart.json',
+  sourcePage: 'https://ckan.dataplatform.nl/dataset/amersfoort-hondenkaart',
+  region: {
+    latitude: 52.1561,
+    longitude: 5.3878,
+    latitudeDelta: 0.0922,
+    longitudeDelta: 0.0421,
+  },
+  bounds: [5.29, 52.10, 5.49, 52.22], // Municipality of Amersfoort, roughly
+  properties: { code: 'CODE', neighbourhood: 'WIJKNAAM', team: 'GEBIEDSTEAM', area: 'OPPERVLAKTE' },
+  codes: { GROEN: 'GROEN', ORANJE: 'ORANJE', ROOD: 'ROOD', WATERSPEELPLEK: 'WATERSPEELPLEK' },
+  bundledAsset: amersfoortZoneAsset,
+};
+
+// Datasets the app can show. Only Amersfoort for now: add another municipality once its published
+// dog map has been checked against a descriptor (see README > Other municipalities)
+export const DATASETS: DatasetDescriptor[] = [AMERSFOORT_DATASET];
+
+// Shown until the location or the user picks another
+export const DEFAULT_DATASET = AMERSFOORT_DATASET;
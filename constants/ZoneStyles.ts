@@ -0,0 +1,70 @@
+import { ProcessedZone, ZoneStyle, ZoneStyles } from '@/types';
+
+// Styles - Green/Orange for dog zones, Red/Blue for the dogs-forbidden layer
+export const zoneStyles: ZoneStyles = {
+  GROEN: { 
+    fillColor: 'rgba(0, 255, 0, 0.3)', // Polygon fill
+    strokeColor: 'rgba(0, 255, 0, 0.8)',
+    strokeWidth: 1,
+    name: 'Off-leash Zone (Green)' // Generic name
+  },
+  ORANJE: { 
+    fillColor: 'rgba(255, 165, 0, 0.3)', // Polygon fill
+    strokeColor: 'rgba(255, 165, 0, 0.8)',
+    strokeWidth: 1,
+    name: 'Off-leash Zone (Orange)' // Generic name
+  },
+  ROOD: {
+    fillColor: 'rgba(255, 0, 0, 0.25)', // Polygon fill
+    strokeColor: 'rgba(200, 0, 0, 0.8)',
+    strokeWidth: 1,
+    name: 'Dogs Forbidden (Red)'
+  },
+  WATERSPEELPLEK: {
+    fillColor: 'rgba(0, 120, 255, 0.3)', // Polygon fill
+    strokeColor: 'rgba(200, 0, 0, 0.8)', // Red outline: dogs are forbidden here too
+    strokeWidth: 1,
+    name: 'Water Playground (No Dogs)'
+  },
+  DEFAULT: { // Minimal fallback
+    fillColor: 'transparent',
+    strokeColor: 'transparent',
+    strokeWidth: 0,
+    name: ''
+  },
+  // Remove or keep dummy entries based on strictness of ZoneStyles type
+  WIT: { fillColor: '', strokeColor: '', strokeWidth: 0, name: '' },
+};
+
+/**
+ * Map style of a zone by its CODE.
+ */
+export function getZoneStyle(zone: ProcessedZone): ZoneStyle {
+  return zoneStyles[zone.properties?.CODE] ?? zoneStyles.DEFAULT;
+}
+
+// Gold outline marking favourite zones on both maps
+export const FAVOURITE_STROKE_COLOR = 'rgba(255, 193, 7, 1)';
+
+/**
+ * A favourite zone's style: its own fill with a thicker gold outline, drawn above other zones.
+ */
+export function getFavouriteZoneStyle<T extends { strokeColor: string; strokeWidth: number; zIndex?: number }>(style: T): T {
+  return { ...style, strokeColor: FAVOURITE_STROKE_COLOR, strokeWidth: style.strokeWidth + 2, zIndex: Math.max(style.zIndex ?? 1, 5) };
+}
+
+// Walk tracks: purple, so they stand out from the zones, the selection and the location
+export const trackStyle = { strokeColor: 'rgba(123, 31, 162, 0.9)', strokeWidth: 4 };
+
+// Cluster markers of codes without a colour of their own
+const DEFAULT_CLUSTER_STYLE = { fillColor: 'rgba(128, 128, 128, 0.8)', strokeColor: 'rgba(80, 80, 80, 0.9)' };
+
+/**
+ * Colours of a cluster marker: those of the code most of its zones have, with a fill opaque
+ * enough to read the number of zones on.
+ */
+export function getClusterStyle(code: string): { fillColor: string; strokeColor: string } {
+  const style = zoneStyles[code];
+  if (!style?.strokeColor || style.strokeColor === 'transparent') return DEFAULT_CLUSTER_STYLE;
+  return { fillColor: style.fillColor.replace(/[\d.]+\)$/, '0.8)'), strokeColor: style.strokeColor };
+}
@@ -0,0 +1,71 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { ProcessedZone } from '@/types';
+import { createDistanceService } from '@/utils/distanceService';
+import { createZoneIndex } from '@/utils/spatialIndex';
+import { parseZoneAsset } from '@/utils/zoneAsset';
+import { useNearestZones } from '../useNearestZones';
+
+const { zones } = parseZoneAsset(bundledZoneAsset);
+const zoneIndex = createZoneIndex(zones);
+const distances = createDistanceService();
+
+type Location = { lat: number; lng: number } | null;
+
+// A nearest list that records every render and the zones it showed
+const renders: ProcessedZone[][] = [];
+function NearestList({ location }: { location: Location }) {
+  const nearest = useNearestZones(location, zoneIndex, distances, 5);
+  renders.push(nearest);
+  return null;
+}
+
+describe('useNearestZones', () => {
+  let nearestQuery: jest.SpyInstance;
+  let root: renderer.ReactTestRenderer;
+
+  beforeEach(() => {
+    renders.length = 0;
+    nearestQuery = jest.spyOn(zoneIndex, 'nearest');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    act(() => {
+      root = renderer.create(<NearestList location={null} />);
+    });
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    jest.restoreAllMocks();
+  });
+
+  it('recomputes and renders the list once per location update', () => {
+    const updates: Location[] = [{ lat: 52.1561, lng: 5.3878 }, { lat: 52.17, lng: 5.42 }, { lat: 52.19, lng: 5.37 }];
+
+    updates.forEach((location, i) => {
+      act(() => root.update(<NearestList location={location} />));
+
+      expect(nearestQuery).toHaveBeenCalledTimes(i + 1);
+      expect(renders).toHaveLength(i + 2); // The first render was without a location
+    });
+    expect(renders[3]).toHaveLength(5);
+    expect(renders[3][0].boundaryDistance).toBeLessThanOrEqual(renders[3][4].boundaryDistance!);
+  });
+
+  it('does not recompute when rendered again with the same location', () => {
+    const location = { lat: 52.1561, lng: 5.3878 };
+    act(() => root.update(<NearestList location={location} />));
+    const shown = renders[renders.length - 1];
+
+    act(() => root.update(<NearestList location={location} />));
+
+    expect(nearestQuery).toHaveBeenCalledTimes(1);
+    expect(renders[renders.length - 1]).toBe(shown);
+  });
+
+  it('shows no zones without a location', () => {
+    expect(renders).toEqual([[]]);
+    expect(nearestQuery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,108 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { VersionedStore } from '@/utils/storage';
+import { usePersistedState } from '../usePersistedState';
+
+// A store whose load resolves only when the test says so
+function createControlledStore(stored: string[]) {
+  let finishLoading = () => {};
+  const store: VersionedStore<string[]> & { save: jest.Mock } = {
+    name: 'letters',
+    load: () => new Promise(resolve => {
+      finishLoading = () => resolve(stored);
+    }),
+    save: jest.fn(async () => {}),
+  };
+  return { store, finishLoading: () => act(async () => finishLoading()) };
+}
+
+type State = ReturnType<typeof usePersistedState<string[]>>;
+
+describe('usePersistedState', () => {
+  let state: State;
+  let root: renderer.ReactTestRenderer;
+
+  function Letters({ store, merge }: { store: VersionedStore<string[]>; merge?: (current: string[], stored: string[]) => string[] }) {
+    state = usePersistedState(store, [], merge);
+    return null;
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    jest.restoreAllMocks();
+  });
+
+  it('loads the stored value without saving it again', async () => {
+    const { store, finishLoading } = createControlledStore(['a', 'b']);
+    act(() => {
+      root = renderer.create(<Letters store={store} />);
+    });
+    expect(state[0]).toEqual([]);
+    expect(state[2]).toBe(false);
+
+    await finishLoading();
+
+    expect(state[0]).toEqual(['a', 'b']);
+    expect(state[2]).toBe(true);
+    expect(store.save).not.toHaveBeenCalled();
+  });
+
+  it('saves every change made through the setter', async () => {
+    const { store, finishLoading } = createControlledStore(['a']);
+    act(() => {
+      root = renderer.create(<Letters store={store} />);
+    });
+    await finishLoading();
+
+    act(() => state[1](current => [...current, 'b']));
+
+    expect(store.save).toHaveBeenCalledWith(['a', 'b']);
+  });
+
+  it('keeps changes made while loading', async () => {
+    const { store, finishLoading } = createControlledStore(['a']);
+    act(() => {
+      root = renderer.create(<Letters store={store} />);
+    });
+
+    act(() => state[1](['z']));
+    await finishLoading();
+
+    expect(state[0]).toEqual(['z']);
+    expect(store.save).toHaveBeenLastCalledWith(['z']);
+  });
+
+  it('merges changes made while loading with the stored value', async () => {
+    const { store, finishLoading } = createControlledStore(['a']);
+    act(() => {
+      root = renderer.create(<Letters store={store} merge={(current, stored) => [...current, ...stored]} />);
+    });
+
+    act(() => state[1](['z']));
+    await finishLoading();
+
+    expect(state[0]).toEqual(['z', 'a']);
+    expect(store.save).toHaveBeenLastCalledWith(['z', 'a']);
+  });
+
+  it('finishes loading when the store cannot be read', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store: VersionedStore<string[]> = {
+      name: 'letters',
+      load: () => Promise.reject(new Error('disk full')),
+      save: jest.fn(async () => {}),
+    };
+    await act(async () => {
+      root = renderer.create(<Letters store={store} />);
+    });
+
+    expect(state[0]).toEqual([]);
+    expect(state[2]).toBe(true);
+    expect(console.warn).toHaveBeenCalledWith('[Storage] Could not load letters:', expect.any(Error));
+  });
+});
@@ -0,0 +1,81 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+
+import { RECORDING_SAVE_INTERVAL_MS } from '@/utils/walks';
+import { createZoneIndex } from '@/utils/spatialIndex';
+import { Walks, WalksProvider, useWalks } from '../useWalks';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const locationAt = (timestamp: number, lat: number): Location.LocationObject => ({
+  timestamp,
+  coords: { latitude: lat, longitude: 5.38, accuracy: 5, altitude: null, altitudeAccuracy: null, heading: null, speed: null },
+});
+
+// The provider's value as the last render saw it
+let walks: Walks;
+function Consumer() {
+  walks = useWalks();
+  return null;
+}
+
+describe('WalksProvider', () => {
+  let root: renderer.ReactTestRenderer;
+  let now: number;
+
+  // Mounts the provider as on a launch, and lets it load what is stored
+  const launch = async () => {
+    await act(async () => {
+      root = renderer.create(<WalksProvider><Consumer /></WalksProvider>);
+    });
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    jest.restoreAllMocks();
+  });
+
+  it('saves the recording as it grows, at most once per interval, and restores it on the next launch', async () => {
+    await launch();
+    await act(async () => walks.startRecording());
+    await act(async () => {
+      walks.recordLocation(locationAt(now + 1000, 52.15));
+      walks.recordLocation(locationAt(now + 2000, 52.1501)); // Too soon after the start to save
+    });
+    now += RECORDING_SAVE_INTERVAL_MS;
+    await act(async () => walks.recordLocation(locationAt(now, 52.1502)));
+    await act(async () => walks.recordLocation(locationAt(now + 1000, 52.1503))); // Lost with the app
+    expect(walks.recording!.points).toHaveLength(4);
+
+    act(() => root.unmount());
+    await launch();
+
+    expect(walks.recording!.points.map(point => point.lat)).toEqual([52.15, 52.1501, 52.1502]);
+  });
+
+  it('forgets the recording once it is stopped', async () => {
+    await launch();
+    await act(async () => walks.startRecording());
+    await act(async () => {
+      walks.recordLocation(locationAt(now + 1000, 52.15));
+      walks.recordLocation(locationAt(now + 2000, 52.1501));
+    });
+    await act(async () => walks.stopRecording(createZoneIndex([])));
+
+    act(() => root.unmount());
+    await launch();
+
+    expect(walks.recording).toBeNull();
+    expect(walks.walks.map(walk => walk.points.length)).toEqual([2]);
+  });
+});
@@ -0,0 +1,133 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ZoneData, ZoneDataProvider, useZoneData } from '../useZoneData';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('@/utils/fileStorage', () => {
+  const mockContents = new Map<string, string>();
+  return {
+    createDocumentFileStorage: () => ({
+      readFile: async (name: string) => mockContents.get(name) ?? null,
+      writeFile: async (name: string, content: string) => {
+        mockContents.set(name, content);
+      },
+      deleteFile: async (name: string) => {
+        mockContents.delete(name);
+      },
+    }),
+  };
+});
+// Amersfoort plus a dataset east of it that has no bundled asset, so it has to be downloaded
+jest.mock('@/constants/Datasets', () => {
+  const { AMERSFOORT_DATASET } = jest.requireActual('@/constants/Datasets');
+  const mockDownloaded = {
+    ...AMERSFOORT_DATASET,
+    id: 'downloaded',
+    name: 'Downloaded',
+    sourceUrl: 'https://example.com/downloaded.json',
+    region: { ...AMERSFOORT_DATASET.region, longitude: 6.0 },
+    bounds: [5.9, 52.1, 6.1, 52.2],
+    bundledAsset: null,
+  };
+  return { AMERSFOORT_DATASET, DATASETS: [AMERSFOORT_DATASET, mockDownloaded], DEFAULT_DATASET: AMERSFOORT_DATASET };
+});
+
+const downloadedData = {
+  type: 'FeatureCollection',
+  features: [{
+    type: 'Feature',
+    id: 'd.1',
+    properties: { CODE: 'GROEN', WIJKNAAM: 'Oost', GEBIEDSTEAM: null, OPPERVLAKTE: '1000', ID: 1 },
+    geometry: { type: 'Polygon', coordinates: [[[6.0, 52.15], [6.001, 52.15], [6.001, 52.151], [6.0, 52.15]]] },
+  }],
+};
+
+// The provider's value as the last render saw it
+let zoneData: ZoneData;
+function Consumer() {
+  zoneData = useZoneData();
+  return null;
+}
+
+describe('ZoneDataProvider', () => {
+  const realFetch = global.fetch;
+  let root: renderer.ReactTestRenderer;
+  let fetchMock: jest.Mock;
+
+  // Mounts the provider as on a launch, and lets it load the zones
+  const launch = async () => {
+    await act(async () => {
+      root = renderer.create(<ZoneDataProvider><Consumer /></ZoneDataProvider>);
+    });
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    fetchMock = jest.fn(async () => {
+      throw new Error('Network request failed');
+    });
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    global.fetch = realFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the previous dataset shown when the next one fails to download', async () => {
+    await launch();
+    expect(zoneData.dataset.id).toBe('amersfoort');
+    const amersfoortZones = zoneData.zones;
+
+    await act(async () => zoneData.selectDataset('downloaded'));
+
+    expect(zoneData.loading).toBe(false);
+    expect(zoneData.dataset.id).toBe('amersfoort');
+    expect(zoneData.zones).toBe(amersfoortZones);
+    expect(zoneData.datasetChoice).toBe('downloaded');
+    expect(zoneData.error).toBe('Could not load the Downloaded dog map: Network request failed');
+  });
+
+  it('shows the default dataset when the picked one fails to download on launch', async () => {
+    await AsyncStorage.setItem('datasetChoice', JSON.stringify({ formatVersion: 1, datasetId: 'downloaded' }));
+    await launch();
+
+    expect(zoneData.loading).toBe(false);
+    expect(zoneData.dataset.id).toBe('amersfoort');
+    expect(zoneData.zones.length).toBeGreaterThan(0);
+    expect(zoneData.error).toBe('Could not load the Downloaded dog map: Network request failed');
+  });
+
+  it('shows the dataset once a retry downloads it', async () => {
+    await launch();
+    await act(async () => zoneData.selectDataset('downloaded'));
+    fetchMock.mockImplementation(async () => ({ ok: true, status: 200, json: async () => downloadedData }));
+
+    await act(async () => zoneData.retry());
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(zoneData.dataset.id).toBe('downloaded');
+    expect(zoneData.zones.map(zone => zone.sourceId)).toEqual(['d.1']);
+    expect(zoneData.error).toBeNull();
+  });
+
+  it('does not pick a failed dataset by location again until retried', async () => {
+    await launch();
+    await act(async () => zoneData.locateDataset(52.15, 6.0));
+    expect(zoneData.error).not.toBeNull();
+
+    await act(async () => zoneData.locateDataset(52.15, 5.38)); // Back in Amersfoort
+    expect(zoneData.error).toBeNull();
+    await act(async () => zoneData.locateDataset(52.15, 6.0));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(zoneData.dataset.id).toBe('amersfoort');
+    expect(zoneData.error).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import React, { createContext, PropsWithChildren, useCallback, useContext, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { usePersistedState } from '@/hooks/usePersistedState';
+import { ProcessedZone } from '@/types';
+import { createFavouritesStore, isFavouriteZone, toggleFavouriteZone } from '@/utils/favourites';
+
+const favouritesStore = createFavouritesStore(AsyncStorage);
+
+export interface Favourites {
+  favouriteIds: string[]; // Source feature IDs, oldest first
+  isFavourite: (zone: ProcessedZone) => boolean;
+  toggleFavourite: (zone: ProcessedZone) => void;
+}
+
+const FavouritesContext = createContext<Favourites | null>(null);
+
+/**
+ * Loads the favourite zones kept on the device and saves every change,
+ * sharing them between the map and the zone detail screen.
+ */
+export function FavouritesProvider({ children }: PropsWithChildren) {
+  // A star tapped while loading wins over the stored list
+  const [favouriteIds, setFavouriteIds] = usePersistedState(favouritesStore, []);
+
+  const toggleFavourite = useCallback((zone: ProcessedZone) => {
+    setFavouriteIds(current => toggleFavouriteZone(current, zone));
+  }, []);
+
+  const isFavourite = useCallback((zone: ProcessedZone) => isFavouriteZone(favouriteIds, zone), [favouriteIds]);
+
+  const favourites = useMemo(
+    () => ({ favouriteIds, isFavourite, toggleFavourite }),
+    [favouriteIds, isFavourite, toggleFavourite]
+  );
+  return <FavouritesContext.Provider value={favourites}>{children}</FavouritesContext.Provider>;
+}
+
+/**
+ * The favourite zones of the surrounding FavouritesProvider.
+ */
+export function useFavourites(): Favourites {
+  const favourites = useContext(FavouritesContext);
+  if (!favourites) {
+    throw new Error('useFavourites must be used inside a FavouritesProvider');
+  }
+  return favourites;
+}
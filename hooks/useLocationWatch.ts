@@ -0,0 +1,59 @@
+import { useEffect, useRef } from 'react';
+import * as Location from 'expo-location';
+
+// Walking pace: a fix every few metres, at most every couple of seconds
+const WATCH_OPTIONS: Location.LocationOptions = {
+  accuracy: Location.Accuracy.High,
+  distanceInterval: 5, // m
+  timeInterval: 2000, // ms, Android only
+};
+
+/**
+ * Follows the device location while `enabled`, calling `onLocation` with every fix.
+ * `onError` is called when permission is denied or the subscription fails.
+ */
+export function useLocationWatch(
+  enabled: boolean,
+  onLocation: (location: Location.LocationObject) => void,
+  onError?: (message: string) => void
+) {
+  // Latest callbacks, so a rerender doesn't restart the subscription
+  const onLocationRef = useRef(onLocation);
+  const onErrorRef = useRef(onError);
+  onLocationRef.current = onLocation;
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          onErrorRef.current?.('Permission denied');
+          return;
+        }
+        const watch = await Location.watchPositionAsync(WATCH_OPTIONS, location => onLocationRef.current(location));
+        if (cancelled) {
+          watch.remove(); // Disabled while subscribing
+        } else {
+          subscription = watch;
+          console.log('[Location] Watching position.');
+        }
+      } catch (error) {
+        console.error('[Location] Watch failed:', error);
+        onErrorRef.current?.('Error getting location');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      if (subscription) {
+        subscription.remove();
+        console.log('[Location] Stopped watching position.');
+      }
+    };
+  }, [enabled]);
+}
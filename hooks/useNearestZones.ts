@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { ProcessedZone } from '@/types';
+import { DistanceService } from '@/utils/distanceService';
+import { ZoneIndex } from '@/utils/spatialIndex';
+
+/**
+ * The `count` zones nearest to the location with their distances, nearest first; `include` leaves zones out.
+ * Worked out while rendering rather than in an effect, so a new location means one recompute and one render.
+ */
+export function useNearestZones(
+  location: { lat: number; lng: number } | null,
+  zoneIndex: ZoneIndex,
+  distances: DistanceService,
+  count: number,
+  include?: (zone: ProcessedZone) => boolean
+): ProcessedZone[] {
+  return useMemo(() => {
+    if (!location) return [];
+    const { lat, lng } = location;
+    console.log("[Nearest] Calculating distances for nearest zones only...");
+    return zoneIndex
+      .nearest(lat, lng, count, include)
+      .map(({ zone }) => ({ ...zone, ...distances.measure(zone, lat, lng) }));
+  }, [location, zoneIndex, distances, count, include]);
+}
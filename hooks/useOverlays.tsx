@@ -0,0 +1,79 @@
+import React, { createContext, PropsWithChildren, useCallback, useContext, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { usePersistedState } from '@/hooks/usePersistedState';
+import { GeoJsonData, ProcessedZone } from '@/types';
+import { createDocumentFileStorage } from '@/utils/fileStorage';
+import { createOverlayStore, OverlayLayer } from '@/utils/overlays';
+import { processZoneData, ProcessedZoneData } from '@/utils/zones';
+
+const overlayStore = createOverlayStore(AsyncStorage, createDocumentFileStorage());
+
+// Processed zones per layer data, so toggling a layer doesn't process the others again
+const processedOverlays = new WeakMap<GeoJsonData, ProcessedZoneData>();
+
+const processOverlay = (data: GeoJsonData): ProcessedZoneData => {
+  let processed = processedOverlays.get(data);
+  if (!processed) {
+    processed = processZoneData(data);
+    processedOverlays.set(data, processed);
+  }
+  return processed;
+};
+
+export interface Overlays {
+  layers: OverlayLayer[]; // Oldest first
+  zones: ProcessedZone[]; // Dog zones of the visible layers
+  forbiddenZones: ProcessedZone[]; // Forbidden zones of the visible layers
+  addLayer: (layer: OverlayLayer) => void;
+  setLayerVisible: (id: string, visible: boolean) => void;
+  removeLayer: (id: string) => void;
+}
+
+const OverlaysContext = createContext<Overlays | null>(null);
+
+/**
+ * Keeps imported overlay layers on the device and processes the visible ones
+ * like the main dataset, sharing them between the map and the overlay list.
+ */
+export function OverlaysProvider({ children }: PropsWithChildren) {
+  // A layer imported while loading is kept after the stored ones
+  const [layers, setLayers] = usePersistedState(overlayStore, [], (current, stored) => [...stored, ...current]);
+
+  const { zones, forbiddenZones } = useMemo(() => {
+    const processed = layers.filter(layer => layer.visible).map(layer => processOverlay(layer.data));
+    return {
+      zones: processed.flatMap(layer => layer.zones),
+      forbiddenZones: processed.flatMap(layer => layer.forbiddenZones),
+    };
+  }, [layers]);
+
+  const addLayer = useCallback((layer: OverlayLayer) => {
+    console.log(`[Overlays] Added "${layer.name}" with ${layer.data.features.length} features.`);
+    setLayers(current => [...current, layer]);
+  }, []);
+
+  const setLayerVisible = useCallback((id: string, visible: boolean) => {
+    setLayers(current => current.map(layer => (layer.id === id ? { ...layer, visible } : layer)));
+  }, []);
+
+  const removeLayer = useCallback((id: string) => {
+    setLayers(current => current.filter(layer => layer.id !== id));
+  }, []);
+
+  const value = useMemo(
+    () => ({ layers, zones, forbiddenZones, addLayer, setLayerVisible, removeLayer }),
+    [layers, zones, forbiddenZones, addLayer, setLayerVisible, removeLayer]
+  );
+  return <OverlaysContext.Provider value={value}>{children}</OverlaysContext.Provider>;
+}
+
+/**
+ * The overlay layers of the surrounding OverlaysProvider.
+ */
+export function useOverlays(): Overlays {
+  const overlays = useContext(OverlaysContext);
+  if (!overlays) {
+    throw new Error('useOverlays must be used inside an OverlaysProvider');
+  }
+  return overlays;
+}
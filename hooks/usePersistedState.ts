@@ -0,0 +1,44 @@
+import { SetStateAction, useCallback, useEffect, useRef, useState } from 'react';
+import { VersionedStore } from '@/utils/storage';
+
+/**
+ * State kept in a store: loaded once on mount, then saved whenever it is changed through
+ * the returned setter - never right after loading. `merge` combines the loaded value with
+ * changes made while loading; without it, those changes win. The third element turns true
+ * once loading has finished, or failed.
+ */
+export function usePersistedState<T>(
+  store: VersionedStore<T>,
+  initial: T,
+  merge?: (current: T, stored: T) => T
+): [T, (update: SetStateAction<T>) => void, boolean] {
+  const [value, setValue] = useState<T>(initial);
+  const [loaded, setLoaded] = useState(false);
+  const changed = useRef(false); // Set once the value is changed through the setter
+
+  useEffect(() => {
+    store.load()
+      .then(stored => {
+        if (merge) {
+          setValue(current => merge(current, stored));
+        } else if (!changed.current) {
+          setValue(stored);
+        }
+        console.log(`[Storage] Loaded ${store.name}.`);
+      })
+      .catch(error => console.warn(`[Storage] Could not load ${store.name}:`, error))
+      .finally(() => setLoaded(true));
+  }, [store]);
+
+  useEffect(() => {
+    if (!changed.current) return;
+    store.save(value).catch(error => console.warn(`[Storage] Could not save ${store.name}:`, error));
+  }, [store, value]);
+
+  const update = useCallback((action: SetStateAction<T>) => {
+    changed.current = true;
+    setValue(action);
+  }, []);
+
+  return [value, update, loaded];
+}
@@ -0,0 +1,126 @@
+import React, { createContext, PropsWithChildren, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { usePersistedState } from '@/hooks/usePersistedState';
+import { TrackPoint, Walk } from '@/types';
+import { ZoneIndex } from '@/utils/spatialIndex';
+import {
+  createWalkStore,
+  MAX_STORED_WALKS,
+  RECORDING_SAVE_INTERVAL_MS,
+  SavedWalk,
+  shouldRecordPoint,
+  summarizeWalk,
+} from '@/utils/walks';
+
+const walkStore = createWalkStore(AsyncStorage);
+
+export interface Walks {
+  walks: SavedWalk[]; // Newest first
+  recording: Walk | null; // The walk being recorded; after a restart, the one recorded when the app was closed
+  startRecording: () => void;
+  recordLocation: (location: Location.LocationObject) => void;
+  /** Summarises the recording against the indexed zones and saves it; walks with fewer than two fixes are dropped. */
+  stopRecording: (zoneIndex: ZoneIndex) => void;
+  deleteWalk: (id: string) => void;
+}
+
+const WalksContext = createContext<Walks | null>(null);
+
+/**
+ * Records walks in walk mode and keeps them on the device,
+ * sharing them between the map and the walks list. The walk being recorded is saved
+ * as it grows and restored on the next launch, for the map to resume or stop it.
+ */
+export function WalksProvider({ children }: PropsWithChildren) {
+  // A walk finished while loading is kept on top of the stored ones
+  const [walks, setWalks] = usePersistedState(
+    walkStore.walks,
+    [],
+    (current, stored) => [...current, ...stored].slice(0, MAX_STORED_WALKS)
+  );
+  const [recording, setRecording] = useState<Walk | null>(null);
+  const recordingRef = useRef<Walk | null>(null); // Latest recording, for the callbacks
+  const recordingSavedAt = useRef(0); // When the walk being recorded was last saved
+
+  // The recording is saved as it grows rather than on every change, so it is kept apart
+  useEffect(() => {
+    walkStore.recording.load()
+      .then(walk => {
+        // A recording started while loading wins over the restored one
+        if (!walk || recordingRef.current) return;
+        console.log(`[Walks] Restored a recording of ${walk.points.length} points.`);
+        updateRecording(walk);
+      })
+      .catch(error => console.warn('[Walks] Could not load the recording:', error));
+  }, []);
+
+  const updateRecording = (walk: Walk | null) => {
+    recordingRef.current = walk;
+    setRecording(walk);
+  };
+
+  const saveRecording = (walk: Walk | null) => {
+    recordingSavedAt.current = Date.now();
+    walkStore.recording.save(walk).catch(error => console.warn('[Walks] Could not save the recording:', error));
+  };
+
+  const startRecording = useCallback(() => {
+    const now = Date.now();
+    console.log('[Walks] Recording started.');
+    const walk: Walk = { id: `walk_${now}`, startedAt: now, endedAt: now, points: [] };
+    updateRecording(walk);
+    saveRecording(walk);
+  }, []);
+
+  const recordLocation = useCallback((location: Location.LocationObject) => {
+    const walk = recordingRef.current;
+    if (!walk) return;
+    const point: TrackPoint = {
+      timestamp: location.timestamp,
+      lat: location.coords.latitude,
+      lng: location.coords.longitude,
+      accuracy: location.coords.accuracy,
+    };
+    if (!shouldRecordPoint(point, walk.points[walk.points.length - 1])) return;
+    const updated = { ...walk, endedAt: point.timestamp, points: [...walk.points, point] };
+    updateRecording(updated);
+    // Throttled: a closed app loses at most the last few fixes
+    if (Date.now() - recordingSavedAt.current >= RECORDING_SAVE_INTERVAL_MS) saveRecording(updated);
+  }, []);
+
+  const stopRecording = useCallback((zoneIndex: ZoneIndex) => {
+    const walk = recordingRef.current;
+    updateRecording(null);
+    if (!walk) return;
+    saveRecording(null);
+    if (walk.points.length < 2) {
+      console.log('[Walks] Recording stopped without a track; not saved.');
+      return;
+    }
+    const saved: SavedWalk = { ...walk, summary: summarizeWalk(walk, zoneIndex) };
+    console.log(`[Walks] Recording stopped: ${walk.points.length} points saved.`);
+    setWalks(current => [saved, ...current].slice(0, MAX_STORED_WALKS));
+  }, []);
+
+  const deleteWalk = useCallback((id: string) => {
+    setWalks(current => current.filter(walk => walk.id !== id));
+  }, []);
+
+  const value = useMemo(
+    () => ({ walks, recording, startRecording, recordLocation, stopRecording, deleteWalk }),
+    [walks, recording, startRecording, recordLocation, stopRecording, deleteWalk]
+  );
+  return <WalksContext.Provider value={value}>{children}</WalksContext.Provider>;
+}
+
+/**
+ * The walks of the surrounding WalksProvider.
+ */
+export function useWalks(): Walks {
+  const walks = useContext(WalksContext);
+  if (!walks) {
+    throw new Error('useWalks must be used inside a WalksProvider');
+  }
+  return walks;
+}
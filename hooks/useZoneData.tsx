@@ -0,0 +1,205 @@
+import React, { createContext, PropsWithChildren, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DATASETS, DEFAULT_DATASET } from '@/constants/Datasets';
+import { usePersistedState } from '@/hooks/usePersistedState';
+import { ProcessedZone } from '@/types';
+import { createDatasetChoiceStore, DatasetDescriptor, findDatasetAt } from '@/utils/datasets';
+import { createDocumentFileStorage } from '@/utils/fileStorage';
+import { parseZoneAsset } from '@/utils/zoneAsset';
+import { createZoneDataSource, isNewerVersion, ZoneDataOrigin, ZoneDataSnapshot, ZoneDataSource } from '@/utils/zoneDataSource';
+import { processZoneData } from '@/utils/zones';
+
+const datasetChoiceStore = createDatasetChoiceStore(AsyncStorage);
+
+// Downloaded zone data, cached on the device per dataset
+const zoneDataFiles = createDocumentFileStorage();
+const zoneDataSources = new Map<string, ZoneDataSource>();
+
+const getZoneDataSource = (dataset: DatasetDescriptor): ZoneDataSource => {
+  let source = zoneDataSources.get(dataset.id);
+  if (!source) {
+    source = createZoneDataSource({ storage: AsyncStorage, files: zoneDataFiles, dataset });
+    zoneDataSources.set(dataset.id, source);
+  }
+  return source;
+};
+
+// Stable empty list, so effects depending on the zones don't rerun while loading
+const EMPTY_ZONES: ProcessedZone[] = [];
+
+interface LoadedZoneData {
+  datasetId: string;
+  zones: ProcessedZone[];
+  forbiddenZones: ProcessedZone[];
+  origin: ZoneDataOrigin;
+  version: string; // Dataset timestamp (ISO 8601)
+  fetchedAt: string | null; // When the data was downloaded, null for the bundled asset
+}
+
+// A dataset that could not be loaded
+interface ZoneDataFailure {
+  datasetId: string;
+  message: string;
+}
+
+export interface ZoneData {
+  dataset: DatasetDescriptor; // The dataset shown; the previous one while the wanted one fails to load
+  datasetChoice: string | null; // Dataset ID picked by the user, null when picked by location
+  selectDataset: (datasetId: string | null) => void; // null picks the dataset by location again
+  locateDataset: (lat: number, lng: number) => void; // Switches to the dataset covering the location, unless the user picked one
+  zones: ProcessedZone[];
+  forbiddenZones: ProcessedZone[];
+  origin: ZoneDataOrigin | null;
+  version: string | null;
+  loading: boolean;
+  error: string | null; // Why the wanted dataset could not be loaded
+  retry: () => void; // Loads the dataset that failed again
+  updating: boolean;
+  update: () => Promise<void>; // Rejects when the download is unusable
+}
+
+const ZoneDataContext = createContext<ZoneData | null>(null);
+
+const processSnapshot = (datasetId: string, { data, origin, version, fetchedAt }: ZoneDataSnapshot): LoadedZoneData =>
+  ({ datasetId, ...processZoneData(data), origin, version, fetchedAt });
+
+/**
+ * The newest zone data of a dataset on the device - its bundled asset or the last download,
+ * which is processed on the fly. Datasets without either are downloaded.
+ */
+async function loadDataset(dataset: DatasetDescriptor): Promise<LoadedZoneData> {
+  const source = getZoneDataSource(dataset);
+  const asset = dataset.bundledAsset !== null ? parseZoneAsset(dataset.bundledAsset) : null;
+  const cached = await source.loadCached();
+  if (cached && (!asset || isNewerVersion(cached.version, asset.version))) {
+    console.log(`[ZoneData] Using cached ${dataset.name} data, version ${cached.version}.`);
+    return processSnapshot(dataset.id, cached);
+  }
+  if (!asset) {
+    console.log(`[ZoneData] No ${dataset.name} data on the device yet, downloading.`);
+    return processSnapshot(dataset.id, await source.refresh());
+  }
+  console.log(`[ZoneData] Using bundled ${dataset.name} zones, version ${asset.version}.`);
+  const { zones, forbiddenZones, version } = asset;
+  return { datasetId: dataset.id, zones, forbiddenZones, origin: 'bundled', version, fetchedAt: null };
+}
+
+/**
+ * Shows the dataset the user picked, else the one covering their location, loads its zones
+ * and downloads updates on demand. When a dataset fails to load, the previous one stays
+ * shown - or the default one, when there is none - until the user retries or picks another.
+ */
+function useLoadedZoneData(): ZoneData {
+  const [datasetChoice, setDatasetChoice, choiceLoaded] = usePersistedState(datasetChoiceStore, null);
+  const [locatedDatasetId, setLocatedDatasetId] = useState<string | null>(null);
+  const [current, setCurrent] = useState<LoadedZoneData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [failure, setFailure] = useState<ZoneDataFailure | null>(null);
+  const [attempt, setAttempt] = useState(0); // Bumped to load the failed dataset again
+  const failedDatasetIds = useRef(new Set<string>()); // Not picked by location again until retried
+  const [updating, setUpdating] = useState(false);
+
+  const wanted = useMemo(
+    () => DATASETS.find(descriptor => descriptor.id === (datasetChoice ?? locatedDatasetId)) ?? DEFAULT_DATASET,
+    [datasetChoice, locatedDatasetId]
+  );
+
+  // Loads once the stored choice is known, so a picked dataset isn't preceded by the default
+  useEffect(() => {
+    if (!choiceLoaded) return;
+    let isMounted = true;
+    const hadZones = current !== null; // As of the switch to this dataset
+    setLoading(true);
+    loadDataset(wanted)
+      .then(loaded => {
+        console.log(`[ZoneData] Loaded ${loaded.zones.length} zones, ${loaded.forbiddenZones.length} forbidden zones.`);
+        if (!isMounted) return;
+        failedDatasetIds.current.delete(wanted.id);
+        setFailure(previous => (previous?.datasetId === wanted.id ? null : previous));
+        setCurrent(loaded);
+      })
+      .catch(async e => {
+        console.error(`[ZoneData] Failed to load ${wanted.name} zone data:`, e);
+        if (!isMounted) return;
+        failedDatasetIds.current.add(wanted.id);
+        setFailure({ datasetId: wanted.id, message: e instanceof Error ? e.message : 'Unknown error occurred' });
+        if (hadZones || wanted.id === DEFAULT_DATASET.id) return;
+        const fallback = await loadDataset(DEFAULT_DATASET);
+        if (isMounted) setCurrent(fallback);
+      })
+      .catch(e => console.error('[ZoneData] Failed to load the default zone data:', e))
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => { isMounted = false; };
+  }, [choiceLoaded, wanted, attempt]);
+
+  // Zones of a previous dataset are never shown while the next one loads, only once it failed
+  const failed = failure?.datasetId === wanted.id ? failure : null;
+  const shown = current?.datasetId === wanted.id || failed ? current : null;
+  const dataset = shown ? DATASETS.find(descriptor => descriptor.id === shown.datasetId) ?? wanted : wanted;
+
+  const selectDataset = useCallback((datasetId: string | null) => {
+    console.log(`[ZoneData] Dataset ${datasetId ? `set to ${datasetId}` : 'picked by location'}.`);
+    setDatasetChoice(datasetId);
+  }, []);
+
+  const locateDataset = useCallback((lat: number, lng: number) => {
+    const located = findDatasetAt(DATASETS, lat, lng);
+    // Outside every dataset the last one located stays, rather than jumping back to the default
+    if (located && !failedDatasetIds.current.has(located.id)) setLocatedDatasetId(located.id);
+  }, []);
+
+  const retry = useCallback(() => {
+    if (failure) failedDatasetIds.current.delete(failure.datasetId);
+    setFailure(null);
+    setAttempt(count => count + 1);
+  }, [failure]);
+
+  const update = useCallback(async (): Promise<void> => {
+    setUpdating(true);
+    try {
+      const loaded = processSnapshot(dataset.id, await getZoneDataSource(dataset).refresh());
+      setCurrent(loaded);
+      console.log(`[ZoneData] Updated ${dataset.name} to version ${loaded.version}: ${loaded.zones.length} zones.`);
+    } finally {
+      setUpdating(false);
+    }
+  }, [dataset]);
+
+  return useMemo(() => ({
+    dataset,
+    datasetChoice,
+    selectDataset,
+    locateDataset,
+    zones: shown?.zones ?? EMPTY_ZONES,
+    forbiddenZones: shown?.forbiddenZones ?? EMPTY_ZONES,
+    origin: shown?.origin ?? null,
+    version: shown?.version ?? null,
+    loading,
+    error: failed && `Could not load the ${wanted.name} dog map: ${failed.message}`,
+    retry,
+    updating,
+    update,
+  }), [dataset, datasetChoice, selectDataset, locateDataset, shown, loading, failed, wanted, retry, updating, update]);
+}
+
+/**
+ * Loads the zone data once and shares it with every screen, so opening a
+ * zone detail doesn't process the data again.
+ */
+export function ZoneDataProvider({ children }: PropsWithChildren) {
+  const zoneData = useLoadedZoneData();
+  return <ZoneDataContext.Provider value={zoneData}>{children}</ZoneDataContext.Provider>;
+}
+
+/**
+ * The zone data loaded by the surrounding ZoneDataProvider.
+ */
+export function useZoneData(): ZoneData {
+  const zoneData = useContext(ZoneDataContext);
+  if (!zoneData) {
+    throw new Error('useZoneData must be used inside a ZoneDataProvider');
+  }
+  return zoneData;
+}
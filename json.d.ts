@@ -1,12 +1,11 @@
 // Tell TypeScript that importing .json files is okay and what shape they have
 declare module "*.json" {
-  const value: any; // Use a more specific type if possible, e.g., GeoJsonData
+  const value: unknown; // Validate before use, e.g. with parseGeoJsonData from utils/validateGeoJson
   export default value;
 }
 
-// Specific declaration for our filtered dog zones data
-declare module "@/assets/data/amersfoort-hondenkaart-filtered.json" {
-  import { GeoJsonData } from '@/types';
-  const value: GeoJsonData;
+// The precomputed zone asset is untyped until it passes parseZoneAsset
+declare module "@/assets/data/amersfoort-zones.json" {
+  const value: unknown;
   export default value;
 } 
\ No newline at end of file
@@ -0,0 +1,176 @@
+/**
+ * Build-time tooling for the dog zone data. Run with `npm run zones -- <command>`:
+ *
+ *   build [--input file] [--output file] [--tolerance degrees]   Precompute the zone asset bundled with the app
+ *   stats [--input file] [--top n] [--code CODE ...]             Counts and areas by CODE, WIJKNAAM and GEBIEDSTEAM
+ *   diff <old file> <new file>                                   Compare two versions of the dataset
+ *
+ * Every command takes --dataset <id> (default amersfoort) to read another municipality's schema.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { DATASETS, DEFAULT_DATASET } from '@/constants/Datasets';
+import { GeoJsonData } from '@/types';
+import { DatasetDiff, DatasetStats, diffDatasets, getDatasetStats, GroupStats } from '@/utils/datasetReport';
+import { DatasetDescriptor, normalizeDataset } from '@/utils/datasets';
+import { parseGeoJsonData } from '@/utils/validateGeoJson';
+import { buildZoneAsset, DEFAULT_SIMPLIFY_TOLERANCE } from '@/utils/zoneAsset';
+
+const root = path.join(__dirname, '..');
+const DEFAULT_INPUT = path.join(root, 'assets', 'data', 'amersfoort-hondenkaart.json');
+const DEFAULT_OUTPUT = path.join(root, 'assets', 'data', 'amersfoort-zones.json');
+
+const USAGE = `Usage: npm run zones -- <command> [options]
+
+Commands:
+  build [--input file] [--output file] [--tolerance degrees]
+      Validate the dataset and write the precomputed zone asset (default ${path.relative(root, DEFAULT_OUTPUT)})
+  stats [--input file] [--top n] [--code CODE ...]
+      Report counts and areas by CODE, WIJKNAAM and GEBIEDSTEAM, and the largest zones per code
+  diff <old file> <new file>
+      List added, removed and changed features between two dataset versions
+
+--input defaults to ${path.relative(root, DEFAULT_INPUT)}
+--dataset <id> reads the files in that dataset's schema: ${DATASETS.map(dataset => dataset.id).join(', ')} (default ${DEFAULT_DATASET.id})`;
+
+const DATASET_OPTION = { type: 'string', default: DEFAULT_DATASET.id } as const;
+
+function getDataset(id: string): DatasetDescriptor {
+  const dataset = DATASETS.find(descriptor => descriptor.id === id);
+  if (!dataset) {
+    throw new Error(`Unknown dataset "${id}", expected one of ${DATASETS.map(descriptor => descriptor.id).join(', ')}`);
+  }
+  return dataset;
+}
+
+function readDataset(file: string, dataset: DatasetDescriptor): GeoJsonData {
+  console.log(`Reading ${path.relative(process.cwd(), file)} as ${dataset.name}`);
+  return parseGeoJsonData(normalizeDataset(JSON.parse(fs.readFileSync(file, 'utf8')), dataset));
+}
+
+const formatArea = (m2: number) => `${Math.round(m2).toLocaleString('en-US')} m²`;
+const formatSize = (bytes: number) => `${(bytes / 1024).toFixed(0)} KB`;
+
+function build(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      input: { type: 'string', default: DEFAULT_INPUT },
+      output: { type: 'string', default: DEFAULT_OUTPUT },
+      tolerance: { type: 'string', default: String(DEFAULT_SIMPLIFY_TOLERANCE) },
+      dataset: DATASET_OPTION,
+    },
+  });
+  const tolerance = Number(values.tolerance);
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    throw new Error(`--tolerance must be a non-negative number of degrees, got "${values.tolerance}"`);
+  }
+
+  const inputFile = path.resolve(values.input);
+  const outputFile = path.resolve(values.output);
+  const data = readDataset(inputFile, getDataset(values.dataset));
+
+  const asset = buildZoneAsset(data, { tolerance });
+  const json = JSON.stringify(asset);
+  fs.writeFileSync(outputFile, json);
+
+  console.log(`Built ${asset.zones.length} zones and ${asset.forbiddenZones.length} forbidden zones from ${asset.sourceFeatureCount} features (version ${asset.version}).`);
+  console.log(`Size: ${formatSize(fs.statSync(inputFile).size)} -> ${formatSize(Buffer.byteLength(json))}`);
+  console.log(`Written to ${path.relative(process.cwd(), outputFile)}`);
+}
+
+function printGroups(title: string, groups: Record<string, GroupStats>) {
+  console.log(`\n${title}`);
+  Object.entries(groups)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([name, group]) => {
+      const area = group.withArea > 0 ? `, ${formatArea(group.totalArea)} over ${group.withArea} with area` : '';
+      console.log(`  ${name}: ${group.count}${area}`);
+    });
+}
+
+function printStats(stats: DatasetStats) {
+  console.log(`Version ${stats.version ?? 'unknown'}, ${stats.featureCount} features`);
+  printGroups('By CODE', stats.byCode);
+  printGroups('By WIJKNAAM', stats.byWijknaam);
+  printGroups('By GEBIEDSTEAM', stats.byGebiedsteam);
+
+  Object.entries(stats.largestByCode).forEach(([code, zones]) => {
+    console.log(`\nLargest ${code} zones`);
+    if (zones.length === 0) console.log('  (none with a known area)');
+    zones.forEach((zone, i) => {
+      // Latitude, longitude order pastes straight into Google Maps
+      const position = zone.centroid ? `${zone.centroid.lat.toFixed(6)}, ${zone.centroid.lng.toFixed(6)}` : 'n/a';
+      console.log(`  ${i + 1}. ${zone.id} ${formatArea(zone.area)} in ${zone.WIJKNAAM ?? 'unknown'} (${position})`);
+    });
+  });
+}
+
+function stats(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      input: { type: 'string', default: DEFAULT_INPUT },
+      top: { type: 'string', default: '5' },
+      code: { type: 'string', multiple: true },
+      dataset: DATASET_OPTION,
+    },
+  });
+  const topN = parseInt(values.top, 10);
+  if (!(topN > 0)) {
+    throw new Error(`--top must be a positive number, got "${values.top}"`);
+  }
+
+  const data = readDataset(path.resolve(values.input), getDataset(values.dataset));
+  printStats(getDatasetStats(data, { topN, codes: values.code?.map(code => code.toUpperCase()) }));
+}
+
+function printDiff(diff: DatasetDiff) {
+  console.log(`Version ${diff.fromVersion ?? 'unknown'} -> ${diff.toVersion ?? 'unknown'}`);
+  console.log(`${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchangedCount} unchanged`);
+
+  console.log('\nBy CODE');
+  Object.entries(diff.countsByCode)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([code, { before, after }]) => {
+      const delta = after - before;
+      console.log(`  ${code}: ${before} -> ${after}${delta === 0 ? '' : ` (${delta > 0 ? '+' : ''}${delta})`}`);
+    });
+
+  diff.added.forEach(feature => console.log(`+ ${feature.id} ${feature.properties.CODE} ${feature.properties.WIJKNAAM ?? ''}`));
+  diff.removed.forEach(feature => console.log(`- ${feature.id} ${feature.properties.CODE} ${feature.properties.WIJKNAAM ?? ''}`));
+  diff.changed.forEach(change => console.log(`~ ${change.id} ${change.CODE}: ${change.changes.join(', ')}`));
+}
+
+function diff(args: string[]) {
+  const { values, positionals } = parseArgs({ args, allowPositionals: true, options: { dataset: DATASET_OPTION } });
+  if (positionals.length !== 2) {
+    throw new Error('diff needs exactly two files: <old file> <new file>');
+  }
+  const dataset = getDataset(values.dataset);
+  const [before, after] = positionals.map(file => readDataset(path.resolve(file), dataset));
+  printDiff(diffDatasets(before, after));
+}
+
+const commands: Record<string, (args: string[]) => void> = { build, stats, diff };
+
+function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const run = commands[command];
+  if (!run) {
+    console.error(command ? `Unknown command "${command}"\n` : '');
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  try {
+    run(args);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -7,12 +7,22 @@ export interface FeatureProperties {
   ID: number;
 }
 
-// Use a flexible Geometry type compatible with GeoJSON
-export interface Geometry {
-  type: string; // e.g., 'Polygon', 'MultiPolygon'
-  coordinates: any; // Coordinates structure depends on the type
+// A GeoJSON position: [longitude, latitude]
+export type Position = number[];
+
+// Zone geometries are always (multi)polygons; `type` discriminates the coordinate nesting
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: Position[][]; // Outer ring followed by holes
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: Position[][][]; // One Polygon coordinate list per part
 }
 
+export type Geometry = PolygonGeometry | MultiPolygonGeometry;
+
 // Define our Feature structure 
 export interface GeoJsonFeature {
   type: 'Feature';
@@ -48,12 +58,65 @@ export interface ZoneStyles {
   [key: string]: ZoneStyle; // Allow index signature for dynamic access
 }
 
+// An original dataset feature that was merged into a ProcessedZone
+export interface ZoneMember {
+    id: string; // Source feature ID, e.g. "Hondenkaart.188996"
+    WIJKNAAM: string | null;
+}
+
 // Modified ProcessedZone interface
 export interface ProcessedZone extends Omit<GeoJsonFeature, 'geometry_name'> { // Omit potentially problematic field
     geometry_name?: string; // Re-add as optional
+    sourceId: string; // ID of the source feature (first member for merged zones)
     zoneType: 'area' | 'point'; // Distinguish based on valid area
     centroid: { lat: number; lng: number }; // Centroid required
     area?: number; // Area optional (present for 'area' type)
     distance?: number; // Distance from user (calculated later)
+    memberIds?: ZoneMember[]; // Present on merged zones: every original feature in the group
+    boundaryDistance?: number; // Distance from user to the nearest edge, 0 when inside (calculated later)
     // properties is inherited from GeoJsonFeature
-} 
\ No newline at end of file
+} 
+// One GPS fix of a recorded walk
+export interface TrackPoint {
+    timestamp: number; // ms since epoch
+    lat: number;
+    lng: number;
+    accuracy: number | null; // m
+}
+
+// A walk recorded in walk mode
+export interface Walk {
+    id: string;
+    startedAt: number; // ms since epoch
+    endedAt: number;
+    points: TrackPoint[];
+}
+
+// A line drawn on the map, e.g. a walk track
+export interface MapTrack {
+    id: string;
+    coordinates: { lat: number; lng: number }[];
+}
+
+// Map view by centre and span, as react-native-maps takes it
+export interface MapRegion {
+    latitude: number;
+    longitude: number;
+    latitudeDelta: number;
+    longitudeDelta: number;
+}
+
+// Props of every map renderer behind components/MapDisplay: Google Maps or OpenStreetMap, on web and native
+export interface MapDisplayProps {
+    apiKey?: string; // Google Maps API key; without one the map shows OpenStreetMap tiles
+    initialRegion?: MapRegion; // Shown until the user's location is known
+    userLocation: { lat: number; lng: number; accuracy?: number | null } | null;
+    processedZones: ProcessedZone[];
+    forbiddenZones: ProcessedZone[]; // ROOD layer, drawn beneath the off-leash zones
+    onZoneSelect: (zone: ProcessedZone) => void;
+    selectedZoneId: string | null;
+    favouriteZoneIds?: Set<string>; // Zone IDs outlined in gold
+    tracks?: MapTrack[]; // Walk tracks drawn above the zones
+    centerTargetCoords: { lat: number; lng: number } | null;
+    getFeatureStyle: (feature: ProcessedZone, isSelected: boolean) => { fillColor: string; strokeColor: string; strokeWidth: number; zIndex?: number; opacity?: number };
+}
@@ -0,0 +1,105 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { getClusterStyle, zoneStyles } from '@/constants/ZoneStyles';
+import { ProcessedZone } from '@/types';
+import { CLUSTER_MAX_ZOOM, clusterZones, getClusterSize, getRegionZoom } from '../clusters';
+import { parseZoneAsset } from '../zoneAsset';
+
+const { zones, forbiddenZones } = parseZoneAsset(bundledZoneAsset);
+const pointZones = zones.filter(zone => zone.zoneType === 'point');
+
+const countShown = ({ clusters, singles }: ReturnType<typeof clusterZones>) =>
+  clusters.reduce((sum, cluster) => sum + cluster.zones.length, 0) + singles.length;
+
+// Zones a few metres apart, for clusters of known content
+const zoneAt = (id: string, code: string, lat: number, lng: number): ProcessedZone => ({
+  ...forbiddenZones[0],
+  id,
+  properties: { ...forbiddenZones[0].properties, CODE: code },
+  centroid: { lat, lng },
+});
+
+describe('clusterZones', () => {
+  it('draws the dense forbidden polygons as far fewer markers at city zoom', () => {
+    const grouped = clusterZones(forbiddenZones, 13);
+
+    expect(grouped.clusters.length + grouped.singles.length).toBeLessThan(forbiddenZones.length / 4);
+    expect(countShown(grouped)).toBe(forbiddenZones.length);
+    expect(grouped.clusters.every(cluster => cluster.zones.length >= 2)).toBe(true);
+  });
+
+  it('splits clusters up as the map zooms in, and none from CLUSTER_MAX_ZOOM', () => {
+    const markers = [11, 13, CLUSTER_MAX_ZOOM - 1].map(zoom => {
+      const grouped = clusterZones(forbiddenZones, zoom);
+      return grouped.clusters.length + grouped.singles.length;
+    });
+
+    expect(markers[0]).toBeLessThan(markers[1]);
+    expect(markers[1]).toBeLessThan(markers[2]);
+    expect(clusterZones(pointZones, CLUSTER_MAX_ZOOM)).toEqual({ clusters: [], singles: pointZones });
+  });
+
+  it('clusters the point zones at city zoom', () => {
+    const grouped = clusterZones(pointZones, 13);
+
+    expect(grouped.clusters.length).toBeGreaterThan(0);
+    expect(countShown(grouped)).toBe(pointZones.length);
+  });
+
+  it('never clusters the zones kept single, e.g. the selection', () => {
+    const [cluster] = clusterZones(forbiddenZones, 13).clusters;
+    const selected = cluster.zones[0];
+
+    const grouped = clusterZones(forbiddenZones, 13, zone => zone.id === selected.id);
+
+    expect(grouped.singles).toContain(selected);
+    expect(grouped.clusters.some(other => other.zones.includes(selected))).toBe(false);
+  });
+
+  it('keeps zones that are on their own in the order given', () => {
+    const { singles } = clusterZones(forbiddenZones, 13);
+
+    expect(singles).toEqual(forbiddenZones.filter(zone => singles.includes(zone)));
+  });
+
+  it('places a cluster at the mean of its zones and bounds them', () => {
+    const { clusters } = clusterZones([zoneAt('a', 'ROOD', 52.15, 5.38), zoneAt('b', 'ROOD', 52.1502, 5.3804)], 13);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].lat).toBeCloseTo(52.1501, 6);
+    expect(clusters[0].lng).toBeCloseTo(5.3802, 6);
+    expect(clusters[0].bounds).toEqual({ south: 52.15, west: 5.38, north: 52.1502, east: 5.3804 });
+  });
+
+  it('colours a cluster by its most common code, ties by the most restrictive', () => {
+    const mostlyGreen = [zoneAt('a', 'GROEN', 52.15, 5.38), zoneAt('b', 'GROEN', 52.1501, 5.38), zoneAt('c', 'ORANJE', 52.15, 5.3801)];
+    const tied = [zoneAt('a', 'GROEN', 52.15, 5.38), zoneAt('b', 'ROOD', 52.1501, 5.38)];
+
+    expect(clusterZones(mostlyGreen, 13).clusters[0].dominantCode).toBe('GROEN');
+    expect(clusterZones(tied, 13).clusters[0].dominantCode).toBe('ROOD');
+  });
+
+  it('gives a cluster the same ID at the same zoom', () => {
+    expect(clusterZones(forbiddenZones, 13).clusters.map(cluster => cluster.id))
+      .toEqual(clusterZones([...forbiddenZones], 13).clusters.map(cluster => cluster.id));
+  });
+});
+
+describe('cluster markers', () => {
+  it('grow with the number of zones', () => {
+    expect(getClusterSize(2)).toBeLessThan(getClusterSize(20));
+    expect(getClusterSize(20)).toBeLessThan(getClusterSize(200));
+  });
+
+  it('take the colours of the code, opaque enough to read', () => {
+    expect(getClusterStyle('ROOD')).toEqual({ fillColor: 'rgba(255, 0, 0, 0.8)', strokeColor: zoneStyles.ROOD.strokeColor });
+    expect(getClusterStyle('UNKNOWN').fillColor).toMatch(/^rgba\(128/);
+  });
+});
+
+describe('getRegionZoom', () => {
+  it('converts a native map span to a zoom level', () => {
+    expect(getRegionZoom(360, 256)).toBe(0);
+    expect(Math.floor(getRegionZoom(0.15, 400))).toBe(11);
+    expect(getRegionZoom(0.01, 400)).toBeCloseTo(getRegionZoom(0.02, 400) + 1, 10);
+  });
+});
@@ -0,0 +1,99 @@
+import dogZonesData from '@/assets/data/amersfoort-hondenkaart.json';
+import { GeoJsonData, GeoJsonFeature } from '@/types';
+import { diffDatasets, getDatasetStats, NO_VALUE_LABEL } from '../datasetReport';
+import { parseGeoJsonData } from '../validateGeoJson';
+
+const data = parseGeoJsonData(dogZonesData);
+
+const withFeatures = (features: GeoJsonFeature[], timeStamp = '2024-03-01T10:00:00.000Z'): GeoJsonData =>
+  ({ ...data, timeStamp, features } as GeoJsonData);
+
+describe('getDatasetStats', () => {
+  const stats = getDatasetStats(data, { topN: 3 });
+
+  it('counts features per CODE', () => {
+    expect(stats.featureCount).toBe(804);
+    expect(stats.version).toBe('2023-05-16T21:01:50.127Z');
+    expect(Object.fromEntries(Object.entries(stats.byCode).map(([code, group]) => [code, group.count]))).toEqual({
+      GROEN: 149,
+      ORANJE: 18,
+      ROOD: 634,
+      WATERSPEELPLEK: 3,
+    });
+  });
+
+  it('groups by WIJKNAAM and GEBIEDSTEAM, including features without one', () => {
+    const total = (groups: Record<string, { count: number }>) =>
+      Object.values(groups).reduce((sum, group) => sum + group.count, 0);
+
+    expect(total(stats.byWijknaam)).toBe(804);
+    expect(total(stats.byGebiedsteam)).toBe(804);
+    expect(Object.keys(stats.byGebiedsteam).sort()).toEqual([NO_VALUE_LABEL, 'Midden', 'Noord', 'Zuid']);
+  });
+
+  it('sums areas only over features with a known OPPERVLAKTE', () => {
+    const groen = stats.byCode.GROEN;
+
+    expect(groen.withArea).toBe(137);
+    expect(groen.totalArea).toBeGreaterThan(0);
+    expect(stats.byGebiedsteam.Noord.totalArea + stats.byGebiedsteam.Midden.totalArea + stats.byGebiedsteam.Zuid.totalArea
+      + (stats.byGebiedsteam[NO_VALUE_LABEL]?.totalArea ?? 0))
+      .toBeCloseTo(Object.values(stats.byCode).reduce((sum, group) => sum + group.totalArea, 0), 3);
+  });
+
+  it('ranks the largest zones of every code by area', () => {
+    expect(Object.keys(stats.largestByCode).sort()).toEqual(['GROEN', 'ORANJE', 'ROOD', 'WATERSPEELPLEK']);
+    Object.values(stats.largestByCode).forEach(zones => {
+      expect(zones.length).toBeLessThanOrEqual(3);
+      zones.slice(1).forEach((zone, i) => expect(zone.area).toBeLessThanOrEqual(zones[i].area));
+      zones.forEach(zone => expect(zone.centroid).not.toBeNull());
+    });
+  });
+
+  it('ranks only the requested codes', () => {
+    const oranje = getDatasetStats(data, { topN: 5, codes: ['ORANJE'] });
+
+    expect(Object.keys(oranje.largestByCode)).toEqual(['ORANJE']);
+    expect(oranje.largestByCode.ORANJE).toHaveLength(5);
+  });
+});
+
+describe('diffDatasets', () => {
+  it('finds no differences between identical versions', () => {
+    const diff = diffDatasets(data, data);
+
+    expect(diff.added).toHaveLength(0);
+    expect(diff.removed).toHaveLength(0);
+    expect(diff.changed).toHaveLength(0);
+    expect(diff.unchangedCount).toBe(804);
+  });
+
+  it('reports added, removed and changed features', () => {
+    const [first, second, third, ...rest] = data.features;
+    const recoded = { ...first, properties: { ...first.properties, CODE: 'ORANJE' } };
+    const moved = {
+      ...second,
+      geometry: { type: 'Polygon' as const, coordinates: [[[5.38, 52.15], [5.381, 52.15], [5.381, 52.151], [5.38, 52.15]]] },
+    };
+    const added = { ...third, id: 'Hondenkaart.new' };
+
+    const diff = diffDatasets(data, withFeatures([recoded, moved, added, ...rest]));
+
+    expect(diff.fromVersion).toBe('2023-05-16T21:01:50.127Z');
+    expect(diff.toVersion).toBe('2024-03-01T10:00:00.000Z');
+    expect(diff.added.map(feature => feature.id)).toEqual(['Hondenkaart.new']);
+    expect(diff.removed.map(feature => feature.id)).toEqual([third.id]);
+    expect(diff.changed).toEqual([
+      { id: first.id, CODE: 'ORANJE', changes: [`CODE: ${first.properties.CODE} -> ORANJE`] },
+      { id: second.id, CODE: second.properties.CODE, changes: ['geometry'] },
+    ]);
+    expect(diff.unchangedCount).toBe(801);
+  });
+
+  it('compares counts per CODE', () => {
+    const diff = diffDatasets(data, withFeatures(data.features.filter(feature => feature.properties.CODE !== 'WATERSPEELPLEK')));
+
+    expect(diff.countsByCode.WATERSPEELPLEK).toEqual({ before: 3, after: 0 });
+    expect(diff.countsByCode.GROEN).toEqual({ before: 149, after: 149 });
+  });
+});
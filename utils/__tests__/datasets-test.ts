@@ -0,0 +1,143 @@
+import dogZonesData from '@/assets/data/amersfoort-hondenkaart.json';
+import { AMERSFOORT_DATASET, DATASETS } from '@/constants/Datasets';
+import {
+  createDatasetChoiceStore,
+  DatasetDescriptor,
+  findDatasetAt,
+  normalizeDataset,
+} from '../datasets';
+import { KeyValueStorage } from '../storage';
+import { parseGeoJsonData } from '../validateGeoJson';
+import { buildZoneAsset, parseZoneAsset } from '../zoneAsset';
+import { processZoneData } from '../zones';
+
+// A made-up municipality with its own schema, no area and no feature IDs
+const elsewhere: DatasetDescriptor = {
+  id: 'elsewhere',
+  name: 'Elsewhere',
+  sourceUrl: 'https://example.org/honden.json',
+  sourcePage: null,
+  region: { latitude: 52.09, longitude: 5.12, latitudeDelta: 0.1, longitudeDelta: 0.1 },
+  bounds: [5.0, 52.0, 5.2, 52.2],
+  properties: { code: 'type', neighbourhood: 'wijk', team: null, area: null },
+  codes: { losloopgebied: 'GROEN', uitlaatgebied: 'ORANJE', verbodsgebied: 'ROOD' },
+  bundledAsset: null,
+};
+
+const square = (lng: number, lat: number) => ({
+  type: 'Polygon',
+  coordinates: [[[lng, lat], [lng + 0.001, lat], [lng + 0.001, lat + 0.001], [lng, lat + 0.001], [lng, lat]]],
+});
+
+const elsewhereData = {
+  type: 'FeatureCollection',
+  timeStamp: '2024-03-01T10:00:00.000Z',
+  features: [
+    { type: 'Feature', geometry: square(5.1, 52.1), properties: { type: 'losloopgebied', wijk: 'Oost' } },
+    { type: 'Feature', geometry: square(5.11, 52.1), properties: { type: 'verbodsgebied', wijk: 12 } },
+    { type: 'Feature', id: 7, geometry: square(5.12, 52.1), properties: { type: 'speelbos' } },
+  ],
+};
+
+function createMemoryStorage(): KeyValueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('normalizeDataset', () => {
+  it('leaves the Amersfoort dataset as it is', () => {
+    expect(parseGeoJsonData(normalizeDataset(dogZonesData, AMERSFOORT_DATASET))).toEqual(parseGeoJsonData(dogZonesData));
+  });
+
+  it('maps another schema onto the app schema', () => {
+    const data = parseGeoJsonData(normalizeDataset(elsewhereData, elsewhere));
+
+    expect(data.features.map(feature => feature.id)).toEqual(['elsewhere.1', 'elsewhere.2', '7']);
+    expect(data.features.map(feature => feature.properties.CODE)).toEqual(['GROEN', 'ROOD', 'speelbos']);
+    expect(data.features[0].properties).toMatchObject({ WIJKNAAM: 'Oost', GEBIEDSTEAM: null, ID: 1 });
+    expect(data.features[1].properties.WIJKNAAM).toBe('12');
+    expect(Number(data.features[0].properties.OPPERVLAKTE)).toBeGreaterThan(7000); // Computed from the geometry
+    expect((data as unknown as { timeStamp: string }).timeStamp).toBe(elsewhereData.timeStamp);
+  });
+
+  it('is processed like the Amersfoort data, dropping unknown codes', () => {
+    const { zones, forbiddenZones } = processZoneData(parseGeoJsonData(normalizeDataset(elsewhereData, elsewhere)));
+
+    expect(zones.map(zone => zone.sourceId)).toEqual(['elsewhere.1']);
+    expect(forbiddenZones.map(zone => zone.sourceId)).toEqual(['elsewhere.2']);
+  });
+
+  it('builds a zone asset to bundle, as `npm run zones -- build --dataset` does', () => {
+    const asset = parseZoneAsset(JSON.parse(JSON.stringify(
+      buildZoneAsset(parseGeoJsonData(normalizeDataset(elsewhereData, elsewhere)))
+    )));
+
+    expect(asset.version).toBe(elsewhereData.timeStamp);
+    expect(asset.sourceFeatureCount).toBe(3);
+    expect(asset.zones.map(zone => zone.properties)).toEqual([
+      expect.objectContaining({ CODE: 'GROEN', WIJKNAAM: 'Oost', GEBIEDSTEAM: null }),
+    ]);
+  });
+
+  it('passes malformed features on for validation to report', () => {
+    const raw = { type: 'FeatureCollection', features: [{ type: 'Feature', id: 'x', properties: {}, geometry: null }, 'junk'] };
+
+    expect(() => parseGeoJsonData(normalizeDataset(raw, elsewhere))).toThrow('x: CODE is missing');
+    expect(normalizeDataset('not data', elsewhere)).toBe('not data');
+  });
+});
+
+describe('findDatasetAt', () => {
+  it('finds the dataset covering a location', () => {
+    expect(findDatasetAt([AMERSFOORT_DATASET, elsewhere], 52.156, 5.387)).toBe(AMERSFOORT_DATASET);
+    expect(findDatasetAt([AMERSFOORT_DATASET, elsewhere], 52.09, 5.12)).toBe(elsewhere);
+    expect(findDatasetAt([AMERSFOORT_DATASET, elsewhere], 51.5, 4.5)).toBeNull();
+  });
+
+  it('prefers the nearest region where datasets overlap', () => {
+    const wide = { ...elsewhere, id: 'wide', bounds: [5.0, 52.0, 5.5, 52.3] as DatasetDescriptor['bounds'] };
+
+    expect(findDatasetAt([wide, AMERSFOORT_DATASET], 52.156, 5.387)).toBe(AMERSFOORT_DATASET);
+  });
+
+  it('registers datasets with unique IDs and regions inside their bounds', () => {
+    expect(new Set(DATASETS.map(dataset => dataset.id)).size).toBe(DATASETS.length);
+    DATASETS.forEach(dataset => {
+      expect(findDatasetAt([dataset], dataset.region.latitude, dataset.region.longitude)).toBe(dataset);
+    });
+  });
+});
+
+describe('createDatasetChoiceStore', () => {
+  it('keeps the picked dataset, or none to pick it by location', async () => {
+    const storage = createMemoryStorage();
+
+    await createDatasetChoiceStore(storage).save('elsewhere');
+    expect(await createDatasetChoiceStore(storage).load()).toBe('elsewhere');
+
+    await createDatasetChoiceStore(storage).save(null);
+    expect(await createDatasetChoiceStore(storage).load()).toBeNull();
+  });
+
+  it('picks by location when nothing usable is stored', async () => {
+    const storage = createMemoryStorage();
+    storage.items.set('datasetChoice', '{not json');
+
+    expect(await createDatasetChoiceStore(storage).load()).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import * as geometry from '../geometry';
+import { createDistanceService } from '../distanceService';
+import { parseZoneAsset } from '../zoneAsset';
+
+const { zones } = parseZoneAsset(bundledZoneAsset);
+const [zoneA, zoneB, zoneC] = zones;
+const home = { lat: 52.1561, lng: 5.3878 };
+// Degrees of latitude per metre
+const M = 1 / (geometry.KM_PER_DEGREE * 1000);
+
+describe('createDistanceService', () => {
+  let measureEdge: jest.SpyInstance;
+
+  beforeEach(() => {
+    measureEdge = jest.spyOn(geometry, 'getDistanceToZone');
+  });
+
+  afterEach(() => {
+    measureEdge.mockRestore();
+  });
+
+  it('measures the distances to the centroid and to the edge', () => {
+    const service = createDistanceService();
+
+    expect(service.measure(zoneA, home.lat, home.lng)).toEqual({
+      distance: geometry.getDistance(home.lat, home.lng, zoneA.centroid.lat, zoneA.centroid.lng),
+      boundaryDistance: geometry.getDistanceToZone(home.lat, home.lng, zoneA.geometry),
+    });
+  });
+
+  it('measures a zone once while the user stays within the threshold', () => {
+    const service = createDistanceService(10, 10);
+
+    const first = service.measure(zoneA, home.lat, home.lng);
+    const nearby = service.measure(zoneA, home.lat + 5 * M, home.lng);
+
+    expect(nearby).toBe(first);
+    expect(measureEdge).toHaveBeenCalledTimes(1);
+  });
+
+  it('measures again once the user moved past the threshold', () => {
+    const service = createDistanceService(10, 10);
+    service.measure(zoneA, home.lat, home.lng);
+    service.measure(zoneB, home.lat, home.lng);
+
+    const moved = service.measure(zoneA, home.lat + 20 * M, home.lng);
+
+    expect(measureEdge).toHaveBeenCalledTimes(3);
+    expect(moved.distance).toBeCloseTo(geometry.getDistance(home.lat + 20 * M, home.lng, zoneA.centroid.lat, zoneA.centroid.lng), 6);
+    expect(service.size).toBe(1); // zoneB was measured from the old location
+  });
+
+  it('keeps the most recently used zones within its bound', () => {
+    const service = createDistanceService(2);
+    service.measure(zoneA, home.lat, home.lng);
+    service.measure(zoneB, home.lat, home.lng);
+    service.measure(zoneA, home.lat, home.lng); // zoneB is now the least recently used
+    service.measure(zoneC, home.lat, home.lng);
+    measureEdge.mockClear();
+
+    service.measure(zoneA, home.lat, home.lng);
+    service.measure(zoneB, home.lat, home.lng);
+
+    expect(service.size).toBe(2);
+    expect(measureEdge).toHaveBeenCalledTimes(1);
+    expect(measureEdge).toHaveBeenCalledWith(home.lat, home.lng, zoneB.geometry);
+  });
+
+  it('bounds the cache however many zones are measured', () => {
+    const service = createDistanceService(50);
+    zones.forEach(zone => service.measure(zone, home.lat, home.lng));
+
+    expect(zones.length).toBeGreaterThan(50);
+    expect(service.size).toBe(50);
+  });
+
+  it('forgets every distance on clear', () => {
+    const service = createDistanceService();
+    service.measure(zoneA, home.lat, home.lng);
+
+    service.clear();
+    service.measure(zoneA, home.lat, home.lng);
+
+    expect(measureEdge).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,140 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { Walk } from '@/types';
+import {
+  ExportedZone,
+  getExportFileName,
+  parseGeoJsonFeatures,
+  parseGeoJsonZones,
+  parseGpx,
+  parseKml,
+  toExportedZone,
+  toGeoJson,
+  toGpx,
+  toKml,
+} from '../exportFormats';
+import { parseZoneAsset } from '../zoneAsset';
+
+const { zones, forbiddenZones } = parseZoneAsset(bundledZoneAsset);
+const exported = [...zones, ...forbiddenZones].map(toExportedZone);
+
+const walks: Walk[] = [
+  {
+    id: 'walk_1717400000000',
+    startedAt: 1717400000000,
+    endedAt: 1717400120000,
+    points: [
+      { timestamp: 1717400000000, lat: 52.156101, lng: 5.387812, accuracy: 4.5 },
+      { timestamp: 1717400060000, lat: 52.15622, lng: 5.38795, accuracy: null },
+      { timestamp: 1717400120000, lat: 52.1564, lng: 5.3881, accuracy: 12 },
+    ],
+  },
+  {
+    id: 'walk_<&>',
+    startedAt: 1717500000000,
+    endedAt: 1717500030000,
+    points: [
+      { timestamp: 1717500000000, lat: 52.17, lng: 5.4, accuracy: 3 },
+      { timestamp: 1717500030000, lat: 52.1701, lng: 5.4001, accuracy: 3 },
+    ],
+  },
+];
+
+describe('toExportedZone', () => {
+  it('keeps code, neighbourhood, team and rounded area', () => {
+    const merged = zones.find(zone => zone.memberIds && zone.area)!;
+    const zone = toExportedZone(merged);
+
+    expect(zone.code).toBe(merged.properties.CODE);
+    expect(zone.neighbourhood).toContain(merged.memberIds![0].WIJKNAAM);
+    expect(zone.area).toBe(Math.round(merged.area!));
+    expect(zone.geometry).toBe(merged.geometry);
+  });
+});
+
+describe('GPX', () => {
+  it('round-trips walks, including the accuracy of each fix', () => {
+    expect(parseGpx(toGpx(walks))).toEqual(walks);
+  });
+
+  it('reads tracks written by other apps', () => {
+    const gpx = `<?xml version="1.0"?>
+      <gpx version="1.1" creator="Other" xmlns="http://www.topografix.com/GPX/1/1">
+        <trk><name>Morning</name>
+          <trkseg><trkpt lat="52.1" lon="5.3"><ele>3</ele><time>2024-06-01T07:00:00Z</time></trkpt></trkseg>
+          <trkseg><trkpt lat="52.2" lon="5.4"><time>2024-06-01T07:05:00Z</time></trkpt><trkpt lat="52.3" lon="5.5"/></trkseg>
+        </trk>
+      </gpx>`;
+
+    const [walk] = parseGpx(gpx);
+
+    expect(walk.points).toEqual([
+      { timestamp: Date.parse('2024-06-01T07:00:00Z'), lat: 52.1, lng: 5.3, accuracy: null },
+      { timestamp: Date.parse('2024-06-01T07:05:00Z'), lat: 52.2, lng: 5.4, accuracy: null },
+    ]);
+    expect(walk.endedAt - walk.startedAt).toBe(5 * 60 * 1000);
+  });
+});
+
+describe('GeoJSON', () => {
+  it('round-trips every zone of the dataset', () => {
+    expect(parseGeoJsonZones(toGeoJson(exported))).toEqual(exported);
+  });
+
+  it('writes code, neighbourhood, team and area as properties', () => {
+    const [feature] = JSON.parse(toGeoJson(exported.slice(0, 1))).features;
+
+    expect(Object.keys(feature.properties).sort()).toEqual(['area', 'code', 'neighbourhood', 'team']);
+  });
+
+  it('rejects documents that are not a FeatureCollection', () => {
+    expect(() => parseGeoJsonZones('{"type":"Feature"}')).toThrow('Not a GeoJSON FeatureCollection');
+  });
+
+  it('skips malformed features and keeps only plain property values', () => {
+    const polygon = { type: 'Polygon', coordinates: [[[5.3, 52.1, 4], [5.31, 52.1, 4], [5.31, 52.11, 4], [5.3, 52.1, 4]]] };
+    const json = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        null,
+        'junk',
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [5.3, 52.1] }, properties: {} },
+        { type: 'Feature', geometry: { type: 'Polygon', coordinates: 'none' }, properties: {} },
+        { type: 'Feature', geometry: polygon, properties: ['not', 'an', 'object'] },
+        { type: 'Feature', id: 12, geometry: polygon, properties: { name: 'Park', tags: ['a'], nested: { b: 1 } } },
+      ],
+    });
+
+    expect(parseGeoJsonFeatures(json)).toEqual([
+      { id: 'feature_4', properties: {}, geometry: { type: 'Polygon', coordinates: [[[5.3, 52.1], [5.31, 52.1], [5.31, 52.11], [5.3, 52.1]]] } },
+      { id: '12', properties: { name: 'Park' }, geometry: { type: 'Polygon', coordinates: [[[5.3, 52.1], [5.31, 52.1], [5.31, 52.11], [5.3, 52.1]]] } },
+    ]);
+  });
+});
+
+describe('KML', () => {
+  it('round-trips every zone of the dataset, including holes and multipolygons', () => {
+    expect(exported.some(zone => zone.geometry.type === 'MultiPolygon' || zone.geometry.coordinates.length > 1)).toBe(true);
+    expect(parseKml(toKml(exported))).toEqual(exported);
+  });
+
+  it('escapes text and colours zones as on the map', () => {
+    const zone: ExportedZone = { ...exported[0], code: 'GROEN', neighbourhood: 'Hof & <Tuin>', team: null, area: null };
+    const kml = toKml([zone]);
+
+    expect(kml).toContain('<name>GROEN - Hof &amp; &lt;Tuin&gt;</name>');
+    expect(kml).toContain('<PolyStyle><color>4d00ff00</color></PolyStyle>'); // rgba(0, 255, 0, 0.3) as aabbggrr
+    expect(parseKml(kml)).toEqual([zone]);
+  });
+
+  it('skips placemarks without a polygon', () => {
+    const kml = '<kml><Document><Placemark><name>Pin</name><Point><coordinates>5.3,52.1,0</coordinates></Point></Placemark></Document></kml>';
+
+    expect(parseKml(kml)).toEqual([]);
+  });
+});
+
+describe('getExportFileName', () => {
+  it('dates the file', () => {
+    expect(getExportFileName('dog-zones', 'kml', new Date('2025-06-03T10:00:00Z'))).toBe('dog-zones-2025-06-03.kml');
+  });
+});
@@ -0,0 +1,73 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { createFavouritesStore, getFavouriteZones, isFavouriteZone, toggleFavouriteZone } from '../favourites';
+import { KeyValueStorage } from '../storage';
+import { parseZoneAsset } from '../zoneAsset';
+
+const { zones } = parseZoneAsset(bundledZoneAsset);
+const merged = zones.find(zone => zone.memberIds)!;
+const single = zones.find(zone => !zone.memberIds)!;
+
+function createMemoryStorage(): KeyValueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createFavouritesStore', () => {
+  it('keeps the favourites across store instances', async () => {
+    const storage = createMemoryStorage();
+
+    await createFavouritesStore(storage).save(['Hondenkaart.1', 'Hondenkaart.2']);
+
+    expect(await createFavouritesStore(storage).load()).toEqual(['Hondenkaart.1', 'Hondenkaart.2']);
+  });
+
+  it('starts empty when nothing usable is stored', async () => {
+    const storage = createMemoryStorage();
+    expect(await createFavouritesStore(storage).load()).toEqual([]);
+
+    storage.items.set('favouriteZones', '{not json');
+    expect(await createFavouritesStore(storage).load()).toEqual([]);
+
+    storage.items.set('favouriteZones', JSON.stringify({ formatVersion: 0, sourceIds: ['Hondenkaart.1'] }));
+    expect(await createFavouritesStore(storage).load()).toEqual([]);
+  });
+});
+
+describe('toggleFavouriteZone', () => {
+  it('adds a zone by its source ID and removes it again', () => {
+    const added = toggleFavouriteZone([], single);
+
+    expect(added).toEqual([single.sourceId]);
+    expect(isFavouriteZone(added, single)).toBe(true);
+    expect(toggleFavouriteZone(added, single)).toEqual([]);
+  });
+
+  it('recognises a merged zone favourited through any member', () => {
+    const lastMember = merged.memberIds![merged.memberIds!.length - 1].id;
+
+    expect(isFavouriteZone([lastMember], merged)).toBe(true);
+    expect(toggleFavouriteZone(['Hondenkaart.other', lastMember], merged)).toEqual(['Hondenkaart.other']);
+  });
+});
+
+describe('getFavouriteZones', () => {
+  it('returns each favourite zone once, in the order added, skipping unknown IDs', () => {
+    const memberIds = merged.memberIds!.map(member => member.id);
+
+    expect(getFavouriteZones(zones, [single.sourceId, 'Hondenkaart.gone', ...memberIds])).toEqual([single, merged]);
+  });
+});
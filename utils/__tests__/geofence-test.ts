@@ -0,0 +1,67 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { createZoneIndex } from '@/utils/spatialIndex';
+import { getContainingZoneIds, getGeofenceMessage, updateGeofences } from '../geofence';
+import { parseZoneAsset } from '../zoneAsset';
+
+const { zones, forbiddenZones } = parseZoneAsset(bundledZoneAsset);
+const zoneIndex = createZoneIndex([...zones, ...forbiddenZones]);
+
+const groen = zones.find(zone => zone.properties.CODE === 'GROEN' && zone.zoneType === 'area')!;
+const rood = forbiddenZones.find(zone => zone.properties.CODE === 'ROOD')!;
+const waterspeelplek = forbiddenZones.find(zone => zone.properties.CODE === 'WATERSPEELPLEK')!;
+const outside = { lat: 52.0, lng: 5.0 }; // South of Amersfoort
+
+describe('getContainingZoneIds', () => {
+  it('finds the GROEN, ORANJE and ROOD areas containing a location', () => {
+    expect(getContainingZoneIds(groen.centroid.lat, groen.centroid.lng, zoneIndex)).toContain(groen.id);
+    expect(getContainingZoneIds(rood.centroid.lat, rood.centroid.lng, zoneIndex)).toContain(rood.id);
+    expect(getContainingZoneIds(outside.lat, outside.lng, zoneIndex)).toEqual([]);
+  });
+
+  it('ignores codes without a geofence', () => {
+    const { lat, lng } = waterspeelplek.centroid;
+
+    expect(getContainingZoneIds(lat, lng, zoneIndex)).not.toContain(waterspeelplek.id);
+  });
+});
+
+describe('updateGeofences', () => {
+  it('sets the baseline on the first fix without raising events', () => {
+    const update = updateGeofences(null, groen.centroid.lat, groen.centroid.lng, zoneIndex);
+
+    expect(update.insideIds).toContain(groen.id);
+    expect(update.events).toEqual([]);
+  });
+
+  it('reports entering and then leaving a zone', () => {
+    const start = updateGeofences(null, outside.lat, outside.lng, zoneIndex);
+    const entered = updateGeofences(start.insideIds, groen.centroid.lat, groen.centroid.lng, zoneIndex);
+    const left = updateGeofences(entered.insideIds, outside.lat, outside.lng, zoneIndex);
+
+    expect(entered.events).toEqual([{ type: 'enter', zone: groen }]);
+    expect(left.events).toEqual([{ type: 'leave', zone: groen }]);
+    expect(updateGeofences(left.insideIds, outside.lat, outside.lng, zoneIndex).events).toEqual([]);
+  });
+
+  it('puts entries first, forbidden zones before off-leash ones', () => {
+    const previous = [groen.id];
+    const update = updateGeofences(previous, rood.centroid.lat, rood.centroid.lng, zoneIndex);
+
+    expect(update.events[0]).toEqual({ type: 'enter', zone: rood });
+    expect(update.events[update.events.length - 1]).toEqual({ type: 'leave', zone: groen });
+  });
+
+  it('does not report leaving zones that are no longer in the data', () => {
+    const update = updateGeofences(['Hondenkaart.gone'], outside.lat, outside.lng, zoneIndex);
+
+    expect(update.events).toEqual([]);
+  });
+});
+
+describe('getGeofenceMessage', () => {
+  it('tells whether the leash can come off', () => {
+    expect(getGeofenceMessage({ type: 'enter', zone: groen })).toMatch(/leash can come off/);
+    expect(getGeofenceMessage({ type: 'leave', zone: groen })).toMatch(/leash on/);
+    expect(getGeofenceMessage({ type: 'enter', zone: rood })).toMatch(/not allowed/);
+  });
+});
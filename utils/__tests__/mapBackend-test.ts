@@ -0,0 +1,52 @@
+import { getMapBackend, getWebPolygonStyle, rgbaToHex } from '../mapBackend';
+
+describe('getMapBackend', () => {
+  it('uses Google Maps with an API key', () => {
+    expect(getMapBackend('AIzaSyExample')).toBe('google');
+  });
+
+  it('falls back to OpenStreetMap without a usable key', () => {
+    expect(getMapBackend(undefined)).toBe('osm');
+    expect(getMapBackend(null)).toBe('osm');
+    expect(getMapBackend('')).toBe('osm');
+    expect(getMapBackend('  ')).toBe('osm');
+    expect(getMapBackend('YOUR_GOOGLE_MAPS_API_KEY')).toBe('osm');
+    expect(getMapBackend('YOUR_WEB_GOOGLE_MAPS_API_KEY')).toBe('osm');
+  });
+});
+
+describe('rgbaToHex', () => {
+  it('splits rgb() and rgba() colours into hex and opacity', () => {
+    expect(rgbaToHex('rgba(255, 165, 0, 0.3)')).toEqual({ color: '#FFA500', opacity: 0.3 });
+    expect(rgbaToHex('rgb(0, 255, 0)')).toEqual({ color: '#00FF00', opacity: 1 });
+  });
+
+  it('falls back to opaque black for other colours', () => {
+    expect(rgbaToHex('transparent')).toEqual({ color: '#000000', opacity: 1 });
+  });
+});
+
+describe('getWebPolygonStyle', () => {
+  const style = { fillColor: 'rgba(0, 255, 0, 0.3)', strokeColor: 'rgba(0, 255, 0, 0.8)', strokeWidth: 1 };
+
+  it('converts a zone style', () => {
+    expect(getWebPolygonStyle(style, false)).toEqual({
+      strokeColor: '#00FF00',
+      strokeOpacity: 0.8,
+      strokeWeight: 1,
+      fillColor: '#00FF00',
+      fillOpacity: 0.15,
+      zIndex: 1,
+    });
+  });
+
+  it('outlines selected zones in blue, on top', () => {
+    const selected = getWebPolygonStyle({ ...style, zIndex: 5 }, true);
+
+    expect(selected.strokeColor).toBe('#0000FF');
+    expect(selected.strokeOpacity).toBe(1);
+    expect(selected.strokeWeight).toBe(2);
+    expect(selected.fillOpacity).toBeCloseTo(0.21);
+    expect(selected.zIndex).toBe(10);
+  });
+});
@@ -0,0 +1,87 @@
+import { Geometry } from '@/types';
+import dogZonesData from '@/assets/data/amersfoort-hondenkaart.json';
+import { toMapPolygons, toWebPaths } from '../mapPaths';
+import { parseGeoJsonData } from '../validateGeoJson';
+
+// Every feature of the dataset is a single Polygon
+const features = parseGeoJsonData(dogZonesData).features.flatMap(feature =>
+  feature.geometry.type === 'Polygon' ? [{ id: feature.id, geometry: feature.geometry }] : []
+);
+const featuresWithHoles = features.filter(feature => feature.geometry.coordinates.length > 1);
+
+// Shoelace sign in lng/lat: positive when counter-clockwise
+function isCounterClockwise(ring: { lat: number; lng: number }[]): boolean {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j].lng - ring[i].lng) * (ring[j].lat + ring[i].lat);
+  }
+  return sum > 0;
+}
+
+describe('toMapPolygons', () => {
+  it('keeps the interior rings of the dataset as holes', () => {
+    expect(featuresWithHoles).toHaveLength(17);
+
+    featuresWithHoles.forEach(feature => {
+      const [polygon] = toMapPolygons(feature.geometry);
+      expect(polygon.holes).toHaveLength(feature.geometry.coordinates.length - 1);
+    });
+  });
+
+  it('converts every dataset feature without dropping vertices', () => {
+    features.forEach(feature => {
+      const polygons = toMapPolygons(feature.geometry);
+      const outer = feature.geometry.coordinates[0];
+
+      expect(polygons).toHaveLength(1);
+      // The closing position that repeats the first one is dropped
+      expect(polygons[0].coordinates).toHaveLength(outer.length - 1);
+      expect(polygons[0].coordinates[0]).toEqual({ latitude: outer[0][1], longitude: outer[0][0] });
+    });
+  });
+
+  it('returns one polygon per part of a MultiPolygon', () => {
+    const [a, b] = featuresWithHoles;
+    const geometry: Geometry = { type: 'MultiPolygon', coordinates: [a.geometry.coordinates, b.geometry.coordinates] };
+
+    const polygons = toMapPolygons(geometry);
+
+    expect(polygons).toHaveLength(2);
+    expect(polygons[0].holes).toHaveLength(a.geometry.coordinates.length - 1);
+    expect(polygons[1].holes).toHaveLength(b.geometry.coordinates.length - 1);
+  });
+
+  it('ignores geometries that are not polygons', () => {
+    // Unvalidated input can still carry other geometry types
+    const point = { type: 'Point', coordinates: [5.38, 52.15] } as unknown as Geometry;
+    expect(toMapPolygons(point)).toEqual([]);
+  });
+});
+
+describe('toWebPaths', () => {
+  it('puts the outer path first, followed by one path per hole', () => {
+    featuresWithHoles.forEach(feature => {
+      const [paths] = toWebPaths(feature.geometry);
+      expect(paths).toHaveLength(feature.geometry.coordinates.length);
+    });
+  });
+
+  it('winds holes opposite to their outer path so Google Maps cuts them out', () => {
+    featuresWithHoles.forEach(feature => {
+      const [[outer, ...holes]] = toWebPaths(feature.geometry);
+      holes.forEach(hole => {
+        expect(isCounterClockwise(hole)).toBe(!isCounterClockwise(outer));
+      });
+    });
+  });
+
+  it('re-winds holes that share the winding of their outer ring', () => {
+    const outer = [[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]];
+    const sameWindingHole = [[0.2, 0.2], [0.8, 0.2], [0.8, 0.8], [0.2, 0.8], [0.2, 0.2]];
+
+    const [[outerPath, hole]] = toWebPaths({ type: 'Polygon', coordinates: [outer, sameWindingHole] });
+
+    expect(isCounterClockwise(outerPath)).toBe(true);
+    expect(isCounterClockwise(hole)).toBe(false);
+  });
+});
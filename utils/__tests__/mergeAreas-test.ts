@@ -0,0 +1,136 @@
+import * as turf from '@turf/turf';
+import { Geometry, ProcessedZone } from '@/types';
+import { mergeAreas, MERGED_ZONE_ID_PREFIX } from '../mergeAreas';
+
+const METERS_PER_DEGREE_LAT = 111195;
+const ORIGIN = { lat: 52.15, lng: 5.38 };
+const METERS_PER_DEGREE_LNG = METERS_PER_DEGREE_LAT * Math.cos(ORIGIN.lat * Math.PI / 180);
+
+// A square zone of `size` meters whose south-west corner is `east` meters east of the origin
+function squareZone(id: string, code: string, east: number, size = 50, wijknaam = 'Schothorst-zuid'): ProcessedZone {
+  const west = ORIGIN.lng + east / METERS_PER_DEGREE_LNG;
+  const eastEdge = ORIGIN.lng + (east + size) / METERS_PER_DEGREE_LNG;
+  const north = ORIGIN.lat + size / METERS_PER_DEGREE_LAT;
+  return {
+    type: 'Feature',
+    id: `zone_${id}`,
+    sourceId: `Hondenkaart.${id}`,
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[west, ORIGIN.lat], [eastEdge, ORIGIN.lat], [eastEdge, north], [west, north], [west, ORIGIN.lat]]],
+    },
+    properties: { OPPERVLAKTE: `${size * size}`, WIJKNAAM: wijknaam, CODE: code, GEBIEDSTEAM: 'Noord', ID: Number(id) },
+    zoneType: 'area',
+    centroid: { lat: ORIGIN.lat, lng: west },
+    area: size * size,
+  };
+}
+
+const asFeature = (geometry: Geometry) => turf.feature(geometry);
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('mergeAreas', () => {
+  it('keeps areas that are far apart as they are', () => {
+    const a = squareZone('1', 'GROEN', 0);
+    const b = squareZone('2', 'GROEN', 1000);
+
+    const result = mergeAreas([a, b], 'GROEN');
+
+    expect(result).toEqual([a, b]);
+  });
+
+  it('only returns areas of the requested code', () => {
+    const green = squareZone('1', 'GROEN', 0);
+    const orange = squareZone('2', 'ORANJE', 20);
+
+    expect(mergeAreas([green, orange], 'ORANJE')).toEqual([orange]);
+  });
+
+  it('groups areas of one neighbourhood transitively when each is near the next', () => {
+    // A-B and B-C are 80m apart, A-C is 210m apart
+    const a = squareZone('1', 'GROEN', 0);
+    const b = squareZone('2', 'GROEN', 130);
+    const c = squareZone('3', 'GROEN', 260);
+    const far = squareZone('4', 'GROEN', 2000);
+
+    const result = mergeAreas([a, far, b, c], 'GROEN');
+
+    expect(result).toHaveLength(2);
+    const merged = result.find(zone => zone.id.startsWith(MERGED_ZONE_ID_PREFIX))!;
+    expect(merged.memberIds).toEqual([
+      { id: 'Hondenkaart.1', WIJKNAAM: 'Schothorst-zuid' },
+      { id: 'Hondenkaart.2', WIJKNAAM: 'Schothorst-zuid' },
+      { id: 'Hondenkaart.3', WIJKNAAM: 'Schothorst-zuid' },
+    ]);
+    expect(merged.area).toBe(3 * 2500);
+    expect(result).toContain(far);
+  });
+
+  it('does not chain areas across neighbourhoods', () => {
+    // A-B and B-C are 80m apart, but B lies in another neighbourhood
+    const a = squareZone('1', 'GROEN', 0, 50, 'Schothorst-zuid');
+    const b = squareZone('2', 'GROEN', 130, 50, 'Schothorst-noord');
+    const c = squareZone('3', 'GROEN', 260, 50, 'Schothorst-zuid');
+
+    expect(mergeAreas([a, b, c], 'GROEN')).toEqual([a, b, c]);
+  });
+
+  it('merges a chain only within each neighbourhood', () => {
+    const a = squareZone('1', 'GROEN', 0, 50, 'Schothorst-zuid');
+    const b = squareZone('2', 'GROEN', 130, 50, 'Schothorst-noord');
+    const c = squareZone('3', 'GROEN', 260, 50, 'Schothorst-noord');
+
+    const result = mergeAreas([a, b, c], 'GROEN');
+
+    expect(result).toHaveLength(2);
+    expect(result).toContain(a);
+    const merged = result.find(zone => zone.id.startsWith(MERGED_ZONE_ID_PREFIX))!;
+    expect(merged.memberIds!.map(member => member.id)).toEqual(['Hondenkaart.2', 'Hondenkaart.3']);
+    expect(merged.properties.WIJKNAAM).toBe('Schothorst-noord');
+  });
+
+  it('unions the member geometries so no member disappears from the map', () => {
+    const members = [squareZone('1', 'GROEN', 0), squareZone('2', 'GROEN', 80), squareZone('3', 'GROEN', 160)];
+
+    const [merged] = mergeAreas(members, 'GROEN');
+
+    expect(merged.geometry.type).toBe('MultiPolygon');
+    expect(merged.geometry.coordinates).toHaveLength(3);
+    members.forEach(member => {
+      const [lng, lat] = turf.centerOfMass(asFeature(member.geometry)).geometry.coordinates;
+      expect(turf.booleanPointInPolygon([lng, lat], asFeature(merged.geometry))).toBe(true);
+    });
+    expect(turf.area(asFeature(merged.geometry))).toBeCloseTo(3 * 2500, -2);
+  });
+
+  it('unions overlapping areas into a single polygon', () => {
+    const a = squareZone('1', 'ORANJE', 0);
+    const b = squareZone('2', 'ORANJE', 25);
+
+    const [merged] = mergeAreas([a, b], 'ORANJE');
+
+    expect(merged.geometry.type).toBe('Polygon');
+    expect(turf.area(asFeature(merged.geometry))).toBeCloseTo(75 * 50, -2);
+  });
+
+  it('places the centroid of a merged zone inside its geometry', () => {
+    const [merged] = mergeAreas([squareZone('1', 'GROEN', 0, 40), squareZone('2', 'GROEN', 100, 60)], 'GROEN');
+
+    expect(turf.booleanPointInPolygon([merged.centroid.lng, merged.centroid.lat], asFeature(merged.geometry))).toBe(true);
+  });
+
+  it('flattens the members of already merged zones', () => {
+    const first = mergeAreas([squareZone('1', 'GROEN', 0), squareZone('2', 'GROEN', 80)], 'GROEN');
+    const result = mergeAreas([...first, squareZone('3', 'GROEN', 160)], 'GROEN');
+
+    expect(result).toHaveLength(1);
+    expect(result[0].memberIds!.map(member => member.id)).toEqual(['Hondenkaart.1', 'Hondenkaart.2', 'Hondenkaart.3']);
+  });
+});
@@ -0,0 +1,112 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { getDistance, getDistanceToZone } from '../geometry';
+import {
+  buildAppleMapsUrl,
+  buildGoogleMapsUrl,
+  buildOpenStreetMapUrl,
+  buildOrganicMapsUrl,
+  getNavigationProviders,
+  getNavigationRequest,
+  getNavigationTarget,
+  NavigationRequest,
+} from '../navigation';
+import { parseZoneAsset } from '../zoneAsset';
+
+const { zones } = parseZoneAsset(bundledZoneAsset);
+const groen = zones.find(zone => zone.properties.CODE === 'GROEN' && zone.zoneType === 'area')!;
+
+const request: NavigationRequest = {
+  origin: { lat: 52.15, lng: 5.38 },
+  destination: { lat: 52.16, lng: 5.39 },
+  destinationName: 'Park',
+  mode: 'walking',
+};
+
+const params = (url: string) => new URL(url.replace(/^om:\/\//, 'om://x/')).searchParams;
+
+describe('URL builders', () => {
+  it('builds Google Maps directions', () => {
+    const url = buildGoogleMapsUrl(request);
+
+    expect(url.startsWith('https://www.google.com/maps/dir/?')).toBe(true);
+    expect(params(url).get('api')).toBe('1');
+    expect(params(url).get('origin')).toBe('52.150000,5.380000');
+    expect(params(url).get('destination')).toBe('52.160000,5.390000');
+    expect(params(url).get('travelmode')).toBe('walking');
+    expect(params(buildGoogleMapsUrl({ ...request, mode: 'cycling' })).get('travelmode')).toBe('bicycling');
+  });
+
+  it('builds Apple Maps directions, without a flag for cycling', () => {
+    const url = buildAppleMapsUrl(request);
+
+    expect(url.startsWith('https://maps.apple.com/?')).toBe(true);
+    expect(params(url).get('saddr')).toBe('52.150000,5.380000');
+    expect(params(url).get('daddr')).toBe('52.160000,5.390000');
+    expect(params(url).get('dirflg')).toBe('w');
+    expect(params(buildAppleMapsUrl({ ...request, mode: 'cycling' })).has('dirflg')).toBe(false);
+  });
+
+  it('builds an Organic Maps route with the destination name', () => {
+    const url = buildOrganicMapsUrl(request);
+
+    expect(url.startsWith('om://route?')).toBe(true);
+    expect(params(url).get('dll')).toBe('52.160000,5.390000');
+    expect(params(url).get('daddr')).toBe('Park');
+    expect(params(url).get('type')).toBe('pedestrian');
+    expect(params(buildOrganicMapsUrl({ ...request, destinationName: null })).get('daddr')).toBe('Dog zone');
+  });
+
+  it('builds OpenStreetMap directions', () => {
+    const url = buildOpenStreetMapUrl(request);
+
+    expect(params(url).get('engine')).toBe('fossgis_osrm_foot');
+    expect(params(url).get('route')).toBe('52.150000,5.380000;52.160000,5.390000');
+  });
+
+  it('leaves the origin to the app when the location is unknown', () => {
+    const withoutOrigin = { ...request, origin: null };
+
+    expect(params(buildGoogleMapsUrl(withoutOrigin)).has('origin')).toBe(false);
+    expect(params(buildAppleMapsUrl(withoutOrigin)).has('saddr')).toBe(false);
+    expect(params(buildOrganicMapsUrl(withoutOrigin)).has('sll')).toBe(false);
+    expect(params(buildOpenStreetMapUrl(withoutOrigin)).get('route')).toBe(';52.160000,5.390000');
+  });
+});
+
+describe('getNavigationProviders', () => {
+  it('offers the apps available on each platform', () => {
+    const ids = (platform: string) => getNavigationProviders(platform).map(provider => provider.id);
+
+    expect(ids('ios')).toEqual(['google', 'apple', 'organic', 'osm']);
+    expect(ids('android')).toEqual(['google', 'organic', 'osm']);
+    expect(ids('web')).toEqual(['google', 'osm']);
+  });
+});
+
+describe('getNavigationTarget', () => {
+  it('navigates to the centroid without a location or from inside the zone', () => {
+    expect(getNavigationTarget(groen, null)).toEqual(groen.centroid);
+    expect(getNavigationTarget(groen, groen.centroid)).toEqual(groen.centroid);
+  });
+
+  it('navigates to the nearest point of the outline from outside', () => {
+    const from = { lat: groen.centroid.lat + 0.02, lng: groen.centroid.lng };
+    const target = getNavigationTarget(groen, from);
+
+    expect(getDistanceToZone(target.lat, target.lng, groen.geometry)).toBeLessThan(0.001); // km
+    const toTarget = getDistance(from.lat, from.lng, target.lat, target.lng);
+    expect(toTarget).toBeCloseTo(getDistanceToZone(from.lat, from.lng, groen.geometry)!, 2);
+    expect(toTarget).toBeLessThan(getDistance(from.lat, from.lng, groen.centroid.lat, groen.centroid.lng));
+  });
+
+  it('builds a walking request to the zone', () => {
+    const from = { lat: groen.centroid.lat + 0.02, lng: groen.centroid.lng };
+
+    expect(getNavigationRequest(groen, from)).toEqual({
+      origin: from,
+      destination: getNavigationTarget(groen, from),
+      destinationName: groen.properties.WIJKNAAM,
+      mode: 'walking',
+    });
+  });
+});
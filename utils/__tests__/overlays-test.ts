@@ -0,0 +1,219 @@
+import { ImportedFeature } from '../exportFormats';
+import {
+  countOverlayCodes,
+  createOverlayLayer,
+  createOverlayStore,
+  getMappableProperties,
+  guessOverlayCode,
+  guessOverlayMapping,
+  MAX_MAPPED_VALUES,
+  OverlayMapping,
+  parseOverlayFile,
+} from '../overlays';
+import { FileStorage, KeyValueStorage } from '../storage';
+import { GeoJsonValidationError } from '../validateGeoJson';
+import { processZoneData } from '../zones';
+
+// A square of roughly 70 x 110 m near Leusden
+const square = (lng: number, lat: number): ImportedFeature['geometry'] => ({
+  type: 'Polygon',
+  coordinates: [[[lng, lat], [lng + 0.001, lat], [lng + 0.001, lat + 0.001], [lng, lat + 0.001], [lng, lat]]],
+});
+
+const features: ImportedFeature[] = [
+  { id: 'a', properties: { naam: 'Park', soort: 'Losloopgebied' }, geometry: square(5.43, 52.13) },
+  { id: 'b', properties: { naam: 'Dorp', soort: 'Oranje gebied' }, geometry: square(5.45, 52.13) },
+  { id: 'c', properties: { naam: 'Strand', soort: 'Verboden voor honden' }, geometry: square(5.47, 52.13) },
+  { id: 'c', properties: { naam: 'Bos', soort: 'Anders' }, geometry: square(5.49, 52.13) },
+];
+
+function createMemoryStorage(): KeyValueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+function createMemoryFiles(): FileStorage & { contents: Map<string, string> } {
+  const contents = new Map<string, string>();
+  return {
+    contents,
+    readFile: async (name) => contents.get(name) ?? null,
+    writeFile: async (name, content) => {
+      contents.set(name, content);
+    },
+    deleteFile: async (name) => {
+      contents.delete(name);
+    },
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseOverlayFile', () => {
+  it('reads GeoJSON and KML by content', () => {
+    const geoJson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: { type: 'groen' }, geometry: square(5.43, 52.13) }],
+    });
+    const kml = '<kml><Document><Placemark><name>Park</name><ExtendedData><SchemaData>' +
+      '<SimpleData name="type">rood</SimpleData></SchemaData></ExtendedData>' +
+      '<Polygon><outerBoundaryIs><LinearRing><coordinates>5.43,52.13,0 5.44,52.13,0 5.44,52.14,0 5.43,52.13,0</coordinates>' +
+      '</LinearRing></outerBoundaryIs></Polygon></Placemark></Document></kml>';
+
+    expect(parseOverlayFile(geoJson)[0].properties).toEqual({ type: 'groen' });
+    expect(parseOverlayFile(kml)[0].properties).toEqual({ name: 'Park', type: 'rood' });
+  });
+
+  it('rejects other files and files without polygons', () => {
+    expect(() => parseOverlayFile('<gpx></gpx>')).toThrow('Not a GeoJSON or KML file');
+    expect(() => parseOverlayFile('name,code')).toThrow('Not a GeoJSON or KML file');
+    expect(() => parseOverlayFile('{"type":"FeatureCollection","features":[]}')).toThrow('The file has no polygons');
+  });
+});
+
+describe('getMappableProperties', () => {
+  it('lists the distinct values of properties with few of them', () => {
+    const many = Array.from({ length: MAX_MAPPED_VALUES + 1 }, (_, i) =>
+      ({ id: String(i), properties: { id: i, soort: i % 2 ? 'Los' : null }, geometry: square(5.43, 52.13) }));
+
+    expect(getMappableProperties(many)).toEqual({ soort: ['Los'] });
+  });
+});
+
+describe('guessOverlayMapping', () => {
+  it('guesses codes from Dutch and English words', () => {
+    expect(guessOverlayCode('Losloopgebied')).toBe('GROEN');
+    expect(guessOverlayCode('Off-leash area')).toBe('GROEN');
+    expect(guessOverlayCode('Oranje gebied')).toBe('ORANJE');
+    expect(guessOverlayCode('Aanlijngebod')).toBeNull(); // No code means leash required
+    expect(guessOverlayCode('Leash required')).toBeNull();
+    expect(guessOverlayCode('Verboden voor honden')).toBe('ROOD');
+    expect(guessOverlayCode('Anders')).toBeNull();
+  });
+
+  it('picks the property whose values suggest the most codes', () => {
+    expect(guessOverlayMapping(features)).toEqual({
+      property: 'soort',
+      values: { Anders: null, Losloopgebied: 'GROEN', 'Oranje gebied': 'ORANJE', 'Verboden voor honden': 'ROOD' },
+      defaultCode: 'GROEN',
+    });
+  });
+
+  it('maps every feature to off-leash when no value suggests a code', () => {
+    expect(guessOverlayMapping(features.slice(3))).toEqual({ property: null, values: {}, defaultCode: 'GROEN' });
+  });
+});
+
+describe('createOverlayLayer', () => {
+  const mapping = guessOverlayMapping(features);
+
+  it('turns the mapped features into dataset features with prefixed, unique IDs', () => {
+    expect(countOverlayCodes(features, mapping)).toEqual({ GROEN: 1, ORANJE: 1, ROOD: 1, skipped: 1 });
+
+    const layer = createOverlayLayer(' Leusden ', features, { ...mapping, values: { ...mapping.values, Anders: 'GROEN' } }, 1000);
+
+    expect(layer).toMatchObject({ id: 'overlay_1000', name: 'Leusden', importedAt: 1000, visible: true });
+    expect(layer.data.features.map(feature => feature.id))
+      .toEqual(['overlay_1000/a', 'overlay_1000/b', 'overlay_1000/c', 'overlay_1000/c_3']);
+    expect(layer.data.features[0].properties).toMatchObject({ CODE: 'GROEN', WIJKNAAM: 'Park', GEBIEDSTEAM: null });
+    expect(Number(layer.data.features[0].properties.OPPERVLAKTE)).toBeGreaterThan(7000);
+  });
+
+  it('is processed like the dataset', () => {
+    const { zones, forbiddenZones } = processZoneData(createOverlayLayer('Leusden', features, mapping, 1000).data);
+
+    expect(zones.map(zone => zone.properties.CODE).sort()).toEqual(['GROEN', 'ORANJE']);
+    expect(forbiddenZones.map(zone => zone.sourceId)).toEqual(['overlay_1000/c']);
+  });
+
+  it('rejects imports without mapped features or with invalid geometry', () => {
+    const skipAll: OverlayMapping = { property: 'soort', values: {}, defaultCode: 'GROEN' };
+    const open: ImportedFeature = { id: 'x', properties: {}, geometry: { type: 'Polygon', coordinates: [[[5.4, 52.1], [5.5, 52.1]]] } };
+
+    expect(() => createOverlayLayer('Leusden', features, skipAll, 1000)).toThrow('No feature is mapped');
+    expect(() => createOverlayLayer('Leusden', [open], { ...skipAll, property: null }, 1000)).toThrow(GeoJsonValidationError);
+  });
+
+  it('reports geometry the area cannot be computed for as a validation error', () => {
+    const broken = { id: 'x', properties: {}, geometry: { type: 'Polygon', coordinates: [null] } } as unknown as ImportedFeature;
+
+    expect(() => createOverlayLayer('Leusden', [broken], { property: null, values: {}, defaultCode: 'GROEN' }, 1000))
+      .toThrow(GeoJsonValidationError);
+  });
+});
+
+describe('createOverlayStore', () => {
+  const layer = createOverlayLayer('Leusden', features, guessOverlayMapping(features), 1000);
+  const hidden = { ...layer, id: 'overlay_2000', visible: false };
+
+  it('keeps layers across store instances', async () => {
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+
+    await createOverlayStore(storage, files).save([layer, hidden]);
+    const loaded = await createOverlayStore(storage, files).load();
+
+    expect(loaded).toHaveLength(2);
+    expect(loaded[0]).toEqual(layer);
+    expect(loaded[1].visible).toBe(false);
+  });
+
+  it('keeps the data of each layer in a file of its own, out of the index', async () => {
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+
+    await createOverlayStore(storage, files).save([layer, hidden]);
+
+    expect([...files.contents.keys()]).toEqual(['overlay.overlay_1000.json', 'overlay.overlay_2000.json']);
+    expect(JSON.parse(files.contents.get('overlay.overlay_1000.json')!)).toEqual(layer.data);
+    const index = JSON.parse(storage.items.get('overlayLayers')!);
+    expect(index.formatVersion).toBe(2);
+    expect(index.layers[1]).toEqual({ id: 'overlay_2000', name: 'Leusden', importedAt: 1000, visible: false });
+  });
+
+  it('writes a file once and deletes it with its layer', async () => {
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    const store = createOverlayStore(storage, files);
+    const writeFile = jest.spyOn(files, 'writeFile');
+
+    await store.save([layer, hidden]);
+    await store.save([layer, { ...hidden, visible: true }]);
+    expect(writeFile).toHaveBeenCalledTimes(2);
+
+    await store.save([layer]);
+    expect([...files.contents.keys()]).toEqual(['overlay.overlay_1000.json']);
+  });
+
+  it('drops layers whose file is gone or no longer valid', async () => {
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    await createOverlayStore(storage, files).save([layer, hidden, { ...layer, id: 'overlay_3000' }]);
+    files.contents.delete('overlay.overlay_2000.json');
+    files.contents.set('overlay.overlay_3000.json', '{}');
+
+    expect(await createOverlayStore(storage, files).load()).toEqual([layer]);
+  });
+
+  it('moves layers kept in the index itself to files', async () => {
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    storage.items.set('overlayLayers', JSON.stringify({ formatVersion: 1, layers: [layer, { ...hidden, data: {} }] }));
+
+    expect(await createOverlayStore(storage, files).load()).toEqual([layer]);
+    expect(JSON.parse(storage.items.get('overlayLayers')!).formatVersion).toBe(2);
+    expect(await createOverlayStore(storage, files).load()).toEqual([layer]);
+  });
+});
@@ -0,0 +1,127 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import dogZonesData from '@/assets/data/amersfoort-hondenkaart.json';
+import { ProcessedZone } from '@/types';
+import { createPolygonRegistry, PolygonRenderer } from '../polygonRegistry';
+import { parseGeoJsonData } from '../validateGeoJson';
+import { parseZoneAsset } from '../zoneAsset';
+
+const { zones, forbiddenZones } = parseZoneAsset(bundledZoneAsset);
+const allZones = [...forbiddenZones, ...zones];
+
+// Every source feature as a zone of its own, as a map without merging would draw them
+const sourceZones = parseGeoJsonData(dogZonesData).features.map((feature): ProcessedZone => ({
+  ...feature,
+  id: feature.id,
+  sourceId: feature.id,
+  zoneType: 'area',
+  centroid: { lat: 0, lng: 0 },
+}));
+
+interface FakePolygon {
+  zoneId: string;
+  options: { selected: boolean };
+  onMap: boolean;
+}
+
+// Counts the map objects a renderer would create, restyle and remove
+function createCountingRenderer() {
+  const counts = { createdObjects: 0, setOptionsCalls: 0, removedObjects: 0 };
+  const renderer: PolygonRenderer<FakePolygon, { selected: boolean }> = {
+    create: (zone, options) => {
+      const parts = zone.geometry.type === 'MultiPolygon' ? zone.geometry.coordinates.length : 1;
+      counts.createdObjects += parts;
+      return Array.from({ length: parts }, () => ({ zoneId: zone.id, options, onMap: true }));
+    },
+    update: (polygons, options) => {
+      polygons.forEach(polygon => { polygon.options = options; });
+      counts.setOptionsCalls += polygons.length;
+    },
+    remove: polygons => {
+      polygons.forEach(polygon => { polygon.onMap = false; });
+      counts.removedObjects += polygons.length;
+    },
+  };
+  const reset = () => Object.assign(counts, { createdObjects: 0, setOptionsCalls: 0, removedObjects: 0 });
+  return { renderer, counts, reset };
+}
+
+const styledBySelection = (selectedId: string | null) => (zone: ProcessedZone) => ({ selected: zone.id === selectedId });
+
+describe('createPolygonRegistry', () => {
+  it('creates the polygons of every zone on the first sync', () => {
+    const { renderer, counts } = createCountingRenderer();
+    const registry = createPolygonRegistry(renderer);
+
+    const stats = registry.sync(allZones, styledBySelection(null));
+
+    expect(stats).toEqual({ created: allZones.length, updated: 0, removed: 0 });
+    expect(registry.size).toBe(allZones.length);
+    expect(counts.createdObjects).toBeGreaterThanOrEqual(allZones.length); // MultiPolygons have several
+  });
+
+  it.each([
+    ['bundled zones', allZones],
+    ['804 source features', sourceZones],
+  ])('creates no objects per selection and restyles only the previous and new selection (%s)', (_name, shown) => {
+    const { renderer, counts, reset } = createCountingRenderer();
+    const registry = createPolygonRegistry(renderer);
+    registry.sync(shown, styledBySelection(null));
+    const [first, second] = shown.filter(zone => zone.geometry.type === 'Polygon');
+
+    reset();
+    expect(registry.sync(shown, styledBySelection(first.id))).toEqual({ created: 0, updated: 1, removed: 0 });
+    expect(counts).toEqual({ createdObjects: 0, setOptionsCalls: 1, removedObjects: 0 });
+
+    reset();
+    expect(registry.sync(shown, styledBySelection(second.id))).toEqual({ created: 0, updated: 2, removed: 0 });
+    expect(counts).toEqual({ createdObjects: 0, setOptionsCalls: 2, removedObjects: 0 });
+  });
+
+  it('adds and removes only the zones a filter changes', () => {
+    const { renderer, counts, reset } = createCountingRenderer();
+    const registry = createPolygonRegistry(renderer);
+    registry.sync(allZones, styledBySelection(null));
+    const filtered = allZones.filter(zone => zone.properties.CODE === 'GROEN');
+
+    reset();
+    const narrowed = registry.sync(filtered, styledBySelection(null));
+
+    expect(narrowed).toEqual({ created: 0, updated: 0, removed: allZones.length - filtered.length });
+    expect(counts.createdObjects).toBe(0);
+
+    const widened = registry.sync(allZones, styledBySelection(null));
+
+    expect(widened).toEqual({ created: allZones.length - filtered.length, updated: 0, removed: 0 });
+    expect(registry.size).toBe(allZones.length);
+  });
+
+  it('keeps the polygons of zones that are new objects with the same geometry', () => {
+    const { renderer } = createCountingRenderer();
+    const registry = createPolygonRegistry(renderer);
+    registry.sync(allZones, styledBySelection(null));
+    const withDistances = allZones.map(zone => ({ ...zone, boundaryDistance: 1 }));
+
+    expect(registry.sync(withDistances, styledBySelection(null))).toEqual({ created: 0, updated: 0, removed: 0 });
+    expect(registry.getZone(allZones[0].id)).toBe(withDistances[0]); // Clicks report the latest object
+  });
+
+  it('draws a zone again when its geometry changes', () => {
+    const { renderer } = createCountingRenderer();
+    const registry = createPolygonRegistry(renderer);
+    registry.sync(allZones, styledBySelection(null));
+    const updated = allZones.map((zone, index) => (index === 0 ? { ...zone, geometry: { ...zone.geometry } } : zone));
+
+    expect(registry.sync(updated, styledBySelection(null))).toEqual({ created: 1, updated: 0, removed: 1 });
+  });
+
+  it('removes every polygon on clear', () => {
+    const { renderer, counts } = createCountingRenderer();
+    const registry = createPolygonRegistry(renderer);
+    registry.sync(allZones, styledBySelection(null));
+
+    registry.clear();
+
+    expect(registry.size).toBe(0);
+    expect(counts.removedObjects).toBe(counts.createdObjects);
+  });
+});
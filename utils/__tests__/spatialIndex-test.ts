@@ -0,0 +1,130 @@
+import * as turf from '@turf/turf';
+import dogZonesData from '@/assets/data/amersfoort-hondenkaart.json';
+import { ProcessedZone } from '@/types';
+import { getCentroid, getDistanceToZone } from '../geometry';
+import { createZoneIndex } from '../spatialIndex';
+import { parseGeoJsonData } from '../validateGeoJson';
+
+// All 804 source features, dogs-forbidden ones included, as zones of their own
+const zones = parseGeoJsonData(dogZonesData).features.map((feature): ProcessedZone => ({
+  ...feature,
+  sourceId: feature.id,
+  zoneType: 'area',
+  centroid: getCentroid(feature.geometry)!,
+}));
+const index = createZoneIndex(zones);
+
+const rood = zones.filter(zone => zone.properties.CODE === 'ROOD');
+// Locations all over the dataset: every 40th zone's centroid, a few spots between zones and one outside the city
+const locations: [string, number, number][] = [
+  ...zones.filter((_zone, i) => i % 40 === 0).map((zone): [string, number, number] => [zone.id, zone.centroid.lat, zone.centroid.lng]),
+  ['the city centre', 52.1561, 5.3878],
+  ['the east of the city', 52.17, 5.42],
+  ['Utrecht', 52.09, 5.12],
+];
+
+// The linear scans the index replaces
+const linearNearest = (lat: number, lng: number, count: number, candidates = zones) =>
+  candidates
+    .map(zone => ({ zone, distance: getDistanceToZone(lat, lng, zone.geometry)! }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, count);
+const linearContaining = (lat: number, lng: number) =>
+  zones.filter(zone => turf.booleanPointInPolygon([lng, lat], zone.geometry));
+
+describe('createZoneIndex', () => {
+  it('indexes every feature', () => {
+    expect(index.size).toBe(804);
+    expect(rood).toHaveLength(634);
+  });
+
+  describe('nearest', () => {
+    it.each(locations)('finds the zones a linear scan finds at %s', (_name, lat, lng) => {
+      const found = index.nearest(lat, lng, 5);
+      const expected = linearNearest(lat, lng, 5);
+
+      expect(found.map(nearby => nearby.distance)).toEqual(expected.map(nearby => nearby.distance));
+      expect(new Set(found.map(nearby => nearby.zone.id))).toEqual(new Set(expected.map(nearby => nearby.zone.id)));
+    });
+
+    it('puts a zone the location is inside first, at distance 0', () => {
+      const [first] = index.nearest(rood[0].centroid.lat, rood[0].centroid.lng, 3);
+
+      expect(first.distance).toBe(0);
+      expect(linearContaining(rood[0].centroid.lat, rood[0].centroid.lng)).toContain(first.zone);
+    });
+
+    it('leaves out the zones not included, e.g. the ROOD ones', () => {
+      const allowed = (zone: ProcessedZone) => zone.properties.CODE !== 'ROOD';
+      const { lat, lng } = rood[100].centroid;
+      const found = index.nearest(lat, lng, 5, allowed);
+
+      expect(found.some(nearby => nearby.zone.properties.CODE === 'ROOD')).toBe(false);
+      expect(found.map(nearby => nearby.distance)).toEqual(linearNearest(lat, lng, 5, zones.filter(allowed)).map(nearby => nearby.distance));
+    });
+
+    it('returns every zone when fewer than asked for are included', () => {
+      const waterPlaygrounds = index.nearest(52.1561, 5.3878, 5, zone => zone.properties.CODE === 'WATERSPEELPLEK');
+
+      expect(waterPlaygrounds).toHaveLength(3);
+      expect(index.nearest(52.1561, 5.3878, 0)).toEqual([]);
+    });
+  });
+
+  describe('containing', () => {
+    it('finds the polygons a linear scan finds', () => {
+      for (const [, lat, lng] of locations) {
+        expect(index.containing(lat, lng)).toEqual(linearContaining(lat, lng));
+      }
+    });
+
+    it('finds every ROOD zone at its centroid', () => {
+      for (const zone of rood) {
+        expect(index.containing(zone.centroid.lat, zone.centroid.lng)).toContain(zone);
+      }
+    });
+
+    it('leaves out zones whose hole holds the location', () => {
+      const withHole = zones.find(zone => zone.geometry.type === 'Polygon' && zone.geometry.coordinates.length > 1)!;
+      const [lng, lat] = turf.centerOfMass(turf.polygon([withHole.geometry.coordinates[1] as number[][]])).geometry.coordinates;
+
+      expect(index.containing(lat, lng)).not.toContain(withHole);
+      expect(index.containing(lat, lng)).toEqual(linearContaining(lat, lng));
+    });
+
+    it('finds nothing outside the dataset', () => {
+      expect(index.containing(52.09, 5.12)).toEqual([]);
+    });
+  });
+
+  describe('inBounds', () => {
+    it('finds the zones whose bounding box overlaps the bounds', () => {
+      const bounds = { south: 52.15, west: 5.37, north: 52.16, east: 5.39 };
+      const expected = zones.filter(zone => {
+        const [west, south, east, north] = turf.bbox(zone.geometry);
+        return west <= bounds.east && east >= bounds.west && south <= bounds.north && north >= bounds.south;
+      });
+
+      expect(expected.length).toBeGreaterThan(0);
+      expect(index.inBounds(bounds)).toEqual(expected);
+    });
+
+    it('finds all zones within bounds around the city and none far from it', () => {
+      expect(index.inBounds({ south: 52, west: 5, north: 53, east: 6 })).toHaveLength(804);
+      expect(index.inBounds({ south: 51, west: 4, north: 51.1, east: 4.1 })).toEqual([]);
+    });
+  });
+
+  it('looks zones up by ID', () => {
+    expect(index.get(rood[0].id)).toBe(rood[0]);
+    expect(index.get('Hondenkaart.gone')).toBeUndefined();
+  });
+
+  it('answers nothing without zones', () => {
+    const empty = createZoneIndex([]);
+
+    expect(empty.nearest(52.1561, 5.3878, 5)).toEqual([]);
+    expect(empty.containing(52.1561, 5.3878)).toEqual([]);
+    expect(empty.size).toBe(0);
+  });
+});
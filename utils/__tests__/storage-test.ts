@@ -0,0 +1,69 @@
+import { createVersionedStore, KeyValueStorage } from '../storage';
+
+function createMemoryStorage(): KeyValueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+// A store of a list of numbers, the way the app's stores are set up
+const createNumbersStore = (storage: KeyValueStorage, formatVersion = 2) => createVersionedStore<number[]>(storage, {
+  key: 'numbers',
+  field: 'values',
+  formatVersion,
+  name: 'numbers',
+  empty: [],
+  parse: value => (Array.isArray(value) ? value.filter((item): item is number => typeof item === 'number') : null),
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createVersionedStore', () => {
+  it('keeps the value next to its format version', async () => {
+    const storage = createMemoryStorage();
+
+    await createNumbersStore(storage).save([1, 2]);
+
+    expect(JSON.parse(storage.items.get('numbers')!)).toEqual({ formatVersion: 2, values: [1, 2] });
+    expect(await createNumbersStore(storage).load()).toEqual([1, 2]);
+  });
+
+  it('loads the empty value when nothing usable is stored', async () => {
+    const storage = createMemoryStorage();
+    expect(await createNumbersStore(storage).load()).toEqual([]);
+
+    storage.items.set('numbers', '{not json');
+    expect(await createNumbersStore(storage).load()).toEqual([]);
+
+    storage.items.set('numbers', 'null');
+    expect(await createNumbersStore(storage).load()).toEqual([]);
+
+    storage.items.set('numbers', JSON.stringify({ formatVersion: 2, values: 'none' }));
+    expect(await createNumbersStore(storage).load()).toEqual([]);
+  });
+
+  it('ignores entries of another format version', async () => {
+    const storage = createMemoryStorage();
+    await createNumbersStore(storage, 1).save([1, 2]);
+
+    expect(await createNumbersStore(storage).load()).toEqual([]);
+  });
+
+  it('lets parse drop what it does not expect', async () => {
+    const storage = createMemoryStorage();
+    storage.items.set('numbers', JSON.stringify({ formatVersion: 2, values: [1, 'two', 3] }));
+
+    expect(await createNumbersStore(storage).load()).toEqual([1, 3]);
+  });
+});
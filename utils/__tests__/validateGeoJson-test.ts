@@ -0,0 +1,102 @@
+import dogZonesData from '@/assets/data/amersfoort-hondenkaart.json';
+import { GeoJsonValidationError, isGeoJsonData, parseGeoJsonData, validateGeoJsonData } from '../validateGeoJson';
+
+const square = [[[5.38, 52.15], [5.381, 52.15], [5.381, 52.151], [5.38, 52.151], [5.38, 52.15]]];
+
+function makeFeature(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    type: 'Feature',
+    id,
+    geometry: { type: 'Polygon', coordinates: square },
+    properties: { OPPERVLAKTE: '100', WIJKNAAM: 'Schothorst-zuid', CODE: 'GROEN', GEBIEDSTEAM: 'Noord', ID: 1 },
+    ...overrides,
+  };
+}
+
+const collection = (...features: unknown[]) => ({ type: 'FeatureCollection', features });
+
+describe('validateGeoJsonData', () => {
+  it('accepts the Amersfoort dataset', () => {
+    expect(validateGeoJsonData(dogZonesData)).toEqual([]);
+  });
+
+  it('accepts MultiPolygons and point zones without an area', () => {
+    const multi = makeFeature('a', { geometry: { type: 'MultiPolygon', coordinates: [square, square] } });
+    const point = makeFeature('b', {
+      properties: { OPPERVLAKTE: null, WIJKNAAM: null, CODE: 'GROEN', GEBIEDSTEAM: null, ID: 2 },
+    });
+
+    expect(isGeoJsonData(collection(multi, point))).toBe(true);
+  });
+
+  it('rejects data that is not a FeatureCollection', () => {
+    expect(validateGeoJsonData(null)).toEqual([{ index: -1, featureId: null, reason: 'data is not an object' }]);
+    expect(validateGeoJsonData({ type: 'Feature' })[0].reason).toContain('FeatureCollection');
+    expect(validateGeoJsonData({ type: 'FeatureCollection' })[0].reason).toBe('features is not an array');
+  });
+
+  it('reports every failing feature by ID and reason', () => {
+    const issues = validateGeoJsonData(collection(
+      makeFeature('ok'),
+      makeFeature('no-code', { properties: { OPPERVLAKTE: '1', WIJKNAAM: null, CODE: '', GEBIEDSTEAM: null, ID: 3 } }),
+      makeFeature('point', { geometry: { type: 'Point', coordinates: [5.38, 52.15] } }),
+      makeFeature('short', { geometry: { type: 'Polygon', coordinates: [square[0].slice(0, 3)] } }),
+      makeFeature('strings', { geometry: { type: 'Polygon', coordinates: [square[0].map(([lng, lat]) => [`${lng}`, lat])] } }),
+      makeFeature('ok'),
+      { type: 'Feature', geometry: null, properties: {} },
+    ));
+
+    expect(issues).toEqual([
+      { index: 1, featureId: 'no-code', reason: 'CODE is missing' },
+      { index: 2, featureId: 'point', reason: 'unsupported geometry type "Point"' },
+      { index: 3, featureId: 'short', reason: 'Polygon outer ring has fewer than 4 positions' },
+      { index: 4, featureId: 'strings', reason: 'Polygon outer ring: position contains a non-numeric value' },
+      { index: 5, featureId: 'ok', reason: 'duplicate id' },
+      { index: 6, featureId: null, reason: 'id is missing' },
+    ]);
+  });
+
+  it('rejects unclosed rings, out-of-range positions and unparseable areas', () => {
+    const unclosed = [[[5.38, 52.15], [5.381, 52.15], [5.381, 52.151], [5.38, 52.151]]];
+    const swapped = square.map(ring => ring.map(([lng, lat]) => [lat, lng + 100]));
+
+    const issues = validateGeoJsonData(collection(
+      makeFeature('unclosed', { geometry: { type: 'Polygon', coordinates: unclosed } }),
+      makeFeature('swapped', { geometry: { type: 'MultiPolygon', coordinates: [square, swapped] } }),
+      makeFeature('area', { properties: { OPPERVLAKTE: 'n/a', WIJKNAAM: null, CODE: 'GROEN', GEBIEDSTEAM: null, ID: 4 } }),
+    ));
+
+    expect(issues.map(issue => issue.reason)).toEqual([
+      'Polygon outer ring is not closed',
+      'MultiPolygon part 1: outer ring: position [52.15, 105.38] is out of range',
+      'OPPERVLAKTE "n/a" is not a number',
+    ]);
+  });
+});
+
+describe('parseGeoJsonData', () => {
+  it('returns valid data unchanged', () => {
+    const data = collection(makeFeature('a'));
+
+    expect(parseGeoJsonData(data)).toBe(data);
+  });
+
+  it('throws an error listing the failing feature IDs', () => {
+    const data = collection(makeFeature('Hondenkaart.1', { geometry: null }), makeFeature('Hondenkaart.2'));
+
+    expect(() => parseGeoJsonData(data)).toThrow(GeoJsonValidationError);
+    expect(() => parseGeoJsonData(data)).toThrow('Invalid dog zone data: Hondenkaart.1: geometry is missing');
+  });
+
+  it('summarises long issue lists in the message but keeps all issues', () => {
+    const data = collection(...Array.from({ length: 8 }, (_, i) => makeFeature(`f${i}`, { type: 'Point' })));
+
+    try {
+      parseGeoJsonData(data);
+      throw new Error('expected parseGeoJsonData to throw');
+    } catch (error) {
+      expect((error as GeoJsonValidationError).issues).toHaveLength(8);
+      expect((error as Error).message).toContain('(and 3 more)');
+    }
+  });
+});
@@ -0,0 +1,161 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { TrackPoint, Walk } from '@/types';
+import {
+  createWalkStore,
+  formatWalkSummary,
+  MAX_STORED_WALKS,
+  SavedWalk,
+  shouldRecordPoint,
+  shouldResumeRecording,
+  summarizeWalk,
+  toMapTrack,
+  WalkSummary,
+} from '../walks';
+import { createZoneIndex } from '../spatialIndex';
+import { KeyValueStorage } from '../storage';
+import { parseZoneAsset } from '../zoneAsset';
+
+const { zones, forbiddenZones } = parseZoneAsset(bundledZoneAsset);
+const zoneIndex = createZoneIndex([...zones, ...forbiddenZones]);
+const groen = zones.find(zone => zone.properties.CODE === 'GROEN' && zone.zoneType === 'area' && zone.properties.WIJKNAAM)!;
+const outside = { lat: 52.0, lng: 5.0 }; // South of Amersfoort
+
+const MINUTE = 60 * 1000;
+const pointAt = (minutes: number, { lat, lng }: { lat: number; lng: number }, accuracy: number | null = 5): TrackPoint =>
+  ({ timestamp: minutes * MINUTE, lat, lng, accuracy });
+const walkOf = (points: TrackPoint[]): Walk =>
+  ({ id: 'walk_1', startedAt: points[0].timestamp, endedAt: points[points.length - 1].timestamp, points });
+
+function createMemoryStorage(): KeyValueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('shouldRecordPoint', () => {
+  it('skips inaccurate and out-of-order fixes', () => {
+    const previous = pointAt(1, outside);
+
+    expect(shouldRecordPoint(pointAt(2, outside), previous)).toBe(true);
+    expect(shouldRecordPoint(pointAt(2, outside, null), previous)).toBe(true);
+    expect(shouldRecordPoint(pointAt(2, outside, 80), previous)).toBe(false);
+    expect(shouldRecordPoint(pointAt(1, outside), previous)).toBe(false);
+    expect(shouldRecordPoint(pointAt(0, outside), undefined)).toBe(true);
+  });
+});
+
+describe('summarizeWalk', () => {
+  const nearCentroid = { lat: groen.centroid.lat + 0.00001, lng: groen.centroid.lng };
+
+  it('splits time and distance by the zone type each stretch starts in', () => {
+    const summary = summarizeWalk(walkOf([
+      pointAt(0, groen.centroid),
+      pointAt(10, nearCentroid),
+      pointAt(25, outside),
+      pointAt(30, outside),
+    ]), zoneIndex);
+
+    expect(summary.durationMs).toBe(30 * MINUTE);
+    expect(summary.byStatus['off-leash'].durationMs).toBe(25 * MINUTE);
+    expect(summary.byStatus.none.durationMs).toBe(5 * MINUTE);
+    expect(summary.byStatus['off-leash'].distanceM).toBeGreaterThan(1000); // Includes the stretch out of town
+    expect(summary.distanceM).toBeCloseTo(summary.byStatus['off-leash'].distanceM + summary.byStatus.none.distanceM, 6);
+    expect(summary.offLeashByNeighbourhood[groen.properties.WIJKNAAM!].durationMs).toBe(25 * MINUTE);
+  });
+
+  it('does not attribute long gaps in the track to a zone', () => {
+    const summary = summarizeWalk(walkOf([pointAt(0, groen.centroid), pointAt(60, nearCentroid)]), zoneIndex);
+
+    expect(summary.durationMs).toBe(60 * MINUTE);
+    expect(summary.byStatus['off-leash'].durationMs).toBe(0);
+  });
+});
+
+describe('formatWalkSummary', () => {
+  const totals = (minutes: number) => ({ durationMs: minutes * MINUTE, distanceM: 0 });
+  const summaryOf = (offLeashMinutes: number, neighbourhoods: { [name: string]: number }): WalkSummary => ({
+    ...totals(32),
+    byStatus: { 'off-leash': totals(offLeashMinutes), leash: totals(0), forbidden: totals(0), none: totals(32 - offLeashMinutes) },
+    offLeashByNeighbourhood: Object.fromEntries(Object.entries(neighbourhoods).map(([name, minutes]) => [name, totals(minutes)])),
+  });
+
+  it('names the neighbourhood with the most off-leash time', () => {
+    expect(formatWalkSummary(summaryOf(18, { 'Schothorst-zuid': 15, Kruiskamp: 3 }))).toBe('32 min, 18 off-leash in Schothorst-zuid');
+  });
+
+  it('leaves out the off-leash part when there was none', () => {
+    expect(formatWalkSummary(summaryOf(0, {}))).toBe('32 min');
+  });
+});
+
+describe('createWalkStore', () => {
+  it('keeps walks across store instances, newest first, up to the limit', async () => {
+    const storage = createMemoryStorage();
+    const walk = walkOf([pointAt(0, outside), pointAt(5, outside)]);
+    const saved: SavedWalk = { ...walk, summary: summarizeWalk(walk, zoneIndex) };
+    const many = Array.from({ length: MAX_STORED_WALKS + 5 }, (_, i) => ({ ...saved, id: `walk_${i}` }));
+
+    await createWalkStore(storage).walks.save(many);
+    const loaded = await createWalkStore(storage).walks.load();
+
+    expect(loaded).toHaveLength(MAX_STORED_WALKS);
+    expect(loaded[0]).toEqual(many[0]);
+  });
+
+  it('starts empty when nothing usable is stored', async () => {
+    const storage = createMemoryStorage();
+    storage.items.set('walks', '{not json');
+
+    expect(await createWalkStore(storage).walks.load()).toEqual([]);
+  });
+
+  it('keeps the walk being recorded until it is stopped', async () => {
+    const storage = createMemoryStorage();
+    const walk = walkOf([pointAt(0, outside), pointAt(1, outside)]);
+
+    expect(await createWalkStore(storage).recording.load()).toBeNull();
+    await createWalkStore(storage).recording.save(walk);
+    expect(await createWalkStore(storage).recording.load()).toEqual(walk);
+
+    await createWalkStore(storage).recording.save(null);
+    expect(await createWalkStore(storage).recording.load()).toBeNull();
+  });
+
+  it('ignores an unreadable recording', async () => {
+    const storage = createMemoryStorage();
+    storage.items.set('walks.recording', '{not json');
+
+    expect(await createWalkStore(storage).recording.load()).toBeNull();
+  });
+});
+
+describe('shouldResumeRecording', () => {
+  it('resumes a recording closed a few minutes ago, but not one closed long ago', () => {
+    const walk = walkOf([pointAt(0, outside), pointAt(10, outside)]);
+
+    expect(shouldResumeRecording(walk, 12 * MINUTE)).toBe(true);
+    expect(shouldResumeRecording(walk, 60 * MINUTE)).toBe(false);
+  });
+});
+
+describe('toMapTrack', () => {
+  it('draws the walk through every recorded point', () => {
+    expect(toMapTrack(walkOf([pointAt(0, outside), pointAt(1, groen.centroid)]))).toEqual({
+      id: 'walk_1',
+      coordinates: [outside, groen.centroid],
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import dogZonesData from '@/assets/data/amersfoort-hondenkaart.json';
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { AMERSFOORT_DATASET } from '@/constants/Datasets';
+import { Geometry } from '@/types';
+import { normalizeDataset } from '../datasets';
+import { parseGeoJsonData, validateGeoJsonData } from '../validateGeoJson';
+import { buildZoneAsset, parseZoneAsset, simplifyGeometry, ZONE_ASSET_FORMAT_VERSION, ZoneAsset } from '../zoneAsset';
+
+// Read as `npm run zones -- build` reads it
+const data = parseGeoJsonData(normalizeDataset(dogZonesData, AMERSFOORT_DATASET));
+
+const countVertices = (geometry: Geometry) =>
+  (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates)
+    .reduce((sum, rings) => sum + rings.reduce((ringSum, ring) => ringSum + ring.length, 0), 0);
+
+// Building merges the whole dataset, so do it once
+let asset: ZoneAsset;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  asset = buildZoneAsset(data);
+  jest.restoreAllMocks();
+});
+
+describe('simplifyGeometry', () => {
+  it('drops vertices on straight edges and rounds coordinates', () => {
+    const square: Geometry = {
+      type: 'Polygon',
+      coordinates: [[[5.1, 52.1], [5.1000004, 52.1005], [5.1, 52.101], [5.101, 52.101], [5.101, 52.1], [5.1, 52.1]]],
+    };
+
+    expect(simplifyGeometry(square, 0.00001)).toEqual({
+      type: 'Polygon',
+      coordinates: [[[5.1, 52.1], [5.1, 52.101], [5.101, 52.101], [5.101, 52.1], [5.1, 52.1]]],
+    });
+  });
+
+  it('keeps tiny polygons intact instead of collapsing them', () => {
+    const tiny: Geometry = { type: 'Polygon', coordinates: [[[5.1, 52.1], [5.100001, 52.1], [5.100001, 52.100001], [5.1, 52.1]]] };
+
+    expect(simplifyGeometry(tiny, 0.001).coordinates[0]).toHaveLength(4);
+  });
+
+  it('keeps every vertex with a tolerance of 0', () => {
+    data.features.slice(0, 20).forEach(feature => {
+      expect(countVertices(simplifyGeometry(feature.geometry, 0))).toBe(countVertices(feature.geometry));
+    });
+  });
+});
+
+describe('buildZoneAsset', () => {
+  it('records the format, dataset version and feature count', () => {
+    expect(asset.formatVersion).toBe(ZONE_ASSET_FORMAT_VERSION);
+    expect(asset.version).toBe('2023-05-16T21:01:50.127Z');
+    expect(asset.sourceFeatureCount).toBe(804);
+    expect(asset.zones).toHaveLength(67);
+    expect(asset.forbiddenZones).toHaveLength(637);
+  });
+
+  it('simplifies geometries into valid, smaller polygons', () => {
+    const zones = [...asset.zones, ...asset.forbiddenZones];
+    const vertices = zones.reduce((sum, zone) => sum + countVertices(zone.geometry), 0);
+    const sourceVertices = data.features.reduce((sum, feature) => sum + countVertices(feature.geometry), 0);
+
+    expect(validateGeoJsonData({ type: 'FeatureCollection', features: zones })).toEqual([]);
+    expect(vertices).toBeLessThan(sourceVertices);
+  });
+
+  it('survives a JSON round trip', () => {
+    expect(parseZoneAsset(JSON.parse(JSON.stringify(asset))).zones).toHaveLength(asset.zones.length);
+  });
+});
+
+describe('parseZoneAsset', () => {
+  it('rejects assets of another format', () => {
+    expect(() => parseZoneAsset({ ...asset, formatVersion: 0 })).toThrow('Rebuild it');
+    expect(() => parseZoneAsset(null)).toThrow('Rebuild it');
+    expect(() => parseZoneAsset({ formatVersion: ZONE_ASSET_FORMAT_VERSION, version: 'x' })).toThrow('incomplete');
+  });
+
+  it('accepts the bundled asset, built from the bundled dataset', () => {
+    const bundled = parseZoneAsset(bundledZoneAsset);
+
+    expect(bundled.version).toBe(asset.version);
+    expect(bundled.zones.map(zone => zone.id)).toEqual(asset.zones.map(zone => zone.id));
+    expect(bundled.forbiddenZones).toHaveLength(asset.forbiddenZones.length);
+  });
+
+  it('is the bundled asset exactly as the build writes it, so rebuilding leaves it unchanged', () => {
+    expect(JSON.stringify(asset)).toBe(JSON.stringify(bundledZoneAsset));
+  });
+});
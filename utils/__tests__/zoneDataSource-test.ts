@@ -0,0 +1,219 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GeoJsonData } from '@/types';
+import { AMERSFOORT_DATASET } from '@/constants/Datasets';
+import { FileStorage, KeyValueStorage } from '../storage';
+import { createZoneDataSource, isNewerVersion } from '../zoneDataSource';
+
+const currentData = {
+  type: 'FeatureCollection',
+  timeStamp: '2023-05-16T21:01:50.127Z',
+  features: [
+    {
+      type: 'Feature',
+      id: 'Hondenkaart.1',
+      geometry: { type: 'Polygon', coordinates: [[[5.38, 52.15], [5.381, 52.15], [5.381, 52.151], [5.38, 52.15]]] },
+      properties: { OPPERVLAKTE: '100', WIJKNAAM: 'Schothorst-zuid', CODE: 'GROEN', GEBIEDSTEAM: 'Noord', ID: 1 },
+    },
+  ],
+} as GeoJsonData;
+
+const newerData = {
+  ...currentData,
+  timeStamp: '2024-03-01T10:00:00.000Z',
+  features: [...currentData.features, { ...currentData.features[0], id: 'Hondenkaart.2' }],
+} as GeoJsonData;
+
+function createMemoryStorage(): KeyValueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+function createMemoryFiles(): FileStorage & { contents: Map<string, string> } {
+  const contents = new Map<string, string>();
+  return {
+    contents,
+    readFile: async (name) => contents.get(name) ?? null,
+    writeFile: async (name, content) => {
+      contents.set(name, content);
+    },
+    deleteFile: async (name) => {
+      contents.delete(name);
+    },
+  };
+}
+
+// Stub of the CKAN download endpoint; each test sets what it answers
+let respond: (res: http.ServerResponse) => void;
+let server: http.Server;
+let url: string;
+
+beforeAll(async () => {
+  server = http.createServer((_req, res) => respond(res));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/amersfoort-hondenkaart.json`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const serveJson = (body: unknown, status = 200) => {
+  respond = res => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+};
+
+describe('zoneDataSource', () => {
+  it('has no cached data before the first download', async () => {
+    const source = createZoneDataSource({ storage: createMemoryStorage(), files: createMemoryFiles(), url });
+
+    expect(await source.loadCached()).toBeNull();
+  });
+
+  it('downloads, versions and caches the latest data', async () => {
+    serveJson(newerData);
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    const now = () => new Date('2024-04-02T08:30:00.000Z');
+    const source = createZoneDataSource({ storage, files, url, now });
+
+    const refreshed = await source.refresh();
+
+    expect(refreshed.origin).toBe('remote');
+    expect(refreshed.version).toBe('2024-03-01T10:00:00.000Z');
+    expect(refreshed.fetchedAt).toBe('2024-04-02T08:30:00.000Z');
+    expect(refreshed.data.features).toHaveLength(2);
+
+    // Only the metadata goes in AsyncStorage, the data goes in a file
+    expect(JSON.parse(storage.items.get('zoneData.cache.amersfoort')!)).toEqual({
+      formatVersion: 2,
+      cache: { version: '2024-03-01T10:00:00.000Z', fetchedAt: '2024-04-02T08:30:00.000Z', file: 'zoneData.amersfoort.json' },
+    });
+    expect(JSON.parse(files.contents.get('zoneData.amersfoort.json')!)).toEqual(refreshed.data);
+
+    // A fresh source, as after an app restart, picks up the cached copy
+    const loaded = await createZoneDataSource({ storage, files, url }).loadCached();
+    expect(loaded).toEqual({ ...refreshed, origin: 'cache' });
+  });
+
+  it('uses the download time as version when the data has no timestamp', async () => {
+    const { timeStamp: _timeStamp, ...withoutTimeStamp } = newerData as GeoJsonData & { timeStamp: string };
+    serveJson(withoutTimeStamp);
+    const now = () => new Date('2024-04-02T08:30:00.000Z');
+
+    const refreshed = await createZoneDataSource({ storage: createMemoryStorage(), files: createMemoryFiles(), url, now }).refresh();
+
+    expect(refreshed.version).toBe('2024-04-02T08:30:00.000Z');
+  });
+
+  it('rejects invalid data and keeps the cache untouched', async () => {
+    serveJson({ type: 'FeatureCollection', features: [{ type: 'Feature', id: 'x', properties: {}, geometry: null }] });
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    const source = createZoneDataSource({ storage, files, url });
+
+    await expect(source.refresh()).rejects.toThrow('x: CODE is missing');
+    expect(storage.items.size).toBe(0);
+    expect(files.contents.size).toBe(0);
+    expect(await source.loadCached()).toBeNull();
+  });
+
+  it('rejects HTTP errors', async () => {
+    serveJson({ error: 'Not found' }, 404);
+
+    await expect(createZoneDataSource({ storage: createMemoryStorage(), files: createMemoryFiles(), url }).refresh())
+      .rejects.toThrow('HTTP 404');
+  });
+
+  it('rejects responses that are not JSON', async () => {
+    respond = res => {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end('<html>Maintenance</html>');
+    };
+
+    await expect(createZoneDataSource({ storage: createMemoryStorage(), files: createMemoryFiles(), url }).refresh()).rejects.toThrow();
+  });
+
+  it('compares dataset versions by time', () => {
+    expect(isNewerVersion('2024-03-01T10:00:00.000Z', '2023-05-16T21:01:50.127Z')).toBe(true);
+    expect(isNewerVersion('2022-01-01T00:00:00.000Z', '2023-05-16T21:01:50.127Z')).toBe(false);
+    expect(isNewerVersion('2023-05-16T21:01:50.127Z', '2023-05-16T21:01:50.127Z')).toBe(false);
+  });
+
+  it('maps other datasets onto the app schema and caches each dataset apart', async () => {
+    serveJson({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', geometry: currentData.features[0].geometry, properties: { soort: 'los' } }],
+    });
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    const dataset = {
+      ...AMERSFOORT_DATASET,
+      id: 'elsewhere',
+      properties: { code: 'soort', neighbourhood: null, team: null, area: null },
+      codes: { los: 'GROEN' },
+      bundledAsset: null,
+    };
+
+    const refreshed = await createZoneDataSource({ storage, files, dataset, url }).refresh();
+
+    expect(refreshed.data.features[0]).toMatchObject({ id: 'elsewhere.1', properties: { CODE: 'GROEN', WIJKNAAM: null } });
+    expect([...storage.items.keys()]).toEqual(['zoneData.cache.elsewhere']);
+    expect([...files.contents.keys()]).toEqual(['zoneData.elsewhere.json']);
+    expect(await createZoneDataSource({ storage, files, url }).loadCached()).toBeNull();
+  });
+
+  it('ignores a corrupt cache entry', async () => {
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    storage.items.set('zoneData.cache.amersfoort', '{"formatVersion":1,"data":');
+
+    expect(await createZoneDataSource({ storage, files, url }).loadCached()).toBeNull();
+  });
+
+  it('ignores a cache entry whose file is missing or corrupt', async () => {
+    serveJson(newerData);
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    await createZoneDataSource({ storage, files, url }).refresh();
+
+    files.contents.set('zoneData.amersfoort.json', '{"type":"FeatureCollection","features":');
+    expect(await createZoneDataSource({ storage, files, url }).loadCached()).toBeNull();
+
+    files.contents.clear();
+    expect(await createZoneDataSource({ storage, files, url }).loadCached()).toBeNull();
+  });
+
+  it('ignores entries from before the data moved to files', async () => {
+    const storage = createMemoryStorage();
+    const files = createMemoryFiles();
+    storage.items.set('zoneData.cache.amersfoort', JSON.stringify({
+      formatVersion: 1,
+      version: '2024-03-01T10:00:00.000Z',
+      fetchedAt: '2024-04-02T08:30:00.000Z',
+      data: newerData,
+    }));
+
+    expect(await createZoneDataSource({ storage, files, url }).loadCached()).toBeNull();
+  });
+});
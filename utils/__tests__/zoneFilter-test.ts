@@ -0,0 +1,94 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { ProcessedZone } from '@/types';
+import { parseZoneAsset } from '../zoneAsset';
+import {
+  EMPTY_ZONE_FILTER,
+  filterZones,
+  getZoneFilterOptions,
+  getZoneNeighbourhoods,
+  isZoneFilterActive,
+  sortZones,
+  ZoneFilter,
+} from '../zoneFilter';
+
+const { zones, forbiddenZones } = parseZoneAsset(bundledZoneAsset);
+const allZones = [...zones, ...forbiddenZones];
+
+const withFilter = (changes: Partial<ZoneFilter>): ZoneFilter => ({ ...EMPTY_ZONE_FILTER, ...changes });
+
+describe('getZoneFilterOptions', () => {
+  it('lists the neighbourhoods, codes and area teams of the dataset', () => {
+    const options = getZoneFilterOptions(allZones);
+
+    expect(options.neighbourhoods).toHaveLength(29); // Features without a WIJKNAAM add none
+    expect(options.neighbourhoods).toEqual([...options.neighbourhoods].sort((a, b) => a.localeCompare(b)));
+    expect(options.codes).toEqual(['GROEN', 'ORANJE', 'ROOD', 'WATERSPEELPLEK']);
+    expect(options.teams).toEqual(['Midden', 'Noord', 'Zuid']);
+  });
+});
+
+describe('getZoneNeighbourhoods', () => {
+  it('includes the neighbourhoods of every merged member', () => {
+    const merged = zones.find(zone => zone.memberIds)!;
+    const zone: ProcessedZone = { ...merged, memberIds: [...merged.memberIds!, { id: 'Hondenkaart.1', WIJKNAAM: 'Vathorst' }] };
+
+    expect(getZoneNeighbourhoods(zone)).toEqual([merged.properties.WIJKNAAM, 'Vathorst']);
+  });
+});
+
+describe('filterZones', () => {
+  it('returns the same list when no filter is set', () => {
+    expect(isZoneFilterActive(EMPTY_ZONE_FILTER)).toBe(false);
+    expect(filterZones(zones, EMPTY_ZONE_FILTER)).toBe(zones);
+  });
+
+  it('matches part of a neighbourhood name, ignoring case', () => {
+    const result = filterZones(allZones, withFilter({ query: '  schothorst ' }));
+
+    expect(result.length).toBeGreaterThan(0);
+    result.forEach(zone => {
+      expect(getZoneNeighbourhoods(zone).some(name => name.toLowerCase().includes('schothorst'))).toBe(true);
+    });
+    expect(filterZones(allZones, withFilter({ query: 'Atlantis' }))).toEqual([]);
+  });
+
+  it('keeps only the selected codes and area teams', () => {
+    const result = filterZones(allZones, withFilter({ codes: ['ORANJE', 'WATERSPEELPLEK'], teams: ['Noord'] }));
+
+    expect(result.length).toBeGreaterThan(0);
+    result.forEach(zone => {
+      expect(['ORANJE', 'WATERSPEELPLEK']).toContain(zone.properties.CODE);
+      expect(zone.properties.GEBIEDSTEAM).toBe('Noord');
+    });
+    expect(filterZones(allZones, withFilter({ codes: ['WATERSPEELPLEK'] }))).toHaveLength(3);
+  });
+
+  it('drops zones below the minimum area, including point zones without one', () => {
+    const result = filterZones(zones, withFilter({ minArea: 5000 }));
+
+    expect(result.length).toBeGreaterThan(0);
+    expect(result.length).toBeLessThan(zones.length);
+    result.forEach(zone => expect(zone.area).toBeGreaterThanOrEqual(5000));
+    expect(result.some(zone => zone.zoneType === 'point')).toBe(false);
+  });
+});
+
+describe('sortZones', () => {
+  const zoneAt = (id: string, area: number | undefined) => ({ id, area }) as ProcessedZone;
+  const distances: Record<string, number | undefined> = { a: 2, b: 0.5, c: undefined, d: 1 };
+  const sample = [zoneAt('a', 100), zoneAt('b', undefined), zoneAt('c', 300), zoneAt('d', 200)];
+
+  it('sorts nearest first, zones without a distance last', () => {
+    expect(sortZones(sample, 'distance', zone => distances[zone.id]).map(zone => zone.id)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('sorts largest first, zones without an area last', () => {
+    expect(sortZones(sample, 'size', () => undefined).map(zone => zone.id)).toEqual(['c', 'd', 'a', 'b']);
+  });
+
+  it('does not modify the input', () => {
+    sortZones(sample, 'size', () => undefined);
+
+    expect(sample.map(zone => zone.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
@@ -0,0 +1,42 @@
+import bundledZoneAsset from '@/assets/data/amersfoort-zones.json';
+import { ProcessedZone } from '@/types';
+import { parseZoneAsset } from '../zoneAsset';
+import { groupZonesByNeighbourhood, UNKNOWN_NEIGHBOURHOOD, UNKNOWN_TEAM } from '../zoneGroups';
+
+const { zones } = parseZoneAsset(bundledZoneAsset);
+
+const zoneAt = (id: string, CODE: string, WIJKNAAM: string | null, GEBIEDSTEAM: string | null, area?: number) =>
+  ({ id, sourceId: id, area, properties: { CODE, WIJKNAAM, GEBIEDSTEAM } }) as ProcessedZone;
+
+describe('groupZonesByNeighbourhood', () => {
+  it('lists every zone of the dataset exactly once', () => {
+    const groups = groupZonesByNeighbourhood(zones);
+    const listed = groups.flatMap(group => group.teams.flatMap(team => team.zones.map(zone => zone.id)));
+
+    expect(listed.sort()).toEqual(zones.map(zone => zone.id).sort());
+    expect(groups.reduce((sum, group) => sum + group.zoneCount, 0)).toBe(zones.length);
+  });
+
+  it('sums the off-leash area over the GROEN and ORANJE zones', () => {
+    const groups = groupZonesByNeighbourhood(zones);
+    const zoneArea = zones.reduce((sum, zone) => sum + (zone.area ?? 0), 0);
+
+    expect(groups.reduce((sum, group) => sum + group.offLeashArea, 0)).toBeCloseTo(zoneArea, 3);
+  });
+
+  it('sorts groups by name with the unknown group last, and zones largest first', () => {
+    const groups = groupZonesByNeighbourhood([
+      zoneAt('a', 'GROEN', 'Vathorst', 'Noord', 100),
+      zoneAt('b', 'ORANJE', null, null, 900),
+      zoneAt('c', 'GROEN', 'Schothorst', null),
+      zoneAt('d', 'GROEN', 'Schothorst', 'Noord', 300),
+      zoneAt('e', 'GROEN', 'Schothorst', 'Noord', 500),
+    ]);
+
+    expect(groups.map(group => group.neighbourhood)).toEqual(['Schothorst', 'Vathorst', UNKNOWN_NEIGHBOURHOOD]);
+    expect(groups[0].teams.map(team => team.team)).toEqual(['Noord', UNKNOWN_TEAM]);
+    expect(groups[0].teams[0].zones.map(zone => zone.id)).toEqual(['e', 'd']);
+    expect(groups[0]).toMatchObject({ zoneCount: 3, offLeashArea: 800 });
+    expect(groups[2]).toMatchObject({ zoneCount: 1, offLeashArea: 900 });
+  });
+});
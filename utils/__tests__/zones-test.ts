@@ -0,0 +1,170 @@
+import * as turf from '@turf/turf';
+import dogZonesData from '@/assets/data/amersfoort-hondenkaart.json';
+import { GeoJsonData, ProcessedZone } from '@/types';
+import { MERGED_ZONE_ID_PREFIX } from '../mergeAreas';
+import { parseGeoJsonData } from '../validateGeoJson';
+import { findZoneBySourceId, getZoneDetailPath, parseArea, processZoneData, ProcessedZoneData } from '../zones';
+
+// Rough bounding box of the municipality of Amersfoort
+const AMERSFOORT_BBOX = { minLat: 52.10, maxLat: 52.22, minLng: 5.29, maxLng: 5.49 };
+
+const data: GeoJsonData = parseGeoJsonData(dogZonesData);
+const featuresOf = (code: string) => data.features.filter(feature => feature.properties.CODE === code);
+const countBy = (zones: ProcessedZone[], key: (zone: ProcessedZone) => string) =>
+  zones.reduce<Record<string, number>>((counts, zone) => {
+    counts[key(zone)] = (counts[key(zone)] ?? 0) + 1;
+    return counts;
+  }, {});
+
+// Merging the real dataset takes a couple of seconds, so process it once
+let result: ProcessedZoneData;
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  result = processZoneData(data);
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseArea', () => {
+  it('parses positive OPPERVLAKTE values only', () => {
+    expect(parseArea('1234.5')).toBe(1234.5);
+    expect(parseArea('0')).toBeUndefined();
+    expect(parseArea(null)).toBeUndefined();
+    expect(parseArea('unknown')).toBeUndefined();
+  });
+});
+
+describe('processZoneData on the Amersfoort dataset', () => {
+  it('splits the zones per CODE into merged areas, point zones and the forbidden layer', () => {
+    expect(countBy(result.zones, zone => `${zone.properties.CODE} ${zone.zoneType}`)).toEqual({
+      'GROEN area': 50,
+      'GROEN point': 12,
+      'ORANJE area': 1,
+      'ORANJE point': 4,
+    });
+    expect(countBy(result.forbiddenZones, zone => zone.properties.CODE)).toEqual({ ROOD: 634, WATERSPEELPLEK: 3 });
+  });
+
+  it('keeps every forbidden zone as an unmerged area', () => {
+    result.forbiddenZones.forEach(zone => {
+      expect(zone.zoneType).toBe('area');
+      expect(zone.memberIds).toBeUndefined();
+    });
+  });
+
+  it('accounts for every GROEN and ORANJE feature exactly once', () => {
+    ['GROEN', 'ORANJE'].forEach(code => {
+      const zones = result.zones.filter(zone => zone.properties.CODE === code);
+      const sourceIds = zones.flatMap(zone => zone.memberIds?.map(member => member.id) ?? [zone.sourceId]);
+
+      expect(sourceIds.sort()).toEqual(featuresOf(code).map(feature => feature.id).sort());
+    });
+  });
+
+  it('merges nearby areas into unioned zones that keep the summed area', () => {
+    const merged = result.zones.filter(zone => zone.memberIds);
+    const areaBySourceId = new Map(data.features.map(feature => [feature.id, parseArea(feature.properties.OPPERVLAKTE)]));
+
+    expect(countBy(merged, zone => zone.properties.CODE)).toEqual({ GROEN: 22, ORANJE: 1 });
+    merged.forEach(zone => {
+      expect(zone.id.startsWith(MERGED_ZONE_ID_PREFIX)).toBe(true);
+      expect(zone.memberIds!.length).toBeGreaterThan(1);
+      const memberArea = zone.memberIds!.reduce((sum, member) => sum + (areaBySourceId.get(member.id) ?? 0), 0);
+      expect(zone.area).toBeCloseTo(memberArea, 3);
+    });
+    // All 14 ORANJE areas lie within the merge distance of each other
+    expect(merged.find(zone => zone.properties.CODE === 'ORANJE')!.memberIds).toHaveLength(14);
+  });
+
+  it('keeps every merged zone within one neighbourhood', () => {
+    result.zones.filter(zone => zone.memberIds).forEach(zone => {
+      expect(new Set(zone.memberIds!.map(member => member.WIJKNAAM))).toEqual(new Set([zone.properties.WIJKNAAM]));
+    });
+  });
+
+  it('gives point zones no area and area zones a positive one', () => {
+    result.zones.forEach(zone => {
+      if (zone.zoneType === 'point') {
+        expect(zone.area).toBeUndefined();
+      } else {
+        expect(zone.area).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  it('places every centroid in Amersfoort and inside its own zone', () => {
+    [...result.zones, ...result.forbiddenZones].forEach(zone => {
+      const { lat, lng } = zone.centroid;
+      expect(lat).toBeGreaterThan(AMERSFOORT_BBOX.minLat);
+      expect(lat).toBeLessThan(AMERSFOORT_BBOX.maxLat);
+      expect(lng).toBeGreaterThan(AMERSFOORT_BBOX.minLng);
+      expect(lng).toBeLessThan(AMERSFOORT_BBOX.maxLng);
+      expect(turf.booleanPointInPolygon([lng, lat], zone.geometry)).toBe(true);
+    });
+  });
+
+  it('gives every zone a unique ID', () => {
+    const ids = [...result.zones, ...result.forbiddenZones].map(zone => zone.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('derives zone IDs from the source features, so they survive reprocessing', () => {
+    [...result.zones, ...result.forbiddenZones].forEach(zone => {
+      if (zone.memberIds) {
+        expect(zone.id).toBe(`${MERGED_ZONE_ID_PREFIX}${zone.properties.CODE}_${zone.memberIds[0].id}`);
+      } else {
+        expect(zone.id).toBe(zone.sourceId);
+      }
+    });
+  });
+
+  it('drops codes the app does not render', () => {
+    const withOtherCode = {
+      ...data,
+      features: [...data.features.slice(0, 3), { ...data.features[0], id: 'Hondenkaart.x', properties: { ...data.features[0].properties, CODE: 'WIT' } }],
+    };
+
+    const { zones, forbiddenZones } = processZoneData(withOtherCode);
+
+    expect([...zones, ...forbiddenZones].map(zone => zone.sourceId)).not.toContain('Hondenkaart.x');
+  });
+});
+
+describe('findZoneBySourceId', () => {
+  it('finds unmerged zones by their own ID and merged zones by any member ID', () => {
+    const allZones = [...result.zones, ...result.forbiddenZones];
+    const forbidden = result.forbiddenZones[0];
+    const merged = result.zones.find(zone => zone.memberIds)!;
+
+    expect(findZoneBySourceId(allZones, forbidden.sourceId)).toBe(forbidden);
+    merged.memberIds!.forEach(member => expect(findZoneBySourceId(allZones, member.id)).toBe(merged));
+    expect(findZoneBySourceId(allZones, 'Hondenkaart.unknown')).toBeNull();
+  });
+});
+
+describe('zone detail links', () => {
+  // What the router hands the screen: the path segment, decoded once
+  const routeParamOf = (path: string) => decodeURIComponent(path.slice('/zone/'.length));
+
+  it('keep an overlay ID with a slash in one path segment', () => {
+    const overlayId = 'overlay_1718000000000/Leusden 12';
+
+    expect(getZoneDetailPath(overlayId)).toBe('/zone/overlay_1718000000000%2FLeusden%2012');
+    expect(routeParamOf(getZoneDetailPath(overlayId))).toBe(overlayId);
+  });
+
+  it('give back an ID holding a "%" unchanged', () => {
+    ['overlay_1000/100%', 'overlay_1000/50%25 off'].forEach(overlayId => {
+      expect(routeParamOf(getZoneDetailPath(overlayId))).toBe(overlayId);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { ProcessedZone } from '@/types';
+import { LatLngBounds } from '@/utils/spatialIndex';
+import { ZONE_STATUS_BY_CODE, ZoneStatus } from '@/utils/zoneStatus';
+
+// Zoom levels as web maps count them: at zoom 0 the world is one 256 px tile, each level doubles it
+const TILE_SIZE_PX = 256;
+// Zones closer together than about this on screen are drawn as one cluster
+export const CLUSTER_RADIUS_PX = 60;
+// From this zoom (a few streets across) every zone is drawn on its own
+export const CLUSTER_MAX_ZOOM = 15;
+
+// Ties between codes go to the most restrictive, so a cluster never looks more permissive than it is
+const STATUS_ORDER: ZoneStatus[] = ['forbidden', 'leash', 'off-leash', 'none'];
+
+// Zones drawn as one marker with their number
+export interface ZoneCluster {
+  id: string; // The same for the same grid cell at the same zoom
+  lat: number; // Mean of the zones' centroids
+  lng: number;
+  zones: ProcessedZone[];
+  dominantCode: string; // CODE most of the zones have, for the cluster's colour
+  bounds: LatLngBounds; // Of the zones' centroids; tapping the cluster zooms the map to them
+}
+
+export interface ClusteredZones {
+  clusters: ZoneCluster[]; // Of two or more zones
+  singles: ProcessedZone[]; // Drawn as usual, in the order given
+}
+
+// Web Mercator position in pixels at a zoom
+const toPixels = (lat: number, lng: number, zoom: number): [number, number] => {
+  const scale = TILE_SIZE_PX * 2 ** zoom;
+  const sinLat = Math.sin(lat * Math.PI / 180);
+  return [
+    (lng + 180) / 360 * scale,
+    (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  ];
+};
+
+const getDominantCode = (zones: ProcessedZone[]): string => {
+  const counts = new Map<string, number>();
+  zones.forEach(zone => counts.set(zone.properties.CODE, (counts.get(zone.properties.CODE) ?? 0) + 1));
+  const restrictiveness = (code: string) => STATUS_ORDER.indexOf(ZONE_STATUS_BY_CODE[code] ?? 'none');
+  return [...counts.entries()]
+    .sort(([codeA, countA], [codeB, countB]) => countB - countA || restrictiveness(codeA) - restrictiveness(codeB))[0][0];
+};
+
+const toCluster = (id: string, zones: ProcessedZone[]): ZoneCluster => {
+  const lats = zones.map(zone => zone.centroid.lat);
+  const lngs = zones.map(zone => zone.centroid.lng);
+  return {
+    id,
+    lat: lats.reduce((sum, lat) => sum + lat, 0) / zones.length,
+    lng: lngs.reduce((sum, lng) => sum + lng, 0) / zones.length,
+    zones,
+    dominantCode: getDominantCode(zones),
+    bounds: { south: Math.min(...lats), west: Math.min(...lngs), north: Math.max(...lats), east: Math.max(...lngs) },
+  };
+};
+
+/**
+ * Groups zones whose centroids share a grid cell of `radiusPx` on screen at the zoom, so dense
+ * point zones and small polygons stay readable zoomed out. `keepSingle` zones (e.g. the selection)
+ * are never grouped; from CLUSTER_MAX_ZOOM on, none are.
+ */
+export function clusterZones(
+  zones: ProcessedZone[],
+  zoom: number,
+  keepSingle: (zone: ProcessedZone) => boolean = () => false,
+  radiusPx: number = CLUSTER_RADIUS_PX
+): ClusteredZones {
+  if (zoom >= CLUSTER_MAX_ZOOM) return { clusters: [], singles: zones };
+
+  const cells = new Map<string, ProcessedZone[]>();
+  for (const zone of zones) {
+    if (!zone.centroid || keepSingle(zone)) continue;
+    const [x, y] = toPixels(zone.centroid.lat, zone.centroid.lng, Math.floor(zoom));
+    const cell = `${Math.floor(x / radiusPx)}:${Math.floor(y / radiusPx)}`;
+    const members = cells.get(cell);
+    if (members) members.push(zone);
+    else cells.set(cell, [zone]);
+  }
+
+  const clusters: ZoneCluster[] = [];
+  const clustered = new Set<ProcessedZone>();
+  cells.forEach((members, cell) => {
+    if (members.length < 2) return;
+    clusters.push(toCluster(`${Math.floor(zoom)}:${cell}`, members));
+    members.forEach(zone => clustered.add(zone));
+  });
+  return { clusters, singles: zones.filter(zone => !clustered.has(zone)) };
+}
+
+/** Diameter in pixels of a cluster's marker, growing with its number of zones. */
+export const getClusterSize = (count: number): number => (count < 10 ? 28 : count < 100 ? 36 : 44);
+
+/**
+ * Zoom level of a native map region (react-native-maps gives spans, not zoom levels),
+ * for a map `widthPx` wide.
+ */
+export const getRegionZoom = (longitudeDelta: number, widthPx: number): number =>
+  Math.log2(360 * (widthPx / TILE_SIZE_PX) / longitudeDelta);
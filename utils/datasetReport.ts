@@ -0,0 +1,152 @@
+import { FeatureProperties, GeoJsonData, GeoJsonFeature } from '@/types';
+import { getCentroid } from '@/utils/geometry';
+import { getDataVersion } from '@/utils/zoneDataSource';
+import { parseArea } from '@/utils/zones';
+
+export const NO_VALUE_LABEL = '(none)'; // Group name for features without WIJKNAAM or GEBIEDSTEAM
+
+export interface GroupStats {
+  count: number;
+  withArea: number; // Features with a known OPPERVLAKTE
+  totalArea: number; // m², summed over features with a known area
+}
+
+export interface LargestZone {
+  id: string;
+  area: number;
+  WIJKNAAM: string | null;
+  centroid: { lat: number; lng: number } | null;
+}
+
+export interface DatasetStats {
+  version: string | null;
+  featureCount: number;
+  byCode: Record<string, GroupStats>;
+  byWijknaam: Record<string, GroupStats>;
+  byGebiedsteam: Record<string, GroupStats>;
+  largestByCode: Record<string, LargestZone[]>; // Descending by area
+}
+
+export interface DatasetStatsOptions {
+  topN?: number;
+  codes?: string[]; // Codes to rank by area, all codes when omitted
+}
+
+// A feature that is in both versions but differs; `changes` names each difference
+export interface FeatureChange {
+  id: string;
+  CODE: string;
+  changes: string[];
+}
+
+export interface DatasetDiff {
+  fromVersion: string | null;
+  toVersion: string | null;
+  added: GeoJsonFeature[];
+  removed: GeoJsonFeature[];
+  changed: FeatureChange[];
+  unchangedCount: number;
+  countsByCode: Record<string, { before: number; after: number }>;
+}
+
+const PROPERTY_KEYS: (keyof FeatureProperties)[] = ['CODE', 'OPPERVLAKTE', 'WIJKNAAM', 'GEBIEDSTEAM', 'ID'];
+
+function addToGroup(groups: Record<string, GroupStats>, key: string | null, area: number | undefined) {
+  const group = (groups[key ?? NO_VALUE_LABEL] ??= { count: 0, withArea: 0, totalArea: 0 });
+  group.count++;
+  if (area !== undefined) {
+    group.withArea++;
+    group.totalArea += area;
+  }
+}
+
+const getVersion = (data: GeoJsonData) => {
+  const version = getDataVersion(data, '');
+  return version === '' ? null : version;
+};
+
+/**
+ * Counts and areas per CODE, WIJKNAAM and GEBIEDSTEAM, plus the largest features per code.
+ */
+export function getDatasetStats(data: GeoJsonData, { topN = 5, codes }: DatasetStatsOptions = {}): DatasetStats {
+  const stats: DatasetStats = {
+    version: getVersion(data),
+    featureCount: data.features.length,
+    byCode: {},
+    byWijknaam: {},
+    byGebiedsteam: {},
+    largestByCode: {},
+  };
+  const withArea: Record<string, { feature: GeoJsonFeature; area: number }[]> = {};
+
+  data.features.forEach(feature => {
+    const { CODE, WIJKNAAM, GEBIEDSTEAM, OPPERVLAKTE } = feature.properties;
+    const area = parseArea(OPPERVLAKTE);
+    addToGroup(stats.byCode, CODE, area);
+    addToGroup(stats.byWijknaam, WIJKNAAM, area);
+    addToGroup(stats.byGebiedsteam, GEBIEDSTEAM, area);
+    if (area !== undefined) {
+      (withArea[CODE] ??= []).push({ feature, area });
+    }
+  });
+
+  (codes ?? Object.keys(stats.byCode)).forEach(code => {
+    stats.largestByCode[code] = (withArea[code] ?? [])
+      .sort((a, b) => b.area - a.area)
+      .slice(0, topN)
+      .map(({ feature, area }) => ({
+        id: feature.id,
+        area,
+        WIJKNAAM: feature.properties.WIJKNAAM,
+        centroid: getCentroid(feature.geometry),
+      }));
+  });
+
+  return stats;
+}
+
+/**
+ * Compares two versions of the dataset by source feature ID.
+ */
+export function diffDatasets(before: GeoJsonData, after: GeoJsonData): DatasetDiff {
+  const beforeById = new Map(before.features.map(feature => [feature.id, feature]));
+  const afterIds = new Set(after.features.map(feature => feature.id));
+  const diff: DatasetDiff = {
+    fromVersion: getVersion(before),
+    toVersion: getVersion(after),
+    added: [],
+    removed: before.features.filter(feature => !afterIds.has(feature.id)),
+    changed: [],
+    unchangedCount: 0,
+    countsByCode: {},
+  };
+
+  before.features.forEach(feature => {
+    (diff.countsByCode[feature.properties.CODE] ??= { before: 0, after: 0 }).before++;
+  });
+
+  after.features.forEach(feature => {
+    (diff.countsByCode[feature.properties.CODE] ??= { before: 0, after: 0 }).after++;
+
+    const previous = beforeById.get(feature.id);
+    if (!previous) {
+      diff.added.push(feature);
+      return;
+    }
+
+    const changes = PROPERTY_KEYS
+      .filter(key => previous.properties[key] !== feature.properties[key])
+      .map(key => `${key}: ${previous.properties[key]} -> ${feature.properties[key]}`);
+    if (JSON.stringify(previous.geometry) !== JSON.stringify(feature.geometry)) {
+      changes.push('geometry');
+    }
+
+    if (changes.length > 0) {
+      diff.changed.push({ id: feature.id, CODE: feature.properties.CODE, changes });
+    } else {
+      diff.unchangedCount++;
+    }
+  });
+
+  return diff;
+}
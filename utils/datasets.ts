@@ -0,0 +1,113 @@
+import * as turf from '@turf/turf';
+import { Geometry } from '@/types';
+import { createVersionedStore, KeyValueStorage, VersionedStore } from '@/utils/storage';
+
+const STORAGE_KEY = 'datasetChoice';
+
+// Initial map view of a dataset
+export interface DatasetRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+// Source properties holding what the app reads from the dataset's own schema; null when it has none
+export interface DatasetPropertyMapping {
+  code: string; // The zone type, translated by DatasetDescriptor.codes
+  neighbourhood: string | null; // Becomes WIJKNAAM
+  team: string | null; // Becomes GEBIEDSTEAM
+  area: string | null; // m², becomes OPPERVLAKTE; null computes it from the geometry
+}
+
+/**
+ * A municipality's dog map: where to download it and how its schema maps onto the app's
+ * (CODE, WIJKNAAM, GEBIEDSTEAM, OPPERVLAKTE), so zones, styles and rules work unchanged.
+ */
+export interface DatasetDescriptor {
+  id: string; // e.g. "amersfoort"; keys the device cache
+  name: string; // Shown in the picker
+  sourceUrl: string; // GeoJSON FeatureCollection
+  sourcePage: string | null; // Human-readable page about the data, for attribution
+  region: DatasetRegion;
+  bounds: [west: number, south: number, east: number, north: number]; // Area the dataset covers, for picking it by location
+  properties: DatasetPropertyMapping;
+  codes: { [sourceCode: string]: string }; // Source code → app code (GROEN, ORANJE, ROOD, WATERSPEELPLEK); others pass unchanged
+  bundledAsset: unknown | null; // Zone asset built by `npm run zones -- build`, parsed with parseZoneAsset
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/** Area in m² of a source geometry, as OPPERVLAKTE; null when it is no usable polygon. */
+const getArea = (geometry: unknown): string | null => {
+  if (!isObject(geometry) || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) return null;
+  try {
+    return String(Math.round(turf.area(geometry as unknown as Geometry)));
+  } catch {
+    return null; // Malformed coordinates; validation reports them
+  }
+};
+
+const toNullableString = (value: unknown): unknown =>
+  typeof value === 'number' ? String(value) : value === undefined ? null : value;
+
+/**
+ * A downloaded dataset in the app's schema: properties renamed, codes translated and missing
+ * feature IDs filled in. Anything malformed is passed through for validateGeoJsonData to report.
+ */
+export function normalizeDataset(raw: unknown, descriptor: DatasetDescriptor): unknown {
+  if (!isObject(raw) || !Array.isArray(raw.features)) return raw;
+  const { code, neighbourhood, team, area } = descriptor.properties;
+  return {
+    ...raw,
+    features: raw.features.map((feature: unknown, index: number) => {
+      if (!isObject(feature) || !isObject(feature.properties)) return feature;
+      const properties = feature.properties;
+      const sourceCode = properties[code] == null ? '' : String(properties[code]);
+      const computedArea = area === null ? getArea(feature.geometry) : null;
+      return {
+        ...feature,
+        // Source IDs keep links and favourites valid across updates; the index is a last resort
+        id: typeof feature.id === 'string' || typeof feature.id === 'number' ? String(feature.id) : `${descriptor.id}.${index + 1}`,
+        properties: {
+          CODE: descriptor.codes[sourceCode] ?? sourceCode,
+          WIJKNAAM: neighbourhood !== null ? toNullableString(properties[neighbourhood]) : null,
+          GEBIEDSTEAM: team !== null ? toNullableString(properties[team]) : null,
+          OPPERVLAKTE: area !== null ? toNullableString(properties[area]) : computedArea,
+          ID: typeof properties.ID === 'number' ? properties.ID : index + 1,
+        },
+      };
+    }),
+  };
+}
+
+/** Whether a dataset's bounds contain a location. */
+export function datasetCovers(descriptor: DatasetDescriptor, lat: number, lng: number): boolean {
+  const [west, south, east, north] = descriptor.bounds;
+  return lng >= west && lng <= east && lat >= south && lat <= north;
+}
+
+/**
+ * The dataset covering a location, the one whose region is nearest when several overlap;
+ * null when none covers it.
+ */
+export function findDatasetAt(datasets: DatasetDescriptor[], lat: number, lng: number): DatasetDescriptor | null {
+  const distance = ({ region }: DatasetDescriptor) => (region.latitude - lat) ** 2 + (region.longitude - lng) ** 2;
+  return datasets
+    .filter(descriptor => datasetCovers(descriptor, lat, lng))
+    .sort((a, b) => distance(a) - distance(b))[0] ?? null;
+}
+
+/**
+ * Keeps the user's dataset choice on the device: the dataset they picked, or null to pick it by location.
+ */
+export function createDatasetChoiceStore(storage: KeyValueStorage): VersionedStore<string | null> {
+  return createVersionedStore<string | null>(storage, {
+    key: STORAGE_KEY,
+    field: 'datasetId',
+    formatVersion: 1,
+    name: 'dataset choice',
+    empty: null,
+    parse: value => (typeof value === 'string' ? value : null),
+  });
+}
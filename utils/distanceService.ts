@@ -0,0 +1,69 @@
+import { ProcessedZone } from '@/types';
+import { getDistance, getDistanceToZone } from '@/utils/geometry';
+
+// Zones whose distances are kept; the least recently used go first
+export const DISTANCE_CACHE_SIZE = 500;
+// Distances are measured again once the user is this far from where they were measured
+export const DISTANCE_MOVE_THRESHOLD_M = 10;
+
+// Distances in km from a location to a zone
+export interface ZoneDistances {
+  distance: number; // To its centroid
+  boundaryDistance: number; // To its nearest edge, 0 inside; the centroid distance when the edge can't be measured
+}
+
+export interface DistanceService {
+  /**
+   * Distances from a location to a zone. They are measured from the first location after the
+   * user moved past the threshold, so they can be off by up to DISTANCE_MOVE_THRESHOLD_M.
+   */
+  measure(zone: ProcessedZone, lat: number, lng: number): ZoneDistances;
+  /** Forgets every distance, e.g. when the zone shapes change. */
+  clear(): void;
+  /** Number of zones whose distances are kept. */
+  readonly size: number;
+}
+
+/**
+ * Keeps the distances of recently measured zones outside React state, so reading them never
+ * causes a render. Bounded as an LRU cache keyed by zone ID.
+ */
+export function createDistanceService(
+  maxEntries: number = DISTANCE_CACHE_SIZE,
+  moveThresholdM: number = DISTANCE_MOVE_THRESHOLD_M
+): DistanceService {
+  // Map iteration follows insertion order, so re-inserting on use keeps the least recently used first
+  const entries = new Map<string, ZoneDistances>();
+  let origin: { lat: number; lng: number } | null = null;
+
+  return {
+    measure(zone, lat, lng) {
+      if (!origin || getDistance(origin.lat, origin.lng, lat, lng) * 1000 > moveThresholdM) {
+        entries.clear();
+        origin = { lat, lng };
+      }
+
+      const cached = entries.get(zone.id);
+      if (cached) {
+        entries.delete(zone.id);
+        entries.set(zone.id, cached);
+        return cached;
+      }
+
+      const distance = getDistance(origin.lat, origin.lng, zone.centroid.lat, zone.centroid.lng);
+      const measured = { distance, boundaryDistance: getDistanceToZone(origin.lat, origin.lng, zone.geometry) ?? distance };
+      entries.set(zone.id, measured);
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+      return measured;
+    },
+
+    clear() {
+      entries.clear();
+      origin = null;
+    },
+
+    get size() {
+      return entries.size;
+    },
+  };
+}
@@ -0,0 +1,325 @@
+import { zoneStyles } from '@/constants/ZoneStyles';
+import { Geometry, Position, ProcessedZone, TrackPoint, Walk } from '@/types';
+import { getZoneNeighbourhoods } from '@/utils/zoneFilter';
+
+const CREATOR = 'Amersfoort Dog Zones';
+const GPX_EXTENSION_NAMESPACE = 'urn:amersfoort-dog-zones:gpx'; // For the fix accuracy, which GPX has no element for
+
+export const EXPORT_MIME_TYPES = {
+  gpx: 'application/gpx+xml',
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+export type ExportFormat = keyof typeof EXPORT_MIME_TYPES;
+
+/** File name for an export, e.g. "dog-zones-2025-06-03.kml". */
+export function getExportFileName(name: string, format: ExportFormat, date: Date): string {
+  return `${name}-${date.toISOString().slice(0, 10)}.${format}`;
+}
+
+// A zone as written to GeoJSON and KML: what other GPS apps need, nothing app-internal
+export interface ExportedZone {
+  id: string;
+  code: string;
+  neighbourhood: string | null; // Comma-separated for merged zones spanning several
+  team: string | null; // GEBIEDSTEAM
+  area: number | null; // m², rounded
+  geometry: Geometry;
+}
+
+export function toExportedZone(zone: ProcessedZone): ExportedZone {
+  return {
+    id: zone.id,
+    code: zone.properties.CODE,
+    neighbourhood: getZoneNeighbourhoods(zone).join(', ') || null,
+    team: zone.properties.GEBIEDSTEAM,
+    area: zone.area != null ? Math.round(zone.area) : null,
+    geometry: zone.geometry,
+  };
+}
+
+// A polygon feature read from someone else's GeoJSON or KML file, properties untouched
+export interface ImportedFeature {
+  id: string;
+  properties: { [name: string]: string | number | boolean | null };
+  geometry: Geometry;
+}
+
+const to2dRing = (ring: Position[]): Position[] => ring.map(position => position.slice(0, 2));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toStringOrNull = (value: ImportedFeature['properties'][string] | undefined): string | null =>
+  value === null || value === undefined ? null : String(value);
+
+/** An exported zone back from the properties written by toGeoJson and toKml. */
+const fromImportedFeature = ({ id, properties, geometry }: ImportedFeature): ExportedZone => {
+  const area = properties.area;
+  return {
+    id,
+    code: String(properties.code ?? ''),
+    neighbourhood: toStringOrNull(properties.neighbourhood),
+    team: toStringOrNull(properties.team),
+    area: area !== null && area !== undefined && area !== '' && Number.isFinite(Number(area)) ? Number(area) : null,
+    geometry,
+  };
+};
+
+// --- XML helpers (the formats below only need flat, well-known elements) ---
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const unescapeXml = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+/** Inner XML of every `<tag>` element (namespace prefixes ignored), in document order. */
+const getElements = (xml: string, tag: string): string[] =>
+  [...xml.matchAll(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*?(?:/>|>([\\s\\S]*?)</(?:\\w+:)?${tag}>)`, 'g'))].map(match => match[1] ?? '');
+
+const getText = (xml: string, tag: string): string | null => {
+  const [inner] = getElements(xml, tag);
+  return inner === undefined ? null : unescapeXml(inner.replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1').trim());
+};
+
+const getAttribute = (element: string, name: string): string | null => {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(element);
+  return match ? unescapeXml(match[1]) : null;
+};
+
+// --- GPX (walks) ---
+
+/**
+ * Walks as a GPX 1.1 document, one track per walk.
+ */
+export function toGpx(walks: Walk[]): string {
+  const tracks = walks.map(walk => {
+    const points = walk.points.map(point =>
+      `      <trkpt lat="${point.lat}" lon="${point.lng}"><time>${new Date(point.timestamp).toISOString()}</time>` +
+      `${point.accuracy !== null ? `<extensions><dogzones:accuracy>${point.accuracy}</dogzones:accuracy></extensions>` : ''}</trkpt>`
+    );
+    return [
+      '  <trk>',
+      `    <name>${escapeXml(`Walk ${new Date(walk.startedAt).toISOString()}`)}</name>`,
+      `    <desc>${escapeXml(walk.id)}</desc>`,
+      '    <trkseg>',
+      ...points,
+      '    </trkseg>',
+      '  </trk>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:dogzones="${GPX_EXTENSION_NAMESPACE}">`,
+    ...tracks,
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Walks from a GPX document: one per track, all segments joined. Points without a time are skipped,
+ * and the accuracy is only known for points written by toGpx.
+ */
+export function parseGpx(xml: string): Walk[] {
+  return getElements(xml, 'trk').flatMap((track, index) => {
+    const points: TrackPoint[] = [];
+    for (const match of track.matchAll(/<(?:\w+:)?trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?trkpt>)/g)) {
+      const lat = Number(getAttribute(match[1], 'lat'));
+      const lng = Number(getAttribute(match[1], 'lon'));
+      const time = Date.parse(getText(match[2] ?? '', 'time') ?? '');
+      const accuracy = getText(match[2] ?? '', 'accuracy');
+      if (!Number.isFinite(lat) || !Number.isFinite(lng) || isNaN(time)) continue;
+      points.push({ timestamp: time, lat, lng, accuracy: accuracy !== null ? Number(accuracy) : null });
+    }
+    if (points.length === 0) return [];
+    return [{
+      id: getText(track, 'desc') ?? `walk_${points[0].timestamp}_${index}`,
+      startedAt: points[0].timestamp,
+      endedAt: points[points.length - 1].timestamp,
+      points,
+    }];
+  });
+}
+
+// --- GeoJSON (zones) ---
+
+/**
+ * Zones as a GeoJSON FeatureCollection with code, neighbourhood, team and area properties.
+ */
+export function toGeoJson(zones: ExportedZone[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: zones.map(({ id, geometry, ...properties }) => ({ type: 'Feature', id, geometry, properties })),
+  });
+}
+
+/**
+ * Polygon features of any GeoJSON FeatureCollection, with their properties as found.
+ * Features without a (Multi)Polygon geometry are skipped; altitudes are dropped.
+ */
+export function parseGeoJsonFeatures(json: string): ImportedFeature[] {
+  const data = JSON.parse(json);
+  if (data?.type !== 'FeatureCollection' || !Array.isArray(data.features)) {
+    throw new Error('Not a GeoJSON FeatureCollection');
+  }
+  return data.features.flatMap((feature: unknown, index: number): ImportedFeature[] => {
+    if (!isObject(feature)) return [];
+    const { geometry } = feature;
+    if (!isObject(geometry) || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') || !Array.isArray(geometry.coordinates)) {
+      return [];
+    }
+    const properties: ImportedFeature['properties'] = {};
+    for (const [name, value] of Object.entries(isObject(feature.properties) ? feature.properties : {})) {
+      if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+        properties[name] = value;
+      }
+    }
+    return [{
+      id: feature.id != null ? String(feature.id) : `feature_${index}`,
+      properties,
+      geometry: geometry.type === 'Polygon'
+        ? { type: 'Polygon', coordinates: (geometry.coordinates as Position[][]).map(to2dRing) }
+        : { type: 'MultiPolygon', coordinates: (geometry.coordinates as Position[][][]).map(rings => rings.map(to2dRing)) },
+    }];
+  });
+}
+
+/**
+ * Zones from a GeoJSON document written by toGeoJson. Features without a (Multi)Polygon geometry are skipped.
+ */
+export function parseGeoJsonZones(json: string): ExportedZone[] {
+  return parseGeoJsonFeatures(json).map(fromImportedFeature);
+}
+
+// --- KML (zones) ---
+
+/** KML colour (aabbggrr) of a CSS rgba() colour. */
+const toKmlColor = (rgba: string): string => {
+  const match = /^rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)$/.exec(rgba);
+  if (!match) return '00000000';
+  const hex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+  const alpha = match[4] !== undefined ? parseFloat(match[4]) : 1;
+  return `${hex(alpha * 255)}${hex(+match[3])}${hex(+match[2])}${hex(+match[1])}`;
+};
+
+const toKmlCoordinates = (ring: Position[]) => ring.map(([lng, lat]) => `${lng},${lat}`).join(' ');
+
+const toKmlPolygon = (rings: Position[][]) => [
+  '<Polygon>',
+  `<outerBoundaryIs><LinearRing><coordinates>${toKmlCoordinates(rings[0])}</coordinates></LinearRing></outerBoundaryIs>`,
+  ...rings.slice(1).map(hole =>
+    `<innerBoundaryIs><LinearRing><coordinates>${toKmlCoordinates(hole)}</coordinates></LinearRing></innerBoundaryIs>`),
+  '</Polygon>',
+].join('');
+
+const toKmlData = (name: string, value: string | number | null) =>
+  value === null ? '' : `<Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`;
+
+/**
+ * Zones as a KML document with one style per code, coloured as on the map.
+ */
+export function toKml(zones: ExportedZone[]): string {
+  const codes = [...new Set(zones.map(zone => zone.code))];
+  const styles = codes.map(code => {
+    const style = zoneStyles[code] ?? zoneStyles.DEFAULT;
+    return `  <Style id="${escapeXml(code)}"><LineStyle><color>${toKmlColor(style.strokeColor)}</color><width>${style.strokeWidth}</width></LineStyle>` +
+      `<PolyStyle><color>${toKmlColor(style.fillColor)}</color></PolyStyle></Style>`;
+  });
+  const placemarks = zones.map(zone => {
+    const geometry = zone.geometry.type === 'Polygon'
+      ? toKmlPolygon(zone.geometry.coordinates)
+      : `<MultiGeometry>${zone.geometry.coordinates.map(toKmlPolygon).join('')}</MultiGeometry>`;
+    return [
+      `  <Placemark id="${escapeXml(zone.id)}">`,
+      `<name>${escapeXml(zone.neighbourhood ? `${zone.code} - ${zone.neighbourhood}` : zone.code)}</name>`,
+      `<styleUrl>#${escapeXml(zone.code)}</styleUrl>`,
+      '<ExtendedData>',
+      toKmlData('code', zone.code),
+      toKmlData('neighbourhood', zone.neighbourhood),
+      toKmlData('team', zone.team),
+      toKmlData('area', zone.area),
+      '</ExtendedData>',
+      geometry,
+      '</Placemark>',
+    ].join('');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `  <name>${CREATOR}</name>`,
+    ...styles,
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+const parseKmlCoordinates = (text: string): Position[] => text
+  .trim()
+  .split(/\s+/)
+  .filter(Boolean)
+  .map(tuple => tuple.split(',').slice(0, 2).map(Number));
+
+const parseKmlPolygon = (polygon: string): Position[][] => {
+  const ring = (boundary: string) => parseKmlCoordinates(getText(boundary, 'coordinates') ?? '');
+  return [
+    ...getElements(polygon, 'outerBoundaryIs').map(ring),
+    ...getElements(polygon, 'innerBoundaryIs').map(ring),
+  ];
+};
+
+/**
+ * Polygon Placemarks of any KML document, with their name, description and ExtendedData (Data and
+ * SimpleData) as properties. Placemarks without a polygon are skipped; altitudes are dropped.
+ */
+export function parseKmlFeatures(xml: string): ImportedFeature[] {
+  return [...xml.matchAll(/<(?:\w+:)?Placemark\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?Placemark>/g)].flatMap((match, index) => {
+    const [, attributes, placemark] = match;
+    const polygons = getElements(placemark, 'Polygon').map(parseKmlPolygon).filter(rings => rings.length > 0);
+    if (polygons.length === 0) return [];
+
+    const properties: ImportedFeature['properties'] = {};
+    const name = getText(placemark, 'name');
+    if (name !== null) properties.name = name;
+    const description = getText(placemark, 'description');
+    if (description !== null) properties.description = description;
+    for (const [, dataAttributes, inner] of placemark.matchAll(/<(?:\w+:)?Data\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?Data>/g)) {
+      const dataName = getAttribute(dataAttributes, 'name');
+      const value = getText(inner, 'value');
+      if (dataName && value !== null) properties[dataName] = value;
+    }
+    for (const [, dataAttributes, inner] of placemark.matchAll(/<(?:\w+:)?SimpleData\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?SimpleData>/g)) {
+      const dataName = getAttribute(dataAttributes, 'name');
+      if (dataName) properties[dataName] = unescapeXml(inner.trim());
+    }
+
+    return [{
+      id: getAttribute(attributes, 'id') ?? `placemark_${index}`,
+      properties,
+      geometry: polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons },
+    }];
+  });
+}
+
+/**
+ * Zones from the Placemarks of a KML document, reading the ExtendedData written by toKml.
+ * Placemarks without a polygon are skipped; altitudes are dropped.
+ */
+export function parseKml(xml: string): ExportedZone[] {
+  return parseKmlFeatures(xml).map(fromImportedFeature);
+}
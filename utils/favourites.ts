@@ -0,0 +1,50 @@
+import { ProcessedZone } from '@/types';
+import { createVersionedStore, KeyValueStorage, VersionedStore } from '@/utils/storage';
+import { findZoneBySourceId } from '@/utils/zones';
+
+const STORAGE_KEY = 'favouriteZones';
+
+/**
+ * Keeps the favourite zones on the device by source feature ID, which - unlike the zone
+ * IDs of merged zones - stays valid when the data is updated. Loads them oldest first.
+ */
+export function createFavouritesStore(storage: KeyValueStorage): VersionedStore<string[]> {
+  return createVersionedStore(storage, {
+    key: STORAGE_KEY,
+    field: 'sourceIds',
+    formatVersion: 1,
+    name: 'favourites',
+    empty: [],
+    parse: value => (Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : null),
+  });
+}
+
+// Every source ID a zone answers to: its own, and those of its members when merged
+const getZoneSourceIds = (zone: ProcessedZone) => [zone.sourceId, ...(zone.memberIds?.map(member => member.id) ?? [])];
+
+export function isFavouriteZone(sourceIds: string[], zone: ProcessedZone): boolean {
+  return getZoneSourceIds(zone).some(id => sourceIds.includes(id));
+}
+
+/**
+ * Adds the zone to the favourites, or removes it - by any of its source IDs, as a merged
+ * zone may have been favourited through another member before a data update.
+ */
+export function toggleFavouriteZone(sourceIds: string[], zone: ProcessedZone): string[] {
+  if (!isFavouriteZone(sourceIds, zone)) return [...sourceIds, zone.sourceId];
+  const zoneIds = getZoneSourceIds(zone);
+  return sourceIds.filter(id => !zoneIds.includes(id));
+}
+
+/**
+ * The favourite zones in the order they were added. Favourites missing from the data
+ * are skipped but kept, so they come back if a later update restores them.
+ */
+export function getFavouriteZones(zones: ProcessedZone[], sourceIds: string[]): ProcessedZone[] {
+  const favourites: ProcessedZone[] = [];
+  sourceIds.forEach(id => {
+    const zone = findZoneBySourceId(zones, id);
+    if (zone && !favourites.includes(zone)) favourites.push(zone);
+  });
+  return favourites;
+}
@@ -0,0 +1,22 @@
+import * as FileSystem from 'expo-file-system';
+import { FileStorage } from '@/utils/storage';
+
+const DIRECTORY = `${FileSystem.documentDirectory}data/`;
+
+/**
+ * Files in the app's document directory, kept until the app is removed.
+ */
+export function createDocumentFileStorage(): FileStorage {
+  return {
+    readFile: async name => {
+      const uri = `${DIRECTORY}${name}`;
+      if (!(await FileSystem.getInfoAsync(uri)).exists) return null;
+      return FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.UTF8 });
+    },
+    writeFile: async (name, content) => {
+      await FileSystem.makeDirectoryAsync(DIRECTORY, { intermediates: true }); // No-op when it exists
+      await FileSystem.writeAsStringAsync(`${DIRECTORY}${name}`, content, { encoding: FileSystem.EncodingType.UTF8 });
+    },
+    deleteFile: name => FileSystem.deleteAsync(`${DIRECTORY}${name}`, { idempotent: true }),
+  };
+}
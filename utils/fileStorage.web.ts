@@ -0,0 +1,16 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { FileStorage } from '@/utils/storage';
+
+const KEY_PREFIX = 'file.'; // One entry per file: "file.<name>"
+
+/**
+ * The browser has no document directory: files are kept in its local storage instead,
+ * which has no per-entry limit like Android's AsyncStorage.
+ */
+export function createDocumentFileStorage(): FileStorage {
+  return {
+    readFile: name => AsyncStorage.getItem(`${KEY_PREFIX}${name}`),
+    writeFile: (name, content) => AsyncStorage.setItem(`${KEY_PREFIX}${name}`, content),
+    deleteFile: name => AsyncStorage.removeItem(`${KEY_PREFIX}${name}`),
+  };
+}
@@ -0,0 +1,74 @@
+import { ProcessedZone } from '@/types';
+import { ZoneIndex } from '@/utils/spatialIndex';
+import { ZONE_STATUS_BY_CODE, ZoneStatus } from '@/utils/zoneStatus';
+
+// Codes whose borders raise an event when crossed in walk mode
+export const GEOFENCE_CODES = ['GROEN', 'ORANJE', 'ROOD'];
+
+export type GeofenceEventType = 'enter' | 'leave';
+
+export interface GeofenceEvent {
+  type: GeofenceEventType;
+  zone: ProcessedZone;
+}
+
+export interface GeofenceUpdate {
+  insideIds: string[]; // Zones the location lies in, to pass to the next update
+  events: GeofenceEvent[]; // Most important first: entries before exits, forbidden before leash before off-leash
+}
+
+const EVENT_PRIORITY: ZoneStatus[] = ['forbidden', 'leash', 'off-leash'];
+
+const GEOFENCE_MESSAGES: { [status: string]: { [type in GeofenceEventType]: string } } = {
+  'off-leash': { enter: 'Off-leash zone entered: the leash can come off', leave: 'Left the off-leash zone: leash on' },
+  leash: { enter: 'Leash zone entered: keep your dog on the leash', leave: 'Left the leash zone' },
+  forbidden: { enter: 'No-dogs zone entered: dogs are not allowed here', leave: 'Left the no-dogs zone' },
+};
+
+const getStatus = (zone: ProcessedZone): ZoneStatus => ZONE_STATUS_BY_CODE[zone.properties.CODE] ?? 'none';
+
+/**
+ * IDs of the geofenced area zones containing the location. Holes are respected.
+ */
+export function getContainingZoneIds(lat: number, lng: number, zoneIndex: ZoneIndex): string[] {
+  return zoneIndex
+    .containing(lat, lng)
+    .filter(zone => zone.zoneType === 'area' && GEOFENCE_CODES.includes(zone.properties.CODE))
+    .map(zone => zone.id);
+}
+
+/**
+ * Compares the zones containing a new location with those of the previous one. Pass null
+ * as `previousInsideIds` for the first fix: it sets the baseline without raising events.
+ * Exits from zones no longer in the index (e.g. after a data update) are not reported.
+ */
+export function updateGeofences(
+  previousInsideIds: string[] | null,
+  lat: number,
+  lng: number,
+  zoneIndex: ZoneIndex
+): GeofenceUpdate {
+  const insideIds = getContainingZoneIds(lat, lng, zoneIndex);
+  if (!previousInsideIds) return { insideIds, events: [] };
+
+  const toEvents = (type: GeofenceEventType, ids: string[]): GeofenceEvent[] => ids
+    .map(id => zoneIndex.get(id))
+    .filter((zone): zone is ProcessedZone => !!zone)
+    .map(zone => ({ type, zone }))
+    .sort((a, b) => EVENT_PRIORITY.indexOf(getStatus(a.zone)) - EVENT_PRIORITY.indexOf(getStatus(b.zone)));
+
+  return {
+    insideIds,
+    events: [
+      ...toEvents('enter', insideIds.filter(id => !previousInsideIds.includes(id))),
+      ...toEvents('leave', previousInsideIds.filter(id => !insideIds.includes(id))),
+    ],
+  };
+}
+
+/**
+ * Banner text for an event, e.g. "Off-leash zone entered: the leash can come off".
+ */
+export function getGeofenceMessage(event: GeofenceEvent): string {
+  return GEOFENCE_MESSAGES[getStatus(event.zone)]?.[event.type] ?? `Zone ${event.type === 'enter' ? 'entered' : 'left'}`;
+}
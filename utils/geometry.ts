@@ -0,0 +1,248 @@
+import * as turf from '@turf/turf';
+import { Position } from 'geojson';
+import { Geometry } from '@/types';
+
+// Precision of the pole of inaccessibility search, as a fraction of the polygon's smallest dimension
+const POLE_PRECISION_RATIO = 0.02;
+// Length of one degree of latitude in km, used to convert locally scaled degrees
+export const KM_PER_DEGREE = 6371 * Math.PI / 180;
+
+/**
+ * Calculates the distance between two lat/lng coordinates in kilometers using Haversine formula.
+ */
+export function getDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const R = 6371; // Radius of the Earth in km
+    const dLat = (lat2 - lat1) * Math.PI / 180;
+    const dLon = (lon2 - lon1) * Math.PI / 180;
+    const a =
+        0.5 - Math.cos(dLat) / 2 +
+        Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+        (1 - Math.cos(dLon)) / 2;
+    return R * 2 * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Returns the polygons of a Polygon or MultiPolygon geometry as lists of rings.
+ */
+function getPolygons(geometry: Geometry): Position[][][] {
+    if (geometry.type === 'Polygon') return [geometry.coordinates];
+    if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+    return [];
+}
+
+/**
+ * Returns the rings of the largest polygon in a Polygon or MultiPolygon geometry.
+ */
+function getLargestPolygon(geometry: Geometry): Position[][] | null {
+    if (geometry.type === 'Polygon') return geometry.coordinates;
+    if (geometry.type !== 'MultiPolygon' || geometry.coordinates.length === 0) return null;
+
+    let largest: Position[][] = geometry.coordinates[0];
+    let largestArea = -1;
+    for (const polygon of geometry.coordinates as Position[][][]) {
+        const area = turf.area(turf.polygon(polygon));
+        if (area > largestArea) {
+            largest = polygon;
+            largestArea = area;
+        }
+    }
+    return largest;
+}
+
+/**
+ * The point of segment a-b nearest to (x, y), all in the same planar coordinates.
+ */
+function nearestOnSegment(x: number, y: number, ax: number, ay: number, bx: number, by: number): [number, number] {
+    const dx = bx - ax, dy = by - ay;
+    if (dx === 0 && dy === 0) return [ax, ay];
+    const t = Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / (dx * dx + dy * dy)));
+    return [ax + dx * t, ay + dy * t];
+}
+
+/**
+ * Signed distance (in scaled degrees) from a point to the polygon outline.
+ * Positive inside the polygon, negative outside; holes count as outside.
+ */
+function signedDistanceToRings(x: number, y: number, rings: Position[][], xScale: number): number {
+    let inside = false;
+    let minDistSq = Infinity;
+
+    for (const ring of rings) {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const ax = ring[i][0] * xScale, ay = ring[i][1];
+            const bx = ring[j][0] * xScale, by = ring[j][1];
+
+            if ((ay > y) !== (by > y) && x < (bx - ax) * (y - ay) / (by - ay) + ax) inside = !inside;
+
+            const [px, py] = nearestOnSegment(x, y, ax, ay, bx, by);
+            minDistSq = Math.min(minDistSq, (x - px) ** 2 + (y - py) ** 2);
+        }
+    }
+
+    return (inside ? 1 : -1) * Math.sqrt(minDistSq);
+}
+
+/**
+ * Finds the pole of inaccessibility: the interior point farthest from the polygon outline.
+ * Grid search refined by quadtree cells, as described for Mapbox's polylabel.
+ */
+function getPoleOfInaccessibility(rings: Position[][]): Position {
+    const outer = rings[0];
+    const xScale = Math.cos(outer[0][1] * Math.PI / 180); // Make degrees of longitude comparable to latitude
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const [lng, lat] of outer) {
+        minX = Math.min(minX, lng * xScale);
+        minY = Math.min(minY, lat);
+        maxX = Math.max(maxX, lng * xScale);
+        maxY = Math.max(maxY, lat);
+    }
+
+    type Cell = { x: number; y: number; h: number; d: number; max: number };
+    const makeCell = (x: number, y: number, h: number): Cell => {
+        const d = signedDistanceToRings(x, y, rings, xScale);
+        return { x, y, h, d, max: d + h * Math.SQRT2 };
+    };
+
+    const cellSize = Math.min(maxX - minX, maxY - minY);
+    const precision = cellSize * POLE_PRECISION_RATIO;
+    let best = makeCell((minX + maxX) / 2, (minY + maxY) / 2, 0);
+    if (cellSize === 0) return [best.x / xScale, best.y];
+
+    // Queue of cells sorted by potential, most promising last
+    const queue: Cell[] = [];
+    const enqueue = (cell: Cell) => {
+        let lo = 0, hi = queue.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (queue[mid].max < cell.max) lo = mid + 1; else hi = mid;
+        }
+        queue.splice(lo, 0, cell);
+    };
+
+    // Cover the polygon with initial cells
+    const h = cellSize / 2;
+    for (let x = minX; x < maxX; x += cellSize) {
+        for (let y = minY; y < maxY; y += cellSize) {
+            enqueue(makeCell(x + h, y + h, h));
+        }
+    }
+
+    while (queue.length > 0) {
+        const cell = queue.pop()!;
+        if (cell.d > best.d) best = cell;
+        if (cell.max - best.d <= precision) continue;
+
+        const half = cell.h / 2;
+        enqueue(makeCell(cell.x - half, cell.y - half, half));
+        enqueue(makeCell(cell.x + half, cell.y - half, half));
+        enqueue(makeCell(cell.x - half, cell.y + half, half));
+        enqueue(makeCell(cell.x + half, cell.y + half, half));
+    }
+
+    return [best.x / xScale, best.y];
+}
+
+/**
+ * Gets a representative coordinate {lat, lng} that lies inside the zone.
+ * Uses the centre of mass of the largest polygon, or its pole of inaccessibility
+ * when the centre of mass falls outside (e.g. L-shaped fields or strips along a road).
+ */
+export function getCentroid(geometry: Geometry): { lat: number; lng: number } | null {
+    if (!geometry || !geometry.coordinates) return null;
+    try {
+        const polygon = getLargestPolygon(geometry);
+        if (!polygon || !polygon[0] || polygon[0].length < 4) return null;
+
+        const [lng, lat] = turf.centerOfMass(turf.polygon(polygon)).geometry.coordinates;
+        if (turf.booleanPointInPolygon([lng, lat], turf.polygon(polygon))) {
+            return { lat, lng };
+        }
+
+        const pole = getPoleOfInaccessibility(polygon);
+        return { lat: pole[1], lng: pole[0] };
+    } catch (error) {
+        console.error("Error calculating centroid:", error);
+        return null;
+    }
+}
+
+/**
+ * Distance in kilometers from a location to the nearest edge of a zone, zero when inside it.
+ * Uses a local flat-earth projection, which is accurate to well under a metre at city scale.
+ */
+export function getDistanceToZone(lat: number, lng: number, geometry: Geometry): number | null {
+    if (!geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) return null;
+    try {
+        const xScale = Math.cos(lat * Math.PI / 180);
+        let minDistance = Infinity;
+        for (const polygon of getPolygons(geometry)) {
+            const distance = signedDistanceToRings(lng * xScale, lat, polygon, xScale);
+            if (distance >= 0) return 0; // Inside this polygon
+            minDistance = Math.min(minDistance, -distance);
+        }
+        return Number.isFinite(minDistance) ? minDistance * KM_PER_DEGREE : null;
+    } catch (error) {
+        console.error("Error calculating distance to zone:", error);
+        return null;
+    }
+}
+
+/**
+ * The point on a zone's outline - outer rings and holes - nearest to a location,
+ * using the same local projection as getDistanceToZone.
+ */
+export function getNearestBoundaryPoint(lat: number, lng: number, geometry: Geometry): { lat: number; lng: number } | null {
+    if (!geometry || (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon')) return null;
+    const xScale = Math.cos(lat * Math.PI / 180);
+    const x = lng * xScale;
+    let nearest: [number, number] | null = null;
+    let minDistSq = Infinity;
+    for (const polygon of getPolygons(geometry)) {
+        for (const ring of polygon) {
+            for (let i = 1; i < ring.length; i++) {
+                const point = nearestOnSegment(x, lat, ring[i - 1][0] * xScale, ring[i - 1][1], ring[i][0] * xScale, ring[i][1]);
+                const distSq = (x - point[0]) ** 2 + (lat - point[1]) ** 2;
+                if (distSq < minDistSq) {
+                    nearest = point;
+                    minDistSq = distSq;
+                }
+            }
+        }
+    }
+    return nearest ? { lat: nearest[1], lng: nearest[0] / xScale } : null;
+}
+
+/**
+ * Shortest distance in kilometers between two zones, zero when they touch or overlap.
+ * Between shapes that do not touch the shortest distance always starts at a vertex of one of them.
+ */
+export function getDistanceBetweenZones(a: Geometry, b: Geometry): number | null {
+    try {
+        const featureA = turf.feature(a);
+        const featureB = turf.feature(b);
+        const [aMinX, aMinY, aMaxX, aMaxY] = turf.bbox(featureA);
+        const [bMinX, bMinY, bMaxX, bMaxY] = turf.bbox(featureB);
+        const bboxesOverlap = aMinX <= bMaxX && bMinX <= aMaxX && aMinY <= bMaxY && bMinY <= aMaxY;
+        // Edges can only cross when the bounding boxes overlap; the full intersection test is slow
+        if (bboxesOverlap && turf.booleanIntersects(featureA, featureB)) return 0;
+
+        let minDistance = Infinity;
+        for (const [from, to, [minX, minY, maxX, maxY]] of [[a, b, [bMinX, bMinY, bMaxX, bMaxY]], [b, a, [aMinX, aMinY, aMaxX, aMaxY]]] as const) {
+            for (const polygon of getPolygons(from)) {
+                for (const [lng, lat] of polygon[0]) {
+                    // Skip vertices whose distance to the other bounding box already exceeds the best so far
+                    const dx = Math.max(0, minX - lng, lng - maxX) * Math.cos(lat * Math.PI / 180);
+                    const dy = Math.max(0, minY - lat, lat - maxY);
+                    if (Math.sqrt(dx * dx + dy * dy) * KM_PER_DEGREE >= minDistance) continue;
+
+                    const distance = getDistanceToZone(lat, lng, to);
+                    if (distance !== null) minDistance = Math.min(minDistance, distance);
+                }
+            }
+        }
+        return Number.isFinite(minDistance) ? minDistance : null;
+    } catch (error) {
+        console.error("Error calculating distance between zones:", error);
+        return null;
+    }
+}
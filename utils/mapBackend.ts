@@ -0,0 +1,66 @@
+// Map renderers: Google Maps needs an API key, OpenStreetMap tiles don't
+export type MapBackend = 'google' | 'osm';
+
+// Placeholder from the setup instructions, treated as no key
+const PLACEHOLDER_API_KEYS = ['YOUR_GOOGLE_MAPS_API_KEY', 'YOUR_WEB_GOOGLE_MAPS_API_KEY'];
+
+// OpenStreetMap's standard tiles; heavy use needs another tile server (https://operations.osmfoundation.org/policies/tiles/)
+export const OSM_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const OSM_MAX_ZOOM = 19;
+export const OSM_ATTRIBUTION = '© <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+/**
+ * The renderer for a Google Maps API key: Google Maps with a key, OpenStreetMap without one,
+ * so local and self-hosted builds work without a Google billing account.
+ */
+export function getMapBackend(apiKey: string | null | undefined): MapBackend {
+  const key = apiKey?.trim();
+  return key && !PLACEHOLDER_API_KEYS.includes(key) ? 'google' : 'osm';
+}
+
+// Stroke and fill of a zone polygon on a web map, in the option names of Google Maps
+export interface WebPolygonStyle {
+  strokeColor: string; // #RRGGBB
+  strokeOpacity: number;
+  strokeWeight: number;
+  fillColor: string; // #RRGGBB
+  fillOpacity: number;
+  zIndex: number;
+}
+
+/**
+ * Splits a CSS rgb()/rgba() colour into a hex colour and an opacity, as web map renderers take them.
+ * Other colours come back as opaque black.
+ */
+export function rgbaToHex(rgba: string): { color: string; opacity: number } {
+  const result = /^rgba?\((\d+),\s*(\d+),\s*(\d+)(?:,\s*([\d.]+))?\)$/.exec(rgba);
+  if (!result) return { color: '#000000', opacity: 1 }; // Default fallback
+
+  const r = parseInt(result[1], 10);
+  const g = parseInt(result[2], 10);
+  const b = parseInt(result[3], 10);
+  const alpha = result[4] !== undefined ? parseFloat(result[4]) : 1;
+
+  const hex = "#" + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).toUpperCase();
+
+  return { color: hex, opacity: alpha };
+}
+
+/**
+ * A zone's polygon style on the web maps: selected zones get a blue outline, a stronger fill and go on top.
+ */
+export function getWebPolygonStyle(
+  style: { fillColor: string; strokeColor: string; strokeWidth: number; zIndex?: number; opacity?: number },
+  isSelected: boolean
+): WebPolygonStyle {
+  const fill = rgbaToHex(style.fillColor);
+  const stroke = rgbaToHex(style.strokeColor);
+  return {
+    strokeColor: isSelected ? '#0000FF' : stroke.color,
+    strokeOpacity: isSelected ? 1.0 : stroke.opacity,
+    strokeWeight: isSelected ? style.strokeWidth + 1 : style.strokeWidth,
+    fillColor: fill.color,
+    fillOpacity: fill.opacity * (isSelected ? 0.7 : 0.5),
+    zIndex: isSelected ? 10 : style.zIndex ?? 1,
+  };
+}
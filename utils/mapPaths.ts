@@ -0,0 +1,93 @@
+import { Position } from 'geojson';
+import { Geometry } from '@/types';
+
+// Coordinate format of react-native-maps
+export interface MapLatLng {
+  latitude: number;
+  longitude: number;
+}
+
+// Coordinate format of Google Maps JS (google.maps.LatLngLiteral)
+export interface WebLatLng {
+  lat: number;
+  lng: number;
+}
+
+// One polygon of a zone: its outline plus the rings cut out of it
+export interface MapPolygon {
+  coordinates: MapLatLng[];
+  holes: MapLatLng[][];
+}
+
+/**
+ * Returns the polygons of a Polygon or MultiPolygon geometry as lists of rings.
+ */
+function getPolygons(geometry: Geometry): Position[][][] {
+  if (!geometry?.coordinates || !Array.isArray(geometry.coordinates)) return [];
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+}
+
+/**
+ * Drops malformed positions and the closing position that repeats the first one.
+ */
+function cleanRing(ring: Position[]): Position[] {
+  if (!Array.isArray(ring)) return [];
+  const positions = ring.filter(coord => Array.isArray(coord) && coord.length >= 2);
+  const first = positions[0];
+  const last = positions[positions.length - 1];
+  if (positions.length > 1 && first[0] === last[0] && first[1] === last[1]) {
+    return positions.slice(0, -1);
+  }
+  return positions;
+}
+
+/**
+ * Signed area (shoelace) of a ring in degrees; positive when counter-clockwise.
+ */
+function signedArea(ring: Position[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += (ring[j][0] - ring[i][0]) * (ring[j][1] + ring[i][1]);
+  }
+  return sum / 2;
+}
+
+/**
+ * Cleaned rings of every polygon, with holes wound opposite to their outer ring.
+ * Google Maps only cuts a hole out of a multi-path polygon when the windings differ.
+ */
+function getOrientedRings(geometry: Geometry): Position[][][] {
+  return getPolygons(geometry)
+    .map(polygon => {
+      const [outer, ...holes] = polygon.map(cleanRing).filter(ring => ring.length >= 3);
+      if (!outer) return [];
+      const outerIsCounterClockwise = signedArea(outer) > 0;
+      return [
+        outer,
+        ...holes.map(hole => (signedArea(hole) > 0 === outerIsCounterClockwise ? [...hole].reverse() : hole)),
+      ];
+    })
+    .filter(rings => rings.length > 0);
+}
+
+/**
+ * Converts a zone geometry to react-native-maps polygons, keeping holes for the `holes` prop.
+ */
+export function toMapPolygons(geometry: Geometry): MapPolygon[] {
+  return getOrientedRings(geometry).map(([outer, ...holes]) => ({
+    coordinates: outer.map(coord => ({ latitude: coord[1], longitude: coord[0] })),
+    holes: holes.map(hole => hole.map(coord => ({ latitude: coord[1], longitude: coord[0] }))),
+  }));
+}
+
+/**
+ * Converts a zone geometry to Google Maps paths: one entry per polygon,
+ * holding the outer path followed by one path per hole.
+ */
+export function toWebPaths(geometry: Geometry): WebLatLng[][][] {
+  return getOrientedRings(geometry).map(rings =>
+    rings.map(ring => ring.map(coord => ({ lat: coord[1], lng: coord[0] })))
+  );
+}
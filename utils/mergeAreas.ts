@@ -0,0 +1,123 @@
+import * as turf from '@turf/turf';
+import { BBox, Feature, MultiPolygon, Polygon } from 'geojson';
+import { Geometry, ProcessedZone } from '@/types';
+import { getCentroid, getDistanceBetweenZones } from '@/utils/geometry';
+
+export const MERGE_DISTANCE_METERS = 100; // Max distance for merging areas
+export const MERGED_ZONE_ID_PREFIX = "merged_"; // Prefix for merged zone IDs
+const METERS_PER_DEGREE = 111195; // Length of one degree of latitude
+
+/**
+ * Disjoint-set lookup with path compression, so groups become transitive (A near B near C).
+ * Only areas of one neighbourhood are joined, so a chain can't run on across the city.
+ */
+function findRoot(parents: number[], i: number): number {
+  while (parents[i] !== i) {
+    parents[i] = parents[parents[i]];
+    i = parents[i];
+  }
+  return i;
+}
+
+function bboxesOverlap(a: BBox, b: BBox): boolean {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+}
+
+function toFeature(geometry: Geometry): Feature<Polygon | MultiPolygon> {
+  return turf.feature(geometry);
+}
+
+/**
+ * Merges areas of one CODE and one neighbourhood (WIJKNAAM) that lie within `mergeDistanceMeters` of each other.
+ * Each group becomes a single zone with the unioned geometry, the summed area and
+ * the original feature IDs and neighbourhoods in `memberIds`. Other codes are dropped.
+ */
+export function mergeAreas(
+  areas: ProcessedZone[],
+  codeToMerge: string,
+  mergeDistanceMeters: number = MERGE_DISTANCE_METERS
+): ProcessedZone[] {
+  const areasToMerge = areas.filter(z => z.properties.CODE === codeToMerge);
+  console.log(`[Merge] Starting merge for ${codeToMerge} areas. Count: ${areasToMerge.length}`);
+
+  if (areasToMerge.length < 2) {
+    return areasToMerge; // Not enough to merge
+  }
+
+  // 1. Bounding boxes grown by the merge distance, to skip pairs that are obviously too far apart
+  const bboxes = areasToMerge.map(zone => {
+    const [minLng, minLat, maxLng, maxLat] = turf.bbox(toFeature(zone.geometry));
+    const latMargin = mergeDistanceMeters / METERS_PER_DEGREE;
+    const lngMargin = latMargin / Math.cos(maxLat * Math.PI / 180);
+    return [minLng - lngMargin, minLat - latMargin, maxLng + lngMargin, maxLat + latMargin] as BBox;
+  });
+
+  // 2. Group nearby areas of the same neighbourhood
+  const parents = areasToMerge.map((_, i) => i);
+  for (let i = 0; i < areasToMerge.length; i++) {
+    for (let j = i + 1; j < areasToMerge.length; j++) {
+      if (areasToMerge[i].properties.WIJKNAAM !== areasToMerge[j].properties.WIJKNAAM) continue;
+      if (!bboxesOverlap(bboxes[i], bboxes[j])) continue;
+
+      const rootI = findRoot(parents, i);
+      const rootJ = findRoot(parents, j);
+      if (rootI === rootJ) continue; // Already in the same group
+
+      const distance = getDistanceBetweenZones(areasToMerge[i].geometry, areasToMerge[j].geometry);
+      if (distance !== null && distance * 1000 <= mergeDistanceMeters) {
+        parents[rootJ] = rootI;
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  areasToMerge.forEach((_, i) => {
+    const root = findRoot(parents, i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  // 3. Build one zone per group
+  const mergedResult: ProcessedZone[] = [];
+  groups.forEach(indices => {
+    const members = indices.map(i => areasToMerge[i]);
+    if (members.length === 1) {
+      // This area wasn't merged with any other, add it as is
+      mergedResult.push(members[0]);
+      return;
+    }
+
+    console.log(`[Merge] Merged ${members.length} areas of type ${codeToMerge}`);
+
+    let geometry: Geometry = members[0].geometry;
+    try {
+      const union = turf.union(turf.featureCollection(members.map(member => toFeature(member.geometry))));
+      if (union) {
+        geometry = union.geometry;
+      }
+    } catch (error) {
+      // Fall back to a MultiPolygon of the untouched member polygons
+      console.warn(`[Merge] Union failed for ${codeToMerge} group of ${members[0].sourceId}, keeping members side by side:`, error);
+      geometry = {
+        type: 'MultiPolygon',
+        coordinates: members.flatMap(member =>
+          member.geometry.type === 'Polygon' ? [member.geometry.coordinates] : member.geometry.coordinates
+        ),
+      };
+    }
+
+    const memberIds = members.flatMap(member =>
+      member.memberIds ?? [{ id: member.sourceId, WIJKNAAM: member.properties.WIJKNAAM }]
+    );
+
+    mergedResult.push({
+      ...members[0],
+      id: `${MERGED_ZONE_ID_PREFIX}${codeToMerge}_${members[0].sourceId}`, // Stable: keyed by the first member
+      geometry,
+      centroid: getCentroid(geometry) ?? members[0].centroid, // Fallback: the centroid of the first area
+      area: members.reduce((sum, member) => sum + (member.area || 0), 0),
+      memberIds,
+    });
+  });
+
+  return mergedResult;
+}
@@ -0,0 +1,109 @@
+import { ProcessedZone } from '@/types';
+import { getDistanceToZone, getNearestBoundaryPoint } from '@/utils/geometry';
+
+export type TravelMode = 'walking' | 'cycling' | 'driving';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface NavigationRequest {
+  origin: LatLng | null; // null lets the app start from the device location
+  destination: LatLng;
+  destinationName: string | null; // Label some apps show at the destination
+  mode: TravelMode;
+}
+
+export type NavigationProviderId = 'google' | 'apple' | 'organic' | 'osm';
+
+export interface NavigationProvider {
+  id: NavigationProviderId;
+  name: string;
+  platforms: string[]; // Platform.OS values the provider is offered on
+  buildUrl: (request: NavigationRequest) => string;
+}
+
+const formatLatLng = ({ lat, lng }: LatLng) => `${lat.toFixed(6)},${lng.toFixed(6)}`;
+
+const GOOGLE_TRAVEL_MODES: { [mode in TravelMode]: string } = { walking: 'walking', cycling: 'bicycling', driving: 'driving' };
+
+/** Google Maps directions; opens the app when installed. https://developers.google.com/maps/documentation/urls/get-started */
+export function buildGoogleMapsUrl({ origin, destination, mode }: NavigationRequest): string {
+  const params = new URLSearchParams({ api: '1' });
+  if (origin) params.set('origin', formatLatLng(origin));
+  params.set('destination', formatLatLng(destination));
+  params.set('travelmode', GOOGLE_TRAVEL_MODES[mode]);
+  return `https://www.google.com/maps/dir/?${params}`;
+}
+
+// Apple Maps has no cycling flag; its default (driving) is used then
+const APPLE_DIRECTION_FLAGS: { [mode in TravelMode]: string | null } = { walking: 'w', cycling: null, driving: 'd' };
+
+/** Apple Maps directions. https://developer.apple.com/library/archive/featuredarticles/iPhoneURLScheme_Reference/MapLinks/MapLinks.html */
+export function buildAppleMapsUrl({ origin, destination, mode }: NavigationRequest): string {
+  const params = new URLSearchParams();
+  if (origin) params.set('saddr', formatLatLng(origin));
+  params.set('daddr', formatLatLng(destination));
+  const flag = APPLE_DIRECTION_FLAGS[mode];
+  if (flag) params.set('dirflg', flag);
+  return `https://maps.apple.com/?${params}`;
+}
+
+const ORGANIC_ROUTE_TYPES: { [mode in TravelMode]: string } = { walking: 'pedestrian', cycling: 'bicycle', driving: 'vehicle' };
+
+/** Organic Maps route, an offline OpenStreetMap app. https://github.com/organicmaps/organicmaps/blob/master/api/README.md */
+export function buildOrganicMapsUrl({ origin, destination, destinationName, mode }: NavigationRequest): string {
+  const params = new URLSearchParams();
+  if (origin) {
+    params.set('sll', formatLatLng(origin));
+    params.set('saddr', 'My location');
+  }
+  params.set('dll', formatLatLng(destination));
+  params.set('daddr', destinationName ?? 'Dog zone');
+  params.set('type', ORGANIC_ROUTE_TYPES[mode]);
+  return `om://route?${params}`;
+}
+
+const OSM_ENGINES: { [mode in TravelMode]: string } = { walking: 'fossgis_osrm_foot', cycling: 'fossgis_osrm_bike', driving: 'fossgis_osrm_car' };
+
+/** Directions on openstreetmap.org; without an origin it only shows the destination. */
+export function buildOpenStreetMapUrl({ origin, destination, mode }: NavigationRequest): string {
+  const params = new URLSearchParams({ engine: OSM_ENGINES[mode], route: `${origin ? formatLatLng(origin) : ''};${formatLatLng(destination)}` });
+  return `https://www.openstreetmap.org/directions?${params}`;
+}
+
+// In the order they are offered
+export const NAVIGATION_PROVIDERS: NavigationProvider[] = [
+  { id: 'google', name: 'Google Maps', platforms: ['ios', 'android', 'web'], buildUrl: buildGoogleMapsUrl },
+  { id: 'apple', name: 'Apple Maps', platforms: ['ios'], buildUrl: buildAppleMapsUrl },
+  { id: 'organic', name: 'Organic Maps', platforms: ['ios', 'android'], buildUrl: buildOrganicMapsUrl },
+  { id: 'osm', name: 'OpenStreetMap', platforms: ['ios', 'android', 'web'], buildUrl: buildOpenStreetMapUrl },
+];
+
+/** The providers offered on a platform (Platform.OS). */
+export function getNavigationProviders(platform: string): NavigationProvider[] {
+  return NAVIGATION_PROVIDERS.filter(provider => provider.platforms.includes(platform));
+}
+
+/**
+ * Where to navigate to for a zone: the point of its outline nearest to the user, the closest way in.
+ * Falls back to the centroid when the location is unknown or the user is already inside.
+ */
+export function getNavigationTarget(zone: ProcessedZone, from: LatLng | null): LatLng {
+  if (!from) return zone.centroid;
+  if (getDistanceToZone(from.lat, from.lng, zone.geometry) === 0) return zone.centroid;
+  return getNearestBoundaryPoint(from.lat, from.lng, zone.geometry) ?? zone.centroid;
+}
+
+/**
+ * A walking route request from the user to a zone.
+ */
+export function getNavigationRequest(zone: ProcessedZone, from: LatLng | null, mode: TravelMode = 'walking'): NavigationRequest {
+  return {
+    origin: from,
+    destination: getNavigationTarget(zone, from),
+    destinationName: zone.properties.WIJKNAAM,
+    mode,
+  };
+}
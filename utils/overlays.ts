@@ -0,0 +1,258 @@
+import * as turf from '@turf/turf';
+import { GeoJsonData, GeoJsonFeature } from '@/types';
+import { ImportedFeature, parseGeoJsonFeatures, parseKmlFeatures } from '@/utils/exportFormats';
+import { createVersionedStore, FileStorage, KeyValueStorage, VersionedStore } from '@/utils/storage';
+import { isGeoJsonData, parseGeoJsonData } from '@/utils/validateGeoJson';
+
+const STORAGE_KEY = 'overlayLayers'; // The index of the layers; their data is kept in one file each
+export const MAX_MAPPED_VALUES = 30; // Properties with more distinct values (names, IDs) can't be mapped to codes
+
+// Codes an imported feature can be mapped to
+export const OVERLAY_CODES = ['GROEN', 'ORANJE', 'ROOD'] as const;
+export type OverlayCode = typeof OVERLAY_CODES[number];
+
+// Words in an imported value that suggest a code, checked in this order. ORANJE is off-leash like
+// GROEN, so leash-only values suggest none and are left for the user to map
+const CODE_HINTS: [RegExp, OverlayCode][] = [
+  [/rood|\bred\b|verbod|forbidden|prohibited|geen honden|no dogs/i, 'ROOD'],
+  [/groen|\bgreen\b|off.?leash|loslo|\blos\b|vrij|\bfree\b/i, 'GROEN'],
+  [/oranje|\borange\b/i, 'ORANJE'],
+];
+
+// Property names used as the neighbourhood (WIJKNAAM) of imported features, first match wins
+const NAME_PROPERTIES = ['wijknaam', 'name', 'naam', 'title', 'titel'];
+
+// How the features of an imported file become zones
+export interface OverlayMapping {
+  property: string | null; // Property holding the zone type; null maps every feature to defaultCode
+  values: { [value: string]: OverlayCode | null }; // Per property value; null or missing skips the feature
+  defaultCode: OverlayCode;
+}
+
+// A named, imported layer kept on the device; `data` is in dataset format, ready for processZoneData
+export interface OverlayLayer {
+  id: string; // "overlay_<timestamp>", prefixes the IDs of its features
+  name: string;
+  importedAt: number; // ms since epoch
+  visible: boolean;
+  data: GeoJsonData;
+}
+
+// A layer as listed in the index, without its data
+type OverlayLayerEntry = Omit<OverlayLayer, 'data'>;
+
+const layerFile = (id: string) => `overlay.${id}.json`;
+
+const isLayerEntry = (entry: Partial<OverlayLayerEntry> | null): entry is OverlayLayerEntry =>
+  typeof entry?.id === 'string' && typeof entry.name === 'string';
+
+/**
+ * Keeps imported overlay layers on the device: a small index in `storage` and the zone data
+ * of each layer in a file of its own, so showing or hiding a layer doesn't rewrite the others.
+ * Loads them oldest first, dropping layers whose file is gone or no longer valid.
+ */
+export function createOverlayStore(storage: KeyValueStorage, files: FileStorage): VersionedStore<OverlayLayer[]> {
+  const index = createVersionedStore<OverlayLayerEntry[]>(storage, {
+    key: STORAGE_KEY,
+    field: 'layers',
+    formatVersion: 2,
+    name: 'overlay index',
+    empty: [],
+    parse: value => (Array.isArray(value) ? value.filter(isLayerEntry) : null),
+  });
+  // Layers kept in the index itself, before their data moved to files
+  const legacyIndex = createVersionedStore<OverlayLayer[]>(storage, {
+    key: STORAGE_KEY,
+    field: 'layers',
+    formatVersion: 1,
+    name: 'overlays',
+    empty: [],
+    parse: value => (Array.isArray(value) ? value.filter(layer => isGeoJsonData(layer?.data) && isLayerEntry(layer)) : null),
+  });
+  const written = new Set<string>(); // Layers whose file is up to date; their data never changes
+
+  const loadLayer = async (entry: OverlayLayerEntry): Promise<OverlayLayer[]> => {
+    try {
+      const content = await files.readFile(layerFile(entry.id));
+      const data: unknown = content !== null ? JSON.parse(content) : null;
+      if (!isGeoJsonData(data)) {
+        console.warn(`[Overlays] Dropping "${entry.name}": its data is missing or invalid.`);
+        return [];
+      }
+      written.add(entry.id);
+      return [{ ...entry, data }];
+    } catch (error) {
+      console.warn(`[Overlays] Dropping "${entry.name}": its data is unreadable:`, error);
+      return [];
+    }
+  };
+
+  const store: VersionedStore<OverlayLayer[]> = {
+    name: 'overlays',
+    async load() {
+      const entries = await index.load();
+      if (entries.length === 0) {
+        const legacy = await legacyIndex.load();
+        if (legacy.length > 0) {
+          await store.save(legacy).catch(error => console.warn('[Overlays] Could not move the layers to files:', error));
+        }
+        return legacy;
+      }
+      return (await Promise.all(entries.map(loadLayer))).flat();
+    },
+    async save(layers) {
+      for (const { data, ...entry } of layers) {
+        if (written.has(entry.id)) continue;
+        await files.writeFile(layerFile(entry.id), JSON.stringify(data));
+        written.add(entry.id);
+      }
+      // The index last, so it never lists a layer without its file
+      await index.save(layers.map(({ data, ...entry }) => entry));
+      const kept = new Set(layers.map(layer => layer.id));
+      for (const id of [...written].filter(id => !kept.has(id))) {
+        await files.deleteFile(layerFile(id));
+        written.delete(id);
+      }
+    },
+  };
+  return store;
+}
+
+/**
+ * Polygon features of a GeoJSON or KML file, told apart by content.
+ * Throws when the file is neither or has no polygons.
+ */
+export function parseOverlayFile(text: string): ImportedFeature[] {
+  let features: ImportedFeature[];
+  if (text.trimStart().startsWith('<')) {
+    if (!/<(?:\w+:)?kml\b/.test(text)) throw new Error('Not a GeoJSON or KML file');
+    features = parseKmlFeatures(text);
+  } else {
+    try {
+      features = parseGeoJsonFeatures(text);
+    } catch {
+      throw new Error('Not a GeoJSON or KML file');
+    }
+  }
+  if (features.length === 0) throw new Error('The file has no polygons');
+  return features;
+}
+
+const toValue = (value: ImportedFeature['properties'][string] | undefined): string | null =>
+  value === null || value === undefined || value === '' ? null : String(value);
+
+/**
+ * Properties that can be mapped to codes, with their distinct values sorted:
+ * those with at least one and at most MAX_MAPPED_VALUES values.
+ */
+export function getMappableProperties(features: ImportedFeature[]): { [property: string]: string[] } {
+  const valuesByProperty = new Map<string, Set<string>>();
+  for (const feature of features) {
+    for (const [property, raw] of Object.entries(feature.properties)) {
+      const value = toValue(raw);
+      if (value === null) continue;
+      const values = valuesByProperty.get(property) ?? new Set<string>();
+      values.add(value);
+      valuesByProperty.set(property, values);
+    }
+  }
+  return Object.fromEntries([...valuesByProperty]
+    .filter(([, values]) => values.size <= MAX_MAPPED_VALUES)
+    .map(([property, values]) => [property, [...values].sort((a, b) => a.localeCompare(b))]));
+}
+
+/** The code a property value suggests, e.g. "Losloopgebied" → GROEN; null when it suggests none. */
+export function guessOverlayCode(value: string): OverlayCode | null {
+  return CODE_HINTS.find(([hint]) => hint.test(value))?.[1] ?? null;
+}
+
+/**
+ * A first mapping to show the user: the property whose values suggest the most codes,
+ * or every feature as off-leash when no value does.
+ */
+export function guessOverlayMapping(features: ImportedFeature[]): OverlayMapping {
+  let best: OverlayMapping = { property: null, values: {}, defaultCode: 'GROEN' };
+  let bestCount = 0;
+  for (const [property, values] of Object.entries(getMappableProperties(features))) {
+    const guesses = Object.fromEntries(values.map(value => [value, guessOverlayCode(value)]));
+    const count = Object.values(guesses).filter(code => code !== null).length;
+    if (count > bestCount) {
+      best = { property, values: guesses, defaultCode: 'GROEN' };
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** The code a feature gets under a mapping, or null when it is skipped. */
+export function getOverlayCode(feature: ImportedFeature, mapping: OverlayMapping): OverlayCode | null {
+  if (mapping.property === null) return mapping.defaultCode;
+  const value = toValue(feature.properties[mapping.property]);
+  return value !== null ? mapping.values[value] ?? null : null;
+}
+
+/** Number of features per code under a mapping, plus the skipped ones; for a preview before importing. */
+export function countOverlayCodes(features: ImportedFeature[], mapping: OverlayMapping): { [code in OverlayCode | 'skipped']: number } {
+  const counts = { GROEN: 0, ORANJE: 0, ROOD: 0, skipped: 0 };
+  for (const feature of features) {
+    counts[getOverlayCode(feature, mapping) ?? 'skipped']++;
+  }
+  return counts;
+}
+
+const getFeatureName = (feature: ImportedFeature): string | null => {
+  const names = Object.keys(feature.properties);
+  for (const wanted of NAME_PROPERTIES) {
+    const property = names.find(name => name.toLowerCase() === wanted);
+    const value = property !== undefined ? toValue(feature.properties[property]) : null;
+    if (value !== null) return value;
+  }
+  return null;
+};
+
+/**
+ * A new overlay layer from the mapped features of an imported file, in dataset format:
+ * IDs are prefixed with the layer ID and the area is computed, as the file has no OPPERVLAKTE.
+ * Throws a GeoJsonValidationError for invalid geometry, or an Error when no feature is mapped.
+ * The features are validated before their area is computed, which assumes valid geometry.
+ */
+export function createOverlayLayer(name: string, features: ImportedFeature[], mapping: OverlayMapping, now: number): OverlayLayer {
+  const id = `overlay_${now}`;
+  const usedIds = new Set<string>();
+  const mapped = features.flatMap((feature, index): GeoJsonFeature[] => {
+    const code = getOverlayCode(feature, mapping);
+    if (!code) return [];
+    let featureId = `${id}/${feature.id}`;
+    if (usedIds.has(featureId)) featureId = `${featureId}_${index}`; // Files don't always have unique IDs
+    usedIds.add(featureId);
+    return [{
+      type: 'Feature',
+      id: featureId,
+      geometry: feature.geometry,
+      properties: {
+        CODE: code,
+        WIJKNAAM: getFeatureName(feature),
+        GEBIEDSTEAM: null,
+        OPPERVLAKTE: null, // Computed once the geometry is validated
+        ID: index + 1,
+      },
+    }];
+  });
+  if (mapped.length === 0) {
+    throw new Error('No feature is mapped to GROEN, ORANJE or ROOD');
+  }
+  const data = parseGeoJsonData({ type: 'FeatureCollection', features: mapped });
+  return {
+    id,
+    name: name.trim() || 'Overlay',
+    importedAt: now,
+    visible: true,
+    data: {
+      ...data,
+      features: data.features.map(feature => ({
+        ...feature,
+        properties: { ...feature.properties, OPPERVLAKTE: String(Math.round(turf.area(feature.geometry))) },
+      })),
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+
+export interface PickedTextFile {
+  name: string;
+  text: string;
+}
+
+/**
+ * Lets the user pick a file and reads it as UTF-8 text; null when the picker is cancelled.
+ * Any type can be picked, as KML and GeoJSON are rarely registered with the system.
+ */
+export async function pickTextFile(): Promise<PickedTextFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: '*/*', copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  const [asset] = result.assets;
+  const text = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+  return { name: asset.name, text };
+}
@@ -0,0 +1,20 @@
+import * as DocumentPicker from 'expo-document-picker';
+
+export interface PickedTextFile {
+  name: string;
+  text: string;
+}
+
+/**
+ * Lets the user pick a GeoJSON or KML file in the browser and reads it as text;
+ * null when the picker is cancelled.
+ */
+export async function pickTextFile(): Promise<PickedTextFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['.geojson', '.json', '.kml', 'application/geo+json', 'application/json', 'application/vnd.google-earth.kml+xml'],
+  });
+  if (result.canceled) return null;
+  const [asset] = result.assets;
+  const text = asset.file ? await asset.file.text() : await (await fetch(asset.uri)).text();
+  return { name: asset.name, text };
+}
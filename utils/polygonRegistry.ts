@@ -0,0 +1,102 @@
+import { ProcessedZone } from '@/types';
+
+// How a map renderer draws the polygons of one zone (a MultiPolygon can need several)
+export interface PolygonRenderer<TPolygon, TOptions> {
+  create(zone: ProcessedZone, options: TOptions): TPolygon[]; // Adds them to the map
+  update(polygons: TPolygon[], options: TOptions): void;
+  remove(polygons: TPolygon[]): void; // Takes them off the map, with their listeners
+}
+
+// Zones whose polygons a sync created, restyled or removed
+export interface PolygonSyncStats {
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+export interface PolygonRegistry<TOptions> {
+  /**
+   * Makes the map show exactly `zones`, styled by `getOptions`. Polygons are created for new zones
+   * and zones whose geometry changed, restyled only when their options changed, and removed for
+   * zones no longer shown.
+   */
+  sync(zones: ProcessedZone[], getOptions: (zone: ProcessedZone) => TOptions): PolygonSyncStats;
+  /** The latest zone object shown under an ID, for click handlers created with an older one. */
+  getZone(id: string): ProcessedZone | null;
+  /** Number of zones drawn. */
+  readonly size: number;
+  /** Removes every polygon. */
+  clear(): void;
+}
+
+interface Entry<TPolygon, TOptions> {
+  zone: ProcessedZone;
+  polygons: TPolygon[];
+  options: TOptions;
+}
+
+// Options are flat objects of strings, numbers and booleans, so a shallow comparison suffices
+const sameOptions = <TOptions extends object>(a: TOptions, b: TOptions): boolean => {
+  const keys = Object.keys(a) as (keyof TOptions)[];
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+/**
+ * Keeps a map's zone polygons keyed by zone ID across renders, so selecting a zone restyles
+ * two polygons instead of redrawing them all.
+ */
+export function createPolygonRegistry<TPolygon, TOptions extends object>(
+  renderer: PolygonRenderer<TPolygon, TOptions>
+): PolygonRegistry<TOptions> {
+  const entries = new Map<string, Entry<TPolygon, TOptions>>();
+
+  return {
+    sync(zones, getOptions) {
+      const stats: PolygonSyncStats = { created: 0, updated: 0, removed: 0 };
+      const shown = new Set(zones.map(zone => zone.id));
+
+      for (const [id, entry] of entries) {
+        if (shown.has(id)) continue;
+        renderer.remove(entry.polygons);
+        entries.delete(id);
+        stats.removed++;
+      }
+
+      for (const zone of zones) {
+        const options = getOptions(zone);
+        const entry = entries.get(zone.id);
+        if (entry && entry.zone.geometry !== zone.geometry) {
+          // Same ID, new shape (e.g. after a data update): draw it again
+          renderer.remove(entry.polygons);
+          entries.delete(zone.id);
+          stats.removed++;
+        } else if (entry) {
+          entry.zone = zone;
+          if (!sameOptions(entry.options, options)) {
+            renderer.update(entry.polygons, options);
+            entry.options = options;
+            stats.updated++;
+          }
+          continue;
+        }
+        entries.set(zone.id, { zone, polygons: renderer.create(zone, options), options });
+        stats.created++;
+      }
+
+      return stats;
+    },
+
+    getZone(id) {
+      return entries.get(id)?.zone ?? null;
+    },
+
+    get size() {
+      return entries.size;
+    },
+
+    clear() {
+      entries.forEach(entry => renderer.remove(entry.polygons));
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Writes the text to a temporary file and opens the share sheet for it.
+ * Rejects when sharing is not available on the device.
+ */
+export async function shareFile(fileName: string, content: string, mimeType: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, content, { encoding: FileSystem.EncodingType.UTF8 });
+  console.log(`[Export] Sharing ${fileName} (${content.length} characters).`);
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: fileName });
+}
@@ -0,0 +1,18 @@
+/**
+ * Downloads the text as a file in the browser.
+ */
+export async function shareFile(fileName: string, content: string, mimeType: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  try {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    console.log(`[Export] Downloaded ${fileName} (${content.length} characters).`);
+  } finally {
+    // Revoked after the click has been handled, so the download can start
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+}
@@ -0,0 +1,124 @@
+import * as turf from '@turf/turf';
+import RBush, { BBox } from 'rbush';
+import { ProcessedZone } from '@/types';
+import { getDistance, getDistanceToZone, KM_PER_DEGREE } from '@/utils/geometry';
+
+// Radius of the first nearest-zone search; doubled until enough zones are found
+const FIRST_SEARCH_RADIUS_KM = 0.5;
+
+// A zone in the R-tree, stored under its bounding box
+interface IndexedZone extends BBox {
+  zone: ProcessedZone;
+  order: number; // Position in the indexed list, so results keep its order
+}
+
+// A zone with the distance in km from a location to its nearest edge, 0 when inside
+export interface NearbyZone {
+  zone: ProcessedZone;
+  distance: number;
+}
+
+// A lat/lng box, e.g. the visible part of the map
+export interface LatLngBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface ZoneIndex {
+  /** The `count` zones with the shortest walk to their edge, nearest first; `include` leaves zones out. */
+  nearest(lat: number, lng: number, count: number, include?: (zone: ProcessedZone) => boolean): NearbyZone[];
+  /** Zones whose polygons contain the location, holes respected, in the order they were indexed. */
+  containing(lat: number, lng: number): ProcessedZone[];
+  /** Zones whose bounding box overlaps the bounds, in the order they were indexed. */
+  inBounds(bounds: LatLngBounds): ProcessedZone[];
+  /** The indexed zone with the ID, if any. */
+  get(id: string): ProcessedZone | undefined;
+  /** Number of zones indexed. */
+  readonly size: number;
+}
+
+const byOrder = (a: IndexedZone, b: IndexedZone) => a.order - b.order;
+
+/**
+ * An R-tree over the bounding boxes of zones, built once when they load. Nearest, point and
+ * viewport queries then only measure the zones near the location instead of all of them.
+ */
+export function createZoneIndex(zones: ProcessedZone[]): ZoneIndex {
+  const items: IndexedZone[] = zones
+    .filter(zone => zone.geometry)
+    .map((zone, order) => {
+      const [minX, minY, maxX, maxY] = turf.bbox(zone.geometry);
+      return { minX, minY, maxX, maxY, zone, order };
+    });
+  const tree = new RBush<IndexedZone>().load(items);
+  const byId = new Map(items.map(({ zone }) => [zone.id, zone]));
+  const extent: BBox = {
+    minX: Math.min(...items.map(item => item.minX)),
+    minY: Math.min(...items.map(item => item.minY)),
+    maxX: Math.max(...items.map(item => item.maxX)),
+    maxY: Math.max(...items.map(item => item.maxY)),
+  };
+
+  return {
+    nearest(lat, lng, count, include = () => true) {
+      if (count <= 0 || items.length === 0) return [];
+      const measured = new Map<IndexedZone, NearbyZone>();
+      const lngScale = Math.cos(lat * Math.PI / 180);
+
+      for (let radius = FIRST_SEARCH_RADIUS_KM; ; radius *= 2) {
+        const latSpan = radius / KM_PER_DEGREE;
+        const lngSpan = latSpan / lngScale;
+        const box = { minX: lng - lngSpan, minY: lat - latSpan, maxX: lng + lngSpan, maxY: lat + latSpan };
+
+        for (const item of tree.search(box)) {
+          if (measured.has(item) || !include(item.zone)) continue;
+          const { zone } = item;
+          const distance = getDistanceToZone(lat, lng, zone.geometry) ?? getDistance(lat, lng, zone.centroid.lat, zone.centroid.lng);
+          measured.set(item, { zone, distance });
+        }
+
+        const found = [...measured.entries()]
+          .sort(([a, nearA], [b, nearB]) => nearA.distance - nearB.distance || a.order - b.order)
+          .slice(0, count)
+          .map(([, nearby]) => nearby);
+        // Every zone outside the box is farther than the radius, in the projection getDistanceToZone uses
+        const complete = found.length === count && found[count - 1].distance <= radius;
+        const coversAll = box.minX <= extent.minX && box.minY <= extent.minY && box.maxX >= extent.maxX && box.maxY >= extent.maxY;
+        if (complete || coversAll) return found;
+      }
+    },
+
+    containing(lat, lng) {
+      const point = turf.point([lng, lat]);
+      return tree
+        .search({ minX: lng, minY: lat, maxX: lng, maxY: lat })
+        .filter(({ zone }) => {
+          try {
+            return turf.booleanPointInPolygon(point, zone.geometry);
+          } catch (error) {
+            console.warn(`[Index] Could not test zone ${zone.id}:`, error);
+            return false;
+          }
+        })
+        .sort(byOrder)
+        .map(({ zone }) => zone);
+    },
+
+    inBounds({ south, west, north, east }) {
+      return tree
+        .search({ minX: west, minY: south, maxX: east, maxY: north })
+        .sort(byOrder)
+        .map(({ zone }) => zone);
+    },
+
+    get(id) {
+      return byId.get(id);
+    },
+
+    get size() {
+      return items.length;
+    },
+  };
+}
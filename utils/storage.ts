@@ -0,0 +1,56 @@
+// Subset of AsyncStorage the stores need, so tests can pass an in-memory store
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+// Named text files kept on the device, for values too large for AsyncStorage
+export interface FileStorage {
+  readFile(name: string): Promise<string | null>; // null when there is no such file
+  writeFile(name: string, content: string): Promise<void>;
+  deleteFile(name: string): Promise<void>; // Does nothing when there is no such file
+}
+
+export interface VersionedStoreOptions<T> {
+  key: string;
+  field: string; // Property holding the value, next to `formatVersion`
+  formatVersion: number; // Bump when the stored shape changes; older entries are ignored
+  name: string; // What is stored, for log messages, e.g. "favourites"
+  empty: T; // Loaded when nothing usable is stored
+  parse: (value: unknown) => T | null; // The stored value when it has the expected shape, else null
+}
+
+export interface VersionedStore<T> {
+  readonly name: string;
+  /** The stored value, or `empty` when nothing usable is stored. */
+  load(): Promise<T>;
+  save(value: T): Promise<void>;
+}
+
+/**
+ * Keeps one value on the device under `key` as `{ formatVersion, [field]: value }`.
+ * Entries of another format version, unreadable JSON and values `parse` rejects load as `empty`.
+ */
+export function createVersionedStore<T>(
+  storage: KeyValueStorage,
+  { key, field, formatVersion, name, empty, parse }: VersionedStoreOptions<T>
+): VersionedStore<T> {
+  return {
+    name,
+    async load() {
+      const stored = await storage.getItem(key);
+      if (!stored) return empty;
+      try {
+        const parsed = JSON.parse(stored) as { formatVersion?: unknown; [field: string]: unknown };
+        if (parsed?.formatVersion !== formatVersion) return empty;
+        return parse(parsed[field]) ?? empty;
+      } catch (error) {
+        console.warn(`[Storage] Ignoring unreadable ${name}:`, error);
+        return empty;
+      }
+    },
+    async save(value) {
+      await storage.setItem(key, JSON.stringify({ formatVersion, [field]: value }));
+    },
+  };
+}
@@ -0,0 +1,150 @@
+import type { GeoJsonData, Position } from '@/types';
+
+// One problem found in the input; `featureId` is null when the feature has no usable ID
+export interface GeoJsonValidationIssue {
+  index: number; // Position of the feature in `features`, -1 for collection-level problems
+  featureId: string | null;
+  reason: string;
+}
+
+// How many issues the error message lists before summarising the rest
+const MAX_ISSUES_IN_MESSAGE = 5;
+
+/**
+ * Raised when input does not match GeoJsonData; `issues` lists every failed feature and why.
+ */
+export class GeoJsonValidationError extends Error {
+  readonly issues: GeoJsonValidationIssue[];
+
+  constructor(issues: GeoJsonValidationIssue[]) {
+    const listed = issues
+      .slice(0, MAX_ISSUES_IN_MESSAGE)
+      .map(issue => (issue.index < 0 ? issue.reason : `${issue.featureId ?? `feature #${issue.index}`}: ${issue.reason}`));
+    const more = issues.length > MAX_ISSUES_IN_MESSAGE ? ` (and ${issues.length - MAX_ISSUES_IN_MESSAGE} more)` : '';
+    super(`Invalid dog zone data: ${listed.join('; ')}${more}`);
+    this.name = 'GeoJsonValidationError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNullableString = (value: unknown): value is string | null => value === null || typeof value === 'string';
+
+/**
+ * Checks a single [longitude, latitude] position; returns the problem or null.
+ */
+function checkPosition(position: unknown): string | null {
+  if (!Array.isArray(position) || position.length < 2) return 'position is not a [longitude, latitude] pair';
+  if (!position.every(n => typeof n === 'number' && Number.isFinite(n))) return 'position contains a non-numeric value';
+  const [lng, lat] = position as Position;
+  if (lng < -180 || lng > 180 || lat < -90 || lat > 90) return `position [${lng}, ${lat}] is out of range`;
+  return null;
+}
+
+/**
+ * Checks one polygon: at least one ring, each a closed list of at least 4 valid positions.
+ */
+function checkPolygonCoordinates(rings: unknown): string | null {
+  if (!Array.isArray(rings) || rings.length === 0) return 'polygon has no rings';
+  for (let r = 0; r < rings.length; r++) {
+    const ring = rings[r];
+    const label = r === 0 ? 'outer ring' : `hole ${r}`;
+    if (!Array.isArray(ring) || ring.length < 4) return `${label} has fewer than 4 positions`;
+    for (const position of ring) {
+      const problem = checkPosition(position);
+      if (problem) return `${label}: ${problem}`;
+    }
+    const first = ring[0] as Position;
+    const last = ring[ring.length - 1] as Position;
+    if (first[0] !== last[0] || first[1] !== last[1]) return `${label} is not closed`;
+  }
+  return null;
+}
+
+/**
+ * Checks a geometry against the Polygon | MultiPolygon union; returns the problem or null.
+ */
+function checkGeometry(geometry: unknown): string | null {
+  if (!isObject(geometry)) return 'geometry is missing';
+  if (geometry.type === 'Polygon') {
+    const problem = checkPolygonCoordinates(geometry.coordinates);
+    return problem ? `Polygon ${problem}` : null;
+  }
+  if (geometry.type === 'MultiPolygon') {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) return 'MultiPolygon has no polygons';
+    for (let p = 0; p < geometry.coordinates.length; p++) {
+      const problem = checkPolygonCoordinates(geometry.coordinates[p]);
+      if (problem) return `MultiPolygon part ${p}: ${problem}`;
+    }
+    return null;
+  }
+  return `unsupported geometry type ${JSON.stringify(geometry.type)}`;
+}
+
+/**
+ * Checks the dataset properties; returns the problem or null.
+ */
+function checkProperties(properties: unknown): string | null {
+  if (!isObject(properties)) return 'properties are missing';
+  if (typeof properties.CODE !== 'string' || properties.CODE.length === 0) return 'CODE is missing';
+  if (!isNullableString(properties.OPPERVLAKTE)) return 'OPPERVLAKTE must be a string or null';
+  if (typeof properties.OPPERVLAKTE === 'string' && isNaN(parseFloat(properties.OPPERVLAKTE))) {
+    return `OPPERVLAKTE ${JSON.stringify(properties.OPPERVLAKTE)} is not a number`;
+  }
+  if (!isNullableString(properties.WIJKNAAM)) return 'WIJKNAAM must be a string or null';
+  if (!isNullableString(properties.GEBIEDSTEAM)) return 'GEBIEDSTEAM must be a string or null';
+  if (typeof properties.ID !== 'number') return 'ID must be a number';
+  return null;
+}
+
+/**
+ * Validates input against GeoJsonData and collects every problem instead of stopping at the first.
+ */
+export function validateGeoJsonData(value: unknown): GeoJsonValidationIssue[] {
+  if (!isObject(value)) return [{ index: -1, featureId: null, reason: 'data is not an object' }];
+  if (value.type !== 'FeatureCollection') {
+    return [{ index: -1, featureId: null, reason: `type must be "FeatureCollection", got ${JSON.stringify(value.type)}` }];
+  }
+  if (!Array.isArray(value.features)) return [{ index: -1, featureId: null, reason: 'features is not an array' }];
+
+  const issues: GeoJsonValidationIssue[] = [];
+  const seenIds = new Set<string>();
+
+  value.features.forEach((feature: unknown, index: number) => {
+    const featureId = isObject(feature) && typeof feature.id === 'string' && feature.id.length > 0 ? feature.id : null;
+    const report = (reason: string) => issues.push({ index, featureId, reason });
+
+    if (!isObject(feature) || feature.type !== 'Feature') return report('not a GeoJSON Feature');
+    if (featureId === null) return report('id is missing');
+    if (seenIds.has(featureId)) return report('duplicate id');
+    seenIds.add(featureId);
+    if (feature.geometry_name !== undefined && typeof feature.geometry_name !== 'string') {
+      return report('geometry_name must be a string');
+    }
+
+    const problem = checkProperties(feature.properties) ?? checkGeometry(feature.geometry);
+    if (problem) report(problem);
+  });
+
+  return issues;
+}
+
+/**
+ * Type guard for data that passes validateGeoJsonData.
+ */
+export function isGeoJsonData(value: unknown): value is GeoJsonData {
+  return validateGeoJsonData(value).length === 0;
+}
+
+/**
+ * Returns the input typed as GeoJsonData, or throws a GeoJsonValidationError naming each bad feature.
+ */
+export function parseGeoJsonData(value: unknown): GeoJsonData {
+  const issues = validateGeoJsonData(value);
+  if (issues.length > 0) {
+    throw new GeoJsonValidationError(issues);
+  }
+  return value as GeoJsonData;
+}
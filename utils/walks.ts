@@ -0,0 +1,138 @@
+import { MapTrack, TrackPoint, Walk } from '@/types';
+import { getDistance } from '@/utils/geometry';
+import { ZoneIndex } from '@/utils/spatialIndex';
+import { createVersionedStore, KeyValueStorage, VersionedStore } from '@/utils/storage';
+import { getZoneStatusAt, ZoneStatus } from '@/utils/zoneStatus';
+
+const STORAGE_KEY = 'walks';
+const RECORDING_STORAGE_KEY = 'walks.recording';
+export const MAX_STORED_WALKS = 50; // Oldest walks are dropped beyond this
+export const MAX_POINT_ACCURACY_M = 50; // Fixes less accurate than this are not recorded
+const MAX_SEGMENT_GAP_MS = 15 * 60 * 1000; // Longer gaps (GPS lost, app suspended) are not attributed to a zone
+export const RECORDING_SAVE_INTERVAL_MS = 15 * 1000; // The walk being recorded is saved at most this often
+
+export interface WalkTotals {
+  durationMs: number;
+  distanceM: number;
+}
+
+export interface WalkSummary extends WalkTotals {
+  byStatus: { [status in ZoneStatus]: WalkTotals }; // Time and distance per zone type
+  offLeashByNeighbourhood: { [wijknaam: string]: WalkTotals };
+}
+
+// A finished walk, summarised against the zones of the time
+export interface SavedWalk extends Walk {
+  summary: WalkSummary;
+}
+
+export interface WalkStore {
+  walks: VersionedStore<SavedWalk[]>; // Newest first
+  recording: VersionedStore<Walk | null>; // The walk being recorded; null once it is stopped
+}
+
+/**
+ * Keeps recorded walks on the device, at most MAX_STORED_WALKS of them, and the walk
+ * being recorded so it survives the app being closed.
+ */
+export function createWalkStore(storage: KeyValueStorage): WalkStore {
+  const walks = createVersionedStore<SavedWalk[]>(storage, {
+    key: STORAGE_KEY,
+    field: 'walks',
+    formatVersion: 1,
+    name: 'walks',
+    empty: [],
+    parse: value => (Array.isArray(value) ? value : null),
+  });
+  const recording = createVersionedStore<Walk | null>(storage, {
+    key: RECORDING_STORAGE_KEY,
+    field: 'walk',
+    formatVersion: 1,
+    name: 'recording',
+    empty: null,
+    parse: value => (Array.isArray((value as Partial<Walk> | null)?.points) ? (value as Walk) : null),
+  });
+  return {
+    walks: { ...walks, save: list => walks.save(list.slice(0, MAX_STORED_WALKS)) },
+    recording,
+  };
+}
+
+/**
+ * Whether a recording restored on launch goes on, or is finished as it was: it goes on
+ * when its last fix is no older than a gap a walk may have.
+ */
+export function shouldResumeRecording(walk: Walk, now: number): boolean {
+  return now - walk.endedAt <= MAX_SEGMENT_GAP_MS;
+}
+
+/**
+ * Whether a fix is worth recording after the last recorded one: accurate enough and newer.
+ */
+export function shouldRecordPoint(point: TrackPoint, previous: TrackPoint | undefined): boolean {
+  if (point.accuracy !== null && point.accuracy > MAX_POINT_ACCURACY_M) return false;
+  return !previous || point.timestamp > previous.timestamp;
+}
+
+const emptyTotals = (): WalkTotals => ({ durationMs: 0, distanceM: 0 });
+
+const addTo = (totals: WalkTotals, durationMs: number, distanceM: number) => {
+  totals.durationMs += durationMs;
+  totals.distanceM += distanceM;
+};
+
+/**
+ * Time and distance of a walk, split by the zone type each stretch started in.
+ * Off-leash stretches are also split by neighbourhood. Each fix is only tested against the zones
+ * the index finds around it.
+ */
+export function summarizeWalk(walk: Walk, zoneIndex: ZoneIndex): WalkSummary {
+  const summary: WalkSummary = {
+    durationMs: Math.max(0, walk.endedAt - walk.startedAt),
+    distanceM: 0,
+    byStatus: { 'off-leash': emptyTotals(), leash: emptyTotals(), forbidden: emptyTotals(), none: emptyTotals() },
+    offLeashByNeighbourhood: {},
+  };
+  const statusAt = ({ lat, lng }: TrackPoint) => getZoneStatusAt(lat, lng, zoneIndex.containing(lat, lng));
+
+  let current = walk.points.length > 0 ? statusAt(walk.points[0]) : null;
+  for (let i = 1; i < walk.points.length; i++) {
+    const from = walk.points[i - 1];
+    const to = walk.points[i];
+    const distanceM = getDistance(from.lat, from.lng, to.lat, to.lng) * 1000;
+    const durationMs = to.timestamp - from.timestamp;
+    summary.distanceM += distanceM;
+
+    if (current && durationMs > 0 && durationMs <= MAX_SEGMENT_GAP_MS) {
+      addTo(summary.byStatus[current.status], durationMs, distanceM);
+      const wijknaam = current.zone?.properties.WIJKNAAM;
+      if (current.status === 'off-leash' && wijknaam) {
+        summary.offLeashByNeighbourhood[wijknaam] ??= emptyTotals();
+        addTo(summary.offLeashByNeighbourhood[wijknaam], durationMs, distanceM);
+      }
+    }
+    current = statusAt(to);
+  }
+
+  return summary;
+}
+
+const toMinutes = (ms: number) => Math.round(ms / 60000);
+
+/**
+ * One-line summary for the walks list, e.g. "32 min, 18 off-leash in Schothorst-zuid".
+ */
+export function formatWalkSummary(summary: WalkSummary): string {
+  const total = `${toMinutes(summary.durationMs)} min`;
+  const offLeashMinutes = toMinutes(summary.byStatus['off-leash'].durationMs);
+  if (offLeashMinutes === 0) return total;
+
+  const [topNeighbourhood] = Object.entries(summary.offLeashByNeighbourhood)
+    .sort(([, a], [, b]) => b.durationMs - a.durationMs);
+  return `${total}, ${offLeashMinutes} off-leash${topNeighbourhood ? ` in ${topNeighbourhood[0]}` : ''}`;
+}
+
+/** The walk as a line for MapDisplay. */
+export function toMapTrack(walk: Walk): MapTrack {
+  return { id: walk.id, coordinates: walk.points.map(({ lat, lng }) => ({ lat, lng })) };
+}
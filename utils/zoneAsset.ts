@@ -0,0 +1,84 @@
+import * as turf from '@turf/turf';
+import { GeoJsonData, Geometry, Position, ProcessedZone } from '@/types';
+import { getDataVersion } from '@/utils/zoneDataSource';
+import { processZoneData } from '@/utils/zones';
+
+// Bump when the asset shape changes; the app refuses assets of another format
+export const ZONE_ASSET_FORMAT_VERSION = 1;
+export const DEFAULT_SIMPLIFY_TOLERANCE = 0.00001; // Degrees, roughly 1 m
+const COORDINATE_DECIMALS = 6; // Roughly 0.1 m
+
+/**
+ * Processed zones precomputed at build time by `npm run zones -- build`,
+ * so the app doesn't merge and measure geometries at startup.
+ */
+export interface ZoneAsset {
+  formatVersion: number;
+  version: string; // Dataset timestamp (ISO 8601) the asset was built from
+  sourceFeatureCount: number;
+  zones: ProcessedZone[];
+  forbiddenZones: ProcessedZone[];
+}
+
+export interface BuildZoneAssetOptions {
+  tolerance?: number; // Simplification tolerance in degrees, 0 keeps every vertex
+}
+
+const roundCoordinate = (value: number) => Math.round(value * 10 ** COORDINATE_DECIMALS) / 10 ** COORDINATE_DECIMALS;
+const roundPosition = (position: Position): Position => [roundCoordinate(position[0]), roundCoordinate(position[1])];
+
+/**
+ * Simplifies a zone geometry and rounds its coordinates; falls back to the rounded original
+ * when simplifying would collapse a ring.
+ */
+export function simplifyGeometry(geometry: Geometry, tolerance: number): Geometry {
+  let simplified: Geometry = geometry;
+  if (tolerance > 0) {
+    try {
+      simplified = turf.simplify(geometry, { tolerance, highQuality: true }) as Geometry;
+    } catch {
+      // turf throws when a ring would drop below 4 positions
+    }
+  }
+  const roundRings = (rings: Position[][]) => rings.map(ring => ring.map(roundPosition));
+  return simplified.type === 'Polygon'
+    ? { type: 'Polygon', coordinates: roundRings(simplified.coordinates) }
+    : { type: 'MultiPolygon', coordinates: simplified.coordinates.map(roundRings) };
+}
+
+function compactZone(zone: ProcessedZone, tolerance: number): ProcessedZone {
+  return {
+    ...zone,
+    geometry: simplifyGeometry(zone.geometry, tolerance),
+    centroid: { lat: roundCoordinate(zone.centroid.lat), lng: roundCoordinate(zone.centroid.lng) },
+  };
+}
+
+/**
+ * Processes a validated dataset into the compact zone asset bundled with the app.
+ * Centroids are computed on the full geometry before it is simplified.
+ */
+export function buildZoneAsset(data: GeoJsonData, { tolerance = DEFAULT_SIMPLIFY_TOLERANCE }: BuildZoneAssetOptions = {}): ZoneAsset {
+  const { zones, forbiddenZones } = processZoneData(data);
+  return {
+    formatVersion: ZONE_ASSET_FORMAT_VERSION,
+    version: getDataVersion(data, new Date(0).toISOString()),
+    sourceFeatureCount: data.features.length,
+    zones: zones.map(zone => compactZone(zone, tolerance)),
+    forbiddenZones: forbiddenZones.map(zone => compactZone(zone, tolerance)),
+  };
+}
+
+/**
+ * Returns the input typed as a ZoneAsset, or throws when it was built for another format.
+ */
+export function parseZoneAsset(value: unknown): ZoneAsset {
+  const asset = value as Partial<ZoneAsset> | null;
+  if (!asset || asset.formatVersion !== ZONE_ASSET_FORMAT_VERSION) {
+    throw new Error(`Zone asset has format ${asset?.formatVersion ?? 'unknown'}, expected ${ZONE_ASSET_FORMAT_VERSION}. Rebuild it with "npm run zones -- build".`);
+  }
+  if (typeof asset.version !== 'string' || !Array.isArray(asset.zones) || !Array.isArray(asset.forbiddenZones)) {
+    throw new Error('Zone asset is incomplete. Rebuild it with "npm run zones -- build".');
+  }
+  return asset as ZoneAsset;
+}
@@ -0,0 +1,137 @@
+import { DEFAULT_DATASET } from '@/constants/Datasets';
+import { GeoJsonData } from '@/types';
+import { DatasetDescriptor, normalizeDataset } from '@/utils/datasets';
+import { createVersionedStore, FileStorage, KeyValueStorage } from '@/utils/storage';
+import { isGeoJsonData, parseGeoJsonData } from '@/utils/validateGeoJson';
+
+const CACHE_KEY_PREFIX = 'zoneData.cache'; // One cache entry per dataset: "zoneData.cache.<dataset id>"
+const CACHE_FILE_PREFIX = 'zoneData'; // The dataset itself, in a file: "zoneData.<dataset id>.json"
+const FETCH_TIMEOUT_MS = 30000;
+
+// Where the zones shown come from: the asset bundled with the app, the device cache or a fresh download
+export type ZoneDataOrigin = 'bundled' | 'cache' | 'remote';
+
+export interface ZoneDataSnapshot {
+  data: GeoJsonData;
+  origin: Exclude<ZoneDataOrigin, 'bundled'>;
+  version: string; // Dataset timestamp (ISO 8601), used to pick the newest copy
+  fetchedAt: string; // When the copy was downloaded
+}
+
+// What AsyncStorage keeps of a cached download; the data is too large for one entry, so it goes in `file`
+interface CachedZoneData {
+  version: string;
+  fetchedAt: string;
+  file: string;
+}
+
+export interface ZoneDataSourceOptions {
+  storage: KeyValueStorage;
+  files: FileStorage;
+  dataset?: DatasetDescriptor;
+  url?: string; // Defaults to the dataset's source URL
+  fetchFn?: typeof fetch;
+  now?: () => Date;
+}
+
+export interface ZoneDataSource {
+  /** The last downloaded data kept on the device, or null. Never touches the network. */
+  loadCached(): Promise<ZoneDataSnapshot | null>;
+  /** Downloads the latest data, validates and caches it. Rejects when the download is unusable. */
+  refresh(): Promise<ZoneDataSnapshot>;
+}
+
+/**
+ * Version of a dataset: the server-side `timeStamp` of the export, else the given fallback.
+ */
+export function getDataVersion(data: GeoJsonData, fallback: string): string {
+  const timeStamp = (data as GeoJsonData & { timeStamp?: unknown }).timeStamp;
+  return typeof timeStamp === 'string' && !isNaN(Date.parse(timeStamp)) ? timeStamp : fallback;
+}
+
+/**
+ * Whether dataset version `version` is more recent than `than`.
+ */
+export function isNewerVersion(version: string, than: string): boolean {
+  return Date.parse(version) > Date.parse(than);
+}
+
+/**
+ * Creates the zone data source of a dataset: a device cache and on-demand downloads.
+ * The app compares the cached version with its bundled zones to pick the newest.
+ */
+export function createZoneDataSource({
+  storage,
+  files,
+  dataset = DEFAULT_DATASET,
+  url = dataset.sourceUrl,
+  fetchFn = (...args) => fetch(...args),
+  now = () => new Date(),
+}: ZoneDataSourceOptions): ZoneDataSource {
+  const cacheFile = `${CACHE_FILE_PREFIX}.${dataset.id}.json`;
+  const cacheStore = createVersionedStore<CachedZoneData | null>(storage, {
+    key: `${CACHE_KEY_PREFIX}.${dataset.id}`,
+    field: 'cache',
+    formatVersion: 2,
+    name: `${dataset.name} cache`,
+    empty: null,
+    parse: value => {
+      const cached = value as Partial<CachedZoneData> | null;
+      return typeof cached?.version === 'string' && typeof cached.fetchedAt === 'string' && typeof cached.file === 'string'
+        ? (cached as CachedZoneData)
+        : null;
+    },
+  });
+
+  const loadCached = async (): Promise<ZoneDataSnapshot | null> => {
+    try {
+      const cached = await cacheStore.load();
+      if (!cached) return null;
+      const content = await files.readFile(cached.file);
+      const data: unknown = content === null ? null : JSON.parse(content);
+      if (!isGeoJsonData(data)) {
+        console.warn(`[ZoneData] Ignoring cached data: ${cached.file} is missing or malformed.`);
+        return null;
+      }
+      console.log(`[ZoneData] Found cached data, version ${cached.version}.`);
+      return { data, origin: 'cache', version: cached.version, fetchedAt: cached.fetchedAt };
+    } catch (error) {
+      console.warn("[ZoneData] Could not read cached data:", error);
+      return null;
+    }
+  };
+
+  const refresh = async (): Promise<ZoneDataSnapshot> => {
+    console.log(`[ZoneData] Downloading ${url}`);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    let body: unknown;
+    try {
+      const response = await fetchFn(url, { signal: controller.signal, headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`Download failed with HTTP ${response.status}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      if (controller.signal.aborted) throw new Error('Download timed out');
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    // Throws a GeoJsonValidationError naming the failing features
+    const data = parseGeoJsonData(normalizeDataset(body, dataset));
+
+    const fetchedAt = now().toISOString();
+    const cached: CachedZoneData = { version: getDataVersion(data, fetchedAt), fetchedAt, file: cacheFile };
+    // The file first, so the entry never describes data that isn't there
+    await files.writeFile(cacheFile, JSON.stringify(data));
+    await cacheStore.save(cached);
+    console.log(`[ZoneData] Cached ${data.features.length} features, version ${cached.version}.`);
+
+    return { data, origin: 'remote', version: cached.version, fetchedAt };
+  };
+
+  return { loadCached, refresh };
+}
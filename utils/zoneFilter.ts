@@ -0,0 +1,87 @@
+import { ProcessedZone } from '@/types';
+
+export type ZoneSortOrder = 'distance' | 'size';
+
+// What the filter panel narrows the zones down to; empty lists and null mean "any"
+export interface ZoneFilter {
+  query: string; // Part of a neighbourhood (WIJKNAAM) name, case-insensitive
+  codes: string[];
+  teams: string[]; // GEBIEDSTEAM values
+  minArea: number | null; // m²; zones without a known area never match
+}
+
+export interface ZoneFilterOptions {
+  neighbourhoods: string[];
+  codes: string[];
+  teams: string[];
+}
+
+export const EMPTY_ZONE_FILTER: ZoneFilter = { query: '', codes: [], teams: [], minArea: null };
+
+const byName = (a: string, b: string) => a.localeCompare(b);
+
+/**
+ * Neighbourhoods a zone lies in: its own WIJKNAAM plus those of every merged member.
+ */
+export function getZoneNeighbourhoods(zone: ProcessedZone): string[] {
+  const names = zone.memberIds?.map(member => member.WIJKNAAM) ?? [zone.properties.WIJKNAAM];
+  return [...new Set(names.filter((name): name is string => !!name))];
+}
+
+export function isZoneFilterActive(filter: ZoneFilter): boolean {
+  return filter.query.trim() !== '' || filter.codes.length > 0 || filter.teams.length > 0 || filter.minArea !== null;
+}
+
+export function matchesZoneFilter(zone: ProcessedZone, filter: ZoneFilter): boolean {
+  const query = filter.query.trim().toLowerCase();
+  if (query && !getZoneNeighbourhoods(zone).some(name => name.toLowerCase().includes(query))) return false;
+  if (filter.codes.length > 0 && !filter.codes.includes(zone.properties.CODE)) return false;
+  if (filter.teams.length > 0 && !filter.teams.includes(zone.properties.GEBIEDSTEAM ?? '')) return false;
+  if (filter.minArea !== null && !(zone.area !== undefined && zone.area >= filter.minArea)) return false;
+  return true;
+}
+
+/**
+ * Zones that match the filter; returns the same array when no filter is set, so memoised consumers don't rerender.
+ */
+export function filterZones(zones: ProcessedZone[], filter: ZoneFilter): ProcessedZone[] {
+  if (!isZoneFilterActive(filter)) return zones;
+  return zones.filter(zone => matchesZoneFilter(zone, filter));
+}
+
+/**
+ * Sorts zones nearest first (by `getDistanceKm`) or largest first. Zones without a
+ * distance or area go last, so a missing location or area never hides a match.
+ */
+export function sortZones(
+  zones: ProcessedZone[],
+  order: ZoneSortOrder,
+  getDistanceKm: (zone: ProcessedZone) => number | undefined
+): ProcessedZone[] {
+  const key = order === 'distance'
+    ? (zone: ProcessedZone) => getDistanceKm(zone) ?? Infinity
+    : (zone: ProcessedZone) => -(zone.area ?? -Infinity);
+  return zones
+    .map(zone => ({ zone, key: key(zone) }))
+    .sort((a, b) => (a.key === b.key ? 0 : a.key - b.key))
+    .map(({ zone }) => zone);
+}
+
+/**
+ * The neighbourhoods, codes and area teams present in the zones, for the filter panel.
+ */
+export function getZoneFilterOptions(zones: ProcessedZone[]): ZoneFilterOptions {
+  const neighbourhoods = new Set<string>();
+  const codes = new Set<string>();
+  const teams = new Set<string>();
+  zones.forEach(zone => {
+    getZoneNeighbourhoods(zone).forEach(name => neighbourhoods.add(name));
+    codes.add(zone.properties.CODE);
+    if (zone.properties.GEBIEDSTEAM) teams.add(zone.properties.GEBIEDSTEAM);
+  });
+  return {
+    neighbourhoods: [...neighbourhoods].sort(byName),
+    codes: [...codes].sort(byName),
+    teams: [...teams].sort(byName),
+  };
+}
@@ -0,0 +1,12 @@
+import { ProcessedZone } from '@/types';
+
+/** Walking distance to the zone edge for display, e.g. "~40m away" or "inside". */
+export const formatBoundaryDistance = (zone: ProcessedZone): string => {
+  if (zone.boundaryDistance == null) return 'Dist. N/A';
+  if (zone.boundaryDistance === 0) return 'inside';
+  return `~${(zone.boundaryDistance * 1000).toFixed(0)}m away`;
+};
+
+/** Area for display, in m² up to a hectare and in hectares above, e.g. "850 m²" or "2.4 ha". */
+export const formatArea = (squareMetres: number): string =>
+  squareMetres < 10000 ? `${squareMetres.toFixed(0)} m²` : `${(squareMetres / 10000).toFixed(1)} ha`;
@@ -0,0 +1,60 @@
+import { ProcessedZone } from '@/types';
+import { ZONE_STATUS_BY_CODE } from '@/utils/zoneStatus';
+
+export const UNKNOWN_NEIGHBOURHOOD = 'Unknown neighbourhood';
+export const UNKNOWN_TEAM = 'No area team';
+
+// Zones of one area team within a neighbourhood
+export interface ZoneTeamGroup {
+  team: string; // GEBIEDSTEAM, or UNKNOWN_TEAM
+  zones: ProcessedZone[]; // Largest first, point zones last
+  offLeashArea: number; // m², summed over the off-leash zones with a known area
+}
+
+export interface ZoneNeighbourhoodGroup {
+  neighbourhood: string; // WIJKNAAM, or UNKNOWN_NEIGHBOURHOOD
+  teams: ZoneTeamGroup[];
+  zoneCount: number;
+  offLeashArea: number;
+}
+
+const byName = (a: string, b: string) => a.localeCompare(b);
+
+const getOffLeashArea = (zones: ProcessedZone[]) => zones.reduce(
+  (sum, zone) => (ZONE_STATUS_BY_CODE[zone.properties.CODE] === 'off-leash' ? sum + (zone.area ?? 0) : sum),
+  0
+);
+
+/**
+ * Groups zones by neighbourhood (WIJKNAAM) and then area team (GEBIEDSTEAM), both by name
+ * with the unknown group last. A merged zone is listed once, under its first member's
+ * neighbourhood, so the totals add up to those of the whole dataset.
+ */
+export function groupZonesByNeighbourhood(zones: ProcessedZone[]): ZoneNeighbourhoodGroup[] {
+  const byNeighbourhood = new Map<string, Map<string, ProcessedZone[]>>();
+  zones.forEach(zone => {
+    const neighbourhood = zone.properties.WIJKNAAM || UNKNOWN_NEIGHBOURHOOD;
+    const team = zone.properties.GEBIEDSTEAM || UNKNOWN_TEAM;
+    if (!byNeighbourhood.has(neighbourhood)) byNeighbourhood.set(neighbourhood, new Map());
+    const teams = byNeighbourhood.get(neighbourhood)!;
+    if (!teams.has(team)) teams.set(team, []);
+    teams.get(team)!.push(zone);
+  });
+
+  const sortNames = (names: string[], unknown: string) =>
+    names.filter(name => name !== unknown).sort(byName).concat(names.includes(unknown) ? [unknown] : []);
+
+  return sortNames([...byNeighbourhood.keys()], UNKNOWN_NEIGHBOURHOOD).map(neighbourhood => {
+    const teamZones = byNeighbourhood.get(neighbourhood)!;
+    const teams = sortNames([...teamZones.keys()], UNKNOWN_TEAM).map(team => {
+      const zonesOfTeam = [...teamZones.get(team)!].sort((a, b) => (b.area ?? -1) - (a.area ?? -1));
+      return { team, zones: zonesOfTeam, offLeashArea: getOffLeashArea(zonesOfTeam) };
+    });
+    return {
+      neighbourhood,
+      teams,
+      zoneCount: teams.reduce((sum, group) => sum + group.zones.length, 0),
+      offLeashArea: teams.reduce((sum, group) => sum + group.offLeashArea, 0),
+    };
+  });
+}
@@ -0,0 +1,72 @@
+import * as turf from '@turf/turf';
+import { ProcessedZone } from '@/types';
+
+// What applies to a dog at a given spot
+export type ZoneStatus = 'off-leash' | 'leash' | 'forbidden' | 'none';
+
+// Meaning of each source CODE
+export const ZONE_STATUS_BY_CODE: { [code: string]: ZoneStatus } = {
+  GROEN: 'off-leash',
+  ORANJE: 'off-leash',
+  ROOD: 'forbidden',
+  WATERSPEELPLEK: 'forbidden',
+};
+
+// User-facing text for each status
+export const ZONE_STATUS_LABELS: { [status in ZoneStatus]: string } = {
+  'off-leash': 'Off-leash allowed',
+  leash: 'Leash required',
+  forbidden: 'Dogs forbidden',
+  none: 'No specific rule',
+};
+
+/** Dogs-forbidden codes get the "Dogs not allowed" detail instead of the navigation prompt. */
+export const isForbiddenZone = (zone: ProcessedZone) => ZONE_STATUS_BY_CODE[zone.properties?.CODE] === 'forbidden';
+
+/**
+ * What a dog owner may do in a zone, in one sentence.
+ */
+export function getZoneRuleDescription(zone: ProcessedZone): string {
+  if (zone.properties.CODE === 'WATERSPEELPLEK') return 'Dogs are forbidden at this water playground.';
+  switch (ZONE_STATUS_BY_CODE[zone.properties.CODE]) {
+    case 'off-leash': return 'Dogs may run off the leash here.';
+    case 'leash': return 'Dogs are welcome here, on a leash.';
+    case 'forbidden': return 'Dogs are forbidden in this zone, also on a leash.';
+    default: return 'No specific dog rule applies to this zone.';
+  }
+}
+
+// Most restrictive rule wins when polygons overlap
+const STATUS_PRIORITY: ZoneStatus[] = ['forbidden', 'leash', 'off-leash'];
+
+export interface ZoneStatusResult {
+  status: ZoneStatus;
+  zone: ProcessedZone | null; // The zone that decided the status, if any
+}
+
+/**
+ * Determines which rule applies at a location by testing it against every zone polygon.
+ * Holes are respected, so a playground cut out of a field does not count as part of it.
+ */
+export function getZoneStatusAt(lat: number, lng: number, zones: ProcessedZone[]): ZoneStatusResult {
+  const point = turf.point([lng, lat]);
+  let result: ZoneStatusResult = { status: 'none', zone: null };
+
+  for (const zone of zones) {
+    const status = ZONE_STATUS_BY_CODE[zone.properties?.CODE];
+    if (!status || !zone.geometry) continue;
+    if (result.status !== 'none' && STATUS_PRIORITY.indexOf(status) >= STATUS_PRIORITY.indexOf(result.status)) continue;
+    if (zone.geometry.type !== 'Polygon' && zone.geometry.type !== 'MultiPolygon') continue;
+
+    try {
+      if (turf.booleanPointInPolygon(point, zone.geometry)) {
+        result = { status, zone };
+        if (status === STATUS_PRIORITY[0]) break; // Nothing can override forbidden
+      }
+    } catch (error) {
+      console.warn(`[Status] Could not test zone ${zone.id}:`, error);
+    }
+  }
+
+  return result;
+}
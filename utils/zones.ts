@@ -0,0 +1,89 @@
+import { GeoJsonData, ProcessedZone } from '@/types';
+import { getCentroid } from '@/utils/geometry';
+import { mergeAreas } from '@/utils/mergeAreas';
+
+// Off-leash and leash codes; nearby areas of the same code are merged into one zone
+export const DOG_ZONE_CODES = ['GROEN', 'ORANJE'];
+// Dogs-forbidden codes, kept as a separate layer that is never merged
+export const FORBIDDEN_ZONE_CODES = ['ROOD', 'WATERSPEELPLEK'];
+
+export interface ProcessedZoneData {
+  zones: ProcessedZone[]; // Merged areas followed by point zones
+  forbiddenZones: ProcessedZone[];
+}
+
+/**
+ * Area in m² from the OPPERVLAKTE property, or undefined when it is missing or not positive.
+ */
+export function parseArea(oppervlakte: string | null): number | undefined {
+  if (!oppervlakte) return undefined;
+  const area = parseFloat(oppervlakte);
+  return !isNaN(area) && area > 0 ? area : undefined;
+}
+
+/**
+ * Turns the raw dataset into map zones: off-leash areas (merged when close together),
+ * point zones without a known area, and the dogs-forbidden layer. Other codes are dropped.
+ */
+export function processZoneData(data: GeoJsonData): ProcessedZoneData {
+  // 1. Initial Processing into Raw Zones (Areas & Points)
+  const initialAreaZones: ProcessedZone[] = [];
+  const initialPointZones: ProcessedZone[] = [];
+  const initialForbiddenZones: ProcessedZone[] = [];
+
+  data.features.forEach(feature => {
+    const code = feature.properties.CODE;
+    const isForbidden = FORBIDDEN_ZONE_CODES.includes(code);
+    if (!isForbidden && !DOG_ZONE_CODES.includes(code)) return;
+
+    const centroid = getCentroid(feature.geometry);
+    if (!centroid) return; // Skip if no valid centroid
+
+    const zone: ProcessedZone = {
+      type: 'Feature',
+      id: feature.id, // Stable across app starts and data updates
+      sourceId: feature.id,
+      properties: feature.properties,
+      geometry: feature.geometry,
+      geometry_name: feature.geometry_name,
+      centroid,
+      zoneType: 'area',
+      area: parseArea(feature.properties.OPPERVLAKTE),
+    };
+
+    if (isForbidden) {
+      // Forbidden zones are always drawn as polygons, even without a known area
+      initialForbiddenZones.push(zone);
+    } else if (zone.area !== undefined) {
+      initialAreaZones.push(zone);
+    } else {
+      initialPointZones.push({ ...zone, zoneType: 'point' });
+    }
+  });
+
+  console.log(`[Zones] Initial processing: ${initialAreaZones.length} area zones, ${initialPointZones.length} point zones, ${initialForbiddenZones.length} forbidden zones.`);
+
+  // 2. Merge Nearby Areas (separately per code)
+  const mergedAreas = DOG_ZONE_CODES.flatMap(code => mergeAreas(initialAreaZones, code));
+
+  return {
+    zones: [...mergedAreas, ...initialPointZones],
+    forbiddenZones: initialForbiddenZones,
+  };
+}
+
+/**
+ * The zone holding a source feature, e.g. "Hondenkaart.188996": the feature's own zone
+ * or the merged zone it became part of.
+ */
+export function findZoneBySourceId(zones: ProcessedZone[], sourceId: string): ProcessedZone | null {
+  return zones.find(zone =>
+    zone.sourceId === sourceId || zone.memberIds?.some(member => member.id === sourceId)
+  ) ?? null;
+}
+
+/**
+ * Path of a zone's detail screen. The ID is encoded, as overlay IDs contain a slash
+ * (e.g. "overlay_1718000000000/12"); the router hands the screen its `id` parameter decoded.
+ */
+export const getZoneDetailPath = (sourceId: string): string => `/zone/${encodeURIComponent(sourceId)}`;